@@ -0,0 +1,65 @@
+import { type File } from "@/db/schema"
+import { formatFileSize, getAssetUrl } from "@/lib/assets"
+import { getFileRenderer } from "@/components/file-renderers"
+import { Button } from "@/components/ui/button"
+import { Download, ExternalLink, FileIcon } from "lucide-react"
+
+interface AssetViewProps {
+  file: File
+}
+
+/**
+ * A binary asset such as an image or PDF with links to open it in the
+ * browser or download it, shown by its renderer if there is one for its
+ * type. Assets can't be edited in the app.
+ */
+export function AssetView({ file }: AssetViewProps) {
+  const renderer = getFileRenderer(file)
+  const description = (
+    <p className="text-sm text-gray-500">
+      {file.mime_type ?? "Unknown type"}
+      {file.size !== null && ` · ${formatFileSize(file.size)}`}
+    </p>
+  )
+  const links = (
+    <div className="flex gap-2">
+      <Button size="sm" variant="outline" asChild>
+        <a href={getAssetUrl(file.id)} target="_blank" rel="noreferrer">
+          <ExternalLink />
+          Open
+        </a>
+      </Button>
+      <Button size="sm" variant="outline" asChild>
+        <a href={getAssetUrl(file.id, true)} download={file.name}>
+          <Download />
+          Download
+        </a>
+      </Button>
+    </div>
+  )
+
+  if (renderer) {
+    return (
+      <div className="flex h-full min-h-0 flex-col gap-2">
+        <div className="flex items-center justify-end gap-3">
+          <div className="mr-auto">{description}</div>
+          {links}
+        </div>
+        <div className="min-h-0 flex-1">
+          <renderer.component file={file} text="" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full flex-col items-center justify-center gap-3 rounded border border-gray-200 p-6 text-center">
+      <FileIcon className="size-10 text-gray-400" />
+      <div>
+        <p className="font-medium text-gray-800">{file.name}</p>
+        {description}
+      </div>
+      {links}
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react"
+import { useNavigate, useParams } from "@tanstack/react-router"
+import { useLiveQuery } from "@tanstack/react-db"
+import { defaultFilter } from "cmdk"
+import { authClient } from "@/lib/auth-client"
+import { getProjectCollections, projectCollection } from "@/lib/collections"
+import {
+  boostRecentScore,
+  loadRecentCommandIds,
+  recordRecentCommand,
+  type PaletteCommand,
+} from "@/lib/commands"
+import { getFolderChain } from "@/lib/file-tree"
+import { useExpandedFolders } from "@/hooks/use-expanded-folders"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useSidebar } from "@/components/ui/sidebar"
+import { FileText, Folder as FolderIcon, FolderKanban } from "lucide-react"
+
+/** Commands of every mounted component, read each time the palette opens */
+interface CommandRegistry {
+  /**
+   * Adds a source of commands
+   * @returns A function removing the source again
+   */
+  register: (getCommands: () => PaletteCommand[]) => () => void
+  getCommands: () => PaletteCommand[]
+}
+
+const CommandRegistryContext = createContext<CommandRegistry | null>(null)
+
+/**
+ * Offers commands in the palette while the calling component is mounted.
+ * The latest commands are read whenever the palette opens, so they may
+ * change on every render without re-registering.
+ * @param commands - Commands to offer, each with an id unique across the app
+ */
+export function useRegisterCommands(commands: PaletteCommand[]) {
+  const registry = useContext(CommandRegistryContext)
+  if (!registry) {
+    throw new Error(
+      "useRegisterCommands must be used within a CommandPaletteProvider."
+    )
+  }
+  const commandsRef = useRef(commands)
+  commandsRef.current = commands
+
+  useEffect(() => registry.register(() => commandsRef.current), [registry])
+}
+
+/**
+ * Offers a command for each project, switching to it
+ */
+function ProjectCommands() {
+  const navigate = useNavigate()
+  const { data: projects } = useLiveQuery((q) => q.from({ projectCollection }))
+
+  useRegisterCommands(
+    projects.map((project) => ({
+      id: `project:${project.id}`,
+      title: project.name,
+      group: "Projects",
+      keywords: project.description ? [project.description] : [],
+      icon: FolderKanban,
+      run: () =>
+        navigate({
+          to: "/project/$projectId",
+          params: { projectId: project.id.toString() },
+        }),
+    }))
+  )
+  return null
+}
+
+/**
+ * Offers a command for each file and folder of a project. Files open in
+ * the editor; folders are expanded in the explorer along with their
+ * ancestors.
+ */
+function ProjectTreeCommands({ projectId }: { projectId: number }) {
+  const navigate = useNavigate()
+  const { data: session } = authClient.useSession()
+  const { isMobile, setOpen, setOpenMobile } = useSidebar()
+  const { setFolderExpanded } = useExpandedFolders(projectId, session?.user.id)
+  const { foldersCollection, filesCollection } =
+    getProjectCollections(projectId)
+
+  const { data: folders } = useLiveQuery(
+    (q) => q.from({ foldersCollection }),
+    [projectId]
+  )
+  const { data: files } = useLiveQuery(
+    (q) => q.from({ filesCollection }),
+    [projectId]
+  )
+
+  const getPath = (folderId: number | null) =>
+    getFolderChain(folders, folderId)
+      .map((folder) => folder.name)
+      .join(`/`)
+
+  const revealFolder = (folderId: number) => {
+    for (const folder of getFolderChain(folders, folderId)) {
+      setFolderExpanded(folder.id, true)
+    }
+    if (isMobile) {
+      setOpenMobile(true)
+    } else {
+      setOpen(true)
+    }
+  }
+
+  useRegisterCommands([
+    ...files.map((file) => ({
+      id: `file:${file.id}`,
+      title: file.name,
+      group: "Files",
+      description: getPath(file.folder_id),
+      keywords: [getPath(file.folder_id)],
+      icon: FileText,
+      searchOnly: true,
+      run: () =>
+        navigate({
+          to: "/project/$projectId/file/$fileId",
+          params: {
+            projectId: projectId.toString(),
+            fileId: file.id.toString(),
+          },
+        }),
+    })),
+    ...folders.map((folder) => ({
+      id: `folder:${folder.id}`,
+      title: folder.name,
+      group: "Folders",
+      description: getPath(folder.parent_folder_id),
+      keywords: [getPath(folder.parent_folder_id)],
+      icon: FolderIcon,
+      searchOnly: true,
+      run: () => revealFolder(folder.id),
+    })),
+  ])
+  return null
+}
+
+/**
+ * Ctrl/Cmd+K palette listing the commands registered through
+ * useRegisterCommands, along with the projects and the files and folders
+ * of the current project. Recently run entries are listed first, and rank
+ * higher than equally good matches when searching.
+ */
+function CommandPalette() {
+  const registry = useContext(CommandRegistryContext)
+  const { data: session } = authClient.useSession()
+  const userId = session?.user.id
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [recentIds, setRecentIds] = useState<string[]>([])
+  // Set when a command ran, so closing doesn't move focus away from
+  // whatever the command focused
+  const ranCommandRef = useRef(false)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        setOpen((open) => !open)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    setSearch("")
+    setRecentIds(loadRecentCommandIds(userId))
+    ranCommandRef.current = false
+  }, [open, userId])
+
+  // Entries match on their title and keywords; the value is only their id
+  const filter = useCallback(
+    (value: string, search: string, keywords?: string[]) =>
+      boostRecentScore(
+        defaultFilter(keywords?.[0] ?? value, search, keywords?.slice(1)),
+        value,
+        recentIds
+      ),
+    [recentIds]
+  )
+
+  const commands = open && registry ? registry.getCommands() : []
+  const isSearching = search.trim().length > 0
+  const recent = isSearching
+    ? []
+    : recentIds.flatMap((id) => commands.filter((c) => c.id === id))
+  const groups = new Map<string, PaletteCommand[]>()
+  for (const command of commands) {
+    if (command.searchOnly && !isSearching) continue
+    if (recent.includes(command)) continue
+    const group = groups.get(command.group) ?? []
+    group.push(command)
+    groups.set(command.group, group)
+  }
+
+  const runCommand = (command: PaletteCommand) => {
+    setRecentIds(recordRecentCommand(userId, command.id))
+    ranCommandRef.current = true
+    setOpen(false)
+    command.run()
+  }
+
+  const renderItem = (command: PaletteCommand) => (
+    <CommandItem
+      key={command.id}
+      value={command.id}
+      keywords={[command.title, ...(command.keywords ?? [])]}
+      disabled={command.disabled}
+      onSelect={() => runCommand(command)}
+    >
+      {command.icon && <command.icon />}
+      <span className="truncate">{command.title}</span>
+      {command.description && (
+        <span className="truncate text-xs text-muted-foreground">
+          {command.description}
+        </span>
+      )}
+      {command.shortcut && (
+        <CommandShortcut>{command.shortcut}</CommandShortcut>
+      )}
+    </CommandItem>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent
+        className="overflow-hidden p-0"
+        showCloseButton={false}
+        onCloseAutoFocus={(event) => {
+          if (ranCommandRef.current) event.preventDefault()
+        }}
+      >
+        <DialogHeader className="sr-only">
+          <DialogTitle>Command Palette</DialogTitle>
+          <DialogDescription>
+            Search for a file, project or command to run
+          </DialogDescription>
+        </DialogHeader>
+        <Command
+          filter={filter}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder="Search files, projects and commands..."
+          />
+          <CommandList className="max-h-[400px]">
+            <CommandEmpty>No results found.</CommandEmpty>
+            {recent.length > 0 && (
+              <CommandGroup heading="Recent">
+                {recent.map(renderItem)}
+              </CommandGroup>
+            )}
+            {[...groups].map(([group, groupCommands]) => (
+              <CommandGroup key={group} heading={group}>
+                {groupCommands.map(renderItem)}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * Provides the command registry and renders the command palette. Must be
+ * inside a SidebarProvider, as folders are revealed in the sidebar.
+ */
+export function CommandPaletteProvider({ children }: { children: ReactNode }) {
+  const { projectId } = useParams({ strict: false })
+  const [registry] = useState<CommandRegistry>(() => {
+    const sources = new Set<() => PaletteCommand[]>()
+    return {
+      register: (getCommands) => {
+        sources.add(getCommands)
+        return () => {
+          sources.delete(getCommands)
+        }
+      },
+      getCommands: () => [...sources].flatMap((getCommands) => getCommands()),
+    }
+  })
+
+  return (
+    <CommandRegistryContext.Provider value={registry}>
+      {children}
+      <ProjectCommands />
+      {projectId && <ProjectTreeCommands projectId={parseInt(projectId, 10)} />}
+      <CommandPalette />
+    </CommandRegistryContext.Provider>
+  )
+}
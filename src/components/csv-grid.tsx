@@ -0,0 +1,104 @@
+import { useMemo, useState } from "react"
+import { compareCsvCells, parseCsv } from "@/lib/csv"
+import { type FileRendererProps } from "@/components/file-renderers"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ArrowDown, ArrowUp } from "lucide-react"
+
+// Rows shown at most, so huge files don't freeze the page
+const MAX_ROWS = 1000
+
+/**
+ * CSV or TSV file shown as a table, with the first row as its header.
+ * Clicking a header sorts by that column, ascending, then descending, then
+ * back to the order of the file.
+ */
+export function CsvGrid({ file, text }: FileRendererProps) {
+  const [sort, setSort] = useState<{
+    column: number
+    direction: 1 | -1
+  } | null>(null)
+
+  const parsed = useMemo(
+    () => parseCsv(text, file.name.toLowerCase().endsWith(".tsv") ? "\t" : ","),
+    [text, file.name]
+  )
+  const header = parsed[0]
+  const rows = useMemo(() => {
+    const body = parsed.slice(1)
+    if (!sort) return body
+    return body.sort(
+      (a, b) =>
+        compareCsvCells(a[sort.column] ?? "", b[sort.column] ?? "") *
+        sort.direction
+    )
+  }, [parsed, sort])
+  const columnCount = parsed.reduce((max, row) => Math.max(max, row.length), 0)
+
+  const toggleSort = (column: number) =>
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: 1 }
+      return current.direction === 1 ? { column, direction: -1 } : null
+    })
+
+  if (!header) {
+    return <p className="p-4 text-sm text-gray-500">This file is empty</p>
+  }
+
+  return (
+    <div className="flex h-full min-h-0 flex-col rounded border bg-white">
+      <div className="min-h-0 flex-1 overflow-auto">
+        <Table>
+          <TableHeader className="sticky top-0 bg-gray-50">
+            <TableRow>
+              {Array.from({ length: columnCount }, (_, column) => (
+                <TableHead
+                  key={column}
+                  onClick={() => toggleSort(column)}
+                  className="cursor-pointer select-none"
+                  aria-sort={
+                    sort?.column === column
+                      ? sort.direction === 1
+                        ? "ascending"
+                        : "descending"
+                      : undefined
+                  }
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {header[column] ?? ""}
+                    {sort?.column === column &&
+                      (sort.direction === 1 ? (
+                        <ArrowUp className="size-3" />
+                      ) : (
+                        <ArrowDown className="size-3" />
+                      ))}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.slice(0, MAX_ROWS).map((row, index) => (
+              <TableRow key={index}>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <TableCell key={column}>{row[column] ?? ""}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {rows.length > MAX_ROWS && (
+        <p className="border-t px-3 py-1 text-xs text-gray-500">
+          Showing the first {MAX_ROWS} of {rows.length} rows
+        </p>
+      )}
+    </div>
+  )
+}
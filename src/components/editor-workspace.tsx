@@ -0,0 +1,387 @@
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useState,
+  type DragEvent,
+} from "react"
+import { useNavigate } from "@tanstack/react-router"
+import { useLiveQuery } from "@tanstack/react-db"
+import { getProjectCollections } from "@/lib/collections"
+import { TREE_ITEM_MIME, type TreeItemRef } from "@/lib/file-tree"
+import {
+  EDITOR_TAB_MIME,
+  MAX_EDITOR_GROUPS,
+  closeTabs,
+  focusGroup,
+  getActiveFileId,
+  moveTab,
+  openTab,
+  pruneWorkspace,
+  splitTab,
+  type EditorGroup,
+  type EditorTabRef,
+  type WorkspaceState,
+} from "@/lib/workspace"
+import { type File } from "@/db/schema"
+import { type SaveStatus } from "@/hooks/use-file-doc"
+import { useWorkspace } from "@/hooks/use-workspace"
+import { FilePane } from "@/components/file-pane"
+import { Button } from "@/components/ui/button"
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu"
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable"
+import { Columns2, FileText, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface EditorWorkspaceProps {
+  projectId: number
+  /** File opened by the current route, shown in the focused group */
+  fileId: number
+  /** Line to reveal in the routed file, e.g. a search match */
+  line?: number
+  user: { id: string; name: string } | undefined
+}
+
+interface EditorGroupViewProps {
+  group: EditorGroup
+  isActive: boolean
+  canSplit: boolean
+  files: File[]
+  isDirty: (fileId: number) => boolean
+  onChange: (change: (state: WorkspaceState) => WorkspaceState) => void
+  renderPane: (fileId: number) => React.ReactNode
+}
+
+/**
+ * A pane of the workspace: a row of reorderable tabs above the editor of
+ * the active tab
+ */
+function EditorGroupView({
+  group,
+  isActive,
+  canSplit,
+  files,
+  isDirty,
+  onChange,
+  renderPane,
+}: EditorGroupViewProps) {
+  // Tab index a dragged tab would be inserted at
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const getFileName = (fileId: number) =>
+    files.find((file) => file.id === fileId)?.name ?? "Unknown file"
+
+  const isDraggedItem = (event: DragEvent) =>
+    event.dataTransfer.types.includes(EDITOR_TAB_MIME) ||
+    event.dataTransfer.types.includes(TREE_ITEM_MIME)
+
+  const handleDragOver = (event: DragEvent, index: number) => {
+    if (!isDraggedItem(event)) return
+    event.preventDefault()
+    event.stopPropagation()
+    event.dataTransfer.dropEffect = "move"
+    setDropIndex(index)
+  }
+
+  const handleDrop = (event: DragEvent, index: number) => {
+    setDropIndex(null)
+    const tabData = event.dataTransfer.getData(EDITOR_TAB_MIME)
+    const treeData = event.dataTransfer.getData(TREE_ITEM_MIME)
+    if (!tabData && !treeData) return
+    event.preventDefault()
+    event.stopPropagation()
+
+    if (tabData) {
+      const tab: EditorTabRef = JSON.parse(tabData)
+      onChange((state) => moveTab(state, tab, group.id, index))
+      return
+    }
+    // Files dragged in from the explorer open in this group
+    const item: TreeItemRef = JSON.parse(treeData)
+    if (item.type === "file") {
+      onChange((state) => openTab(state, item.id, group.id))
+    }
+  }
+
+  const closeTab = (fileId: number) =>
+    onChange((state) => closeTabs(state, group.id, [fileId]))
+
+  return (
+    <div
+      className="flex h-full min-w-0 flex-col"
+      onMouseDownCapture={() =>
+        onChange((state) => focusGroup(state, group.id))
+      }
+    >
+      <div className="flex items-stretch border-b bg-gray-50">
+        <div
+          role="tablist"
+          className="flex min-w-0 flex-1 overflow-x-auto"
+          onDragOver={(e) => handleDragOver(e, group.tabs.length)}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+              setDropIndex(null)
+            }
+          }}
+          onDrop={(e) => handleDrop(e, group.tabs.length)}
+        >
+          {group.tabs.map((fileId, index) => {
+            const isSelected = group.activeFileId === fileId
+            const dirty = isDirty(fileId)
+            return (
+              <ContextMenu key={fileId}>
+                <ContextMenuTrigger asChild>
+                  <div
+                    role="tab"
+                    aria-selected={isSelected}
+                    title={getFileName(fileId)}
+                    draggable
+                    onDragStart={(e) => {
+                      const tab: EditorTabRef = { fileId, groupId: group.id }
+                      e.dataTransfer.setData(
+                        EDITOR_TAB_MIME,
+                        JSON.stringify(tab)
+                      )
+                      e.dataTransfer.effectAllowed = "move"
+                    }}
+                    onDragOver={(e) => {
+                      // Insert before or after depending on the half hovered
+                      const rect = e.currentTarget.getBoundingClientRect()
+                      const after = e.clientX > rect.left + rect.width / 2
+                      handleDragOver(e, after ? index + 1 : index)
+                    }}
+                    onDrop={(e) => handleDrop(e, dropIndex ?? index)}
+                    onClick={() =>
+                      onChange((state) => openTab(state, fileId, group.id))
+                    }
+                    onAuxClick={(e) => e.button === 1 && closeTab(fileId)}
+                    className={cn(
+                      "group/tab flex shrink-0 cursor-pointer items-center gap-1.5 border-r border-t-2 border-t-transparent px-3 py-1.5 text-sm select-none",
+                      isSelected
+                        ? "bg-white"
+                        : "text-gray-500 hover:bg-gray-100",
+                      isSelected && isActive && "border-t-blue-500",
+                      dropIndex === index && "shadow-[inset_2px_0_0_#3b82f6]",
+                      dropIndex === index + 1 &&
+                        index === group.tabs.length - 1 &&
+                        "shadow-[inset_-2px_0_0_#3b82f6]"
+                    )}
+                  >
+                    <FileText className="w-3.5 h-3.5 shrink-0 text-green-600" />
+                    <span className="max-w-40 truncate">
+                      {getFileName(fileId)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        closeTab(fileId)
+                      }}
+                      className="relative flex size-4 items-center justify-center rounded hover:bg-gray-200"
+                      title={dirty ? "Unsaved changes" : "Close"}
+                    >
+                      {dirty && (
+                        <span className="size-2 rounded-full bg-gray-500 group-hover/tab:hidden" />
+                      )}
+                      <X
+                        className={cn(
+                          "w-3 h-3",
+                          dirty
+                            ? "hidden group-hover/tab:block"
+                            : !isSelected && "invisible group-hover/tab:visible"
+                        )}
+                      />
+                    </button>
+                  </div>
+                </ContextMenuTrigger>
+                <ContextMenuContent className="w-48">
+                  <ContextMenuItem onSelect={() => closeTab(fileId)}>
+                    Close
+                  </ContextMenuItem>
+                  <ContextMenuItem
+                    disabled={group.tabs.length === 1}
+                    onSelect={() =>
+                      onChange((state) =>
+                        closeTabs(
+                          openTab(state, fileId, group.id),
+                          group.id,
+                          group.tabs.filter((tab) => tab !== fileId)
+                        )
+                      )
+                    }
+                  >
+                    Close Others
+                  </ContextMenuItem>
+                  <ContextMenuItem
+                    onSelect={() =>
+                      onChange((state) =>
+                        closeTabs(state, group.id, group.tabs)
+                      )
+                    }
+                  >
+                    Close All
+                  </ContextMenuItem>
+                  <ContextMenuSeparator />
+                  <ContextMenuItem
+                    onSelect={() =>
+                      onChange((state) => splitTab(state, fileId, group.id))
+                    }
+                  >
+                    <Columns2 />
+                    Split Right
+                  </ContextMenuItem>
+                </ContextMenuContent>
+              </ContextMenu>
+            )
+          })}
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={group.activeFileId === null || !canSplit}
+          onClick={() => {
+            const fileId = group.activeFileId
+            if (fileId !== null) {
+              onChange((state) => splitTab(state, fileId, group.id))
+            }
+          }}
+          className="h-auto rounded-none px-2"
+          title="Split editor right"
+        >
+          <Columns2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="min-h-0 flex-1 p-2">
+        {group.activeFileId !== null ? (
+          renderPane(group.activeFileId)
+        ) : (
+          <div className="flex h-full items-center justify-center text-sm text-gray-500">
+            Open a file from the explorer
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Editor area of a project with tabs and up to three side by side groups.
+ * Open tabs and pane sizes are restored per user and project, and the
+ * focused tab is kept in sync with the URL.
+ */
+export function EditorWorkspace({
+  projectId,
+  fileId,
+  line,
+  user,
+}: EditorWorkspaceProps) {
+  const navigate = useNavigate()
+  const { workspace, updateWorkspace, layoutKey } = useWorkspace(
+    projectId,
+    user?.id,
+    fileId
+  )
+  const [statuses, setStatuses] = useState<Record<number, SaveStatus>>({})
+
+  const { filesCollection } = getProjectCollections(projectId)
+  const { data: files, isLoading } = useLiveQuery(
+    (q) => q.from({ filesCollection }),
+    [projectId]
+  )
+
+  // Drop tabs of files deleted elsewhere. The routed file stays so a bad
+  // link still shows why nothing opened.
+  useEffect(() => {
+    if (isLoading) return
+    updateWorkspace((state) =>
+      pruneWorkspace(
+        state,
+        (id) => id === fileId || files.some((file) => file.id === id)
+      )
+    )
+  }, [files, isLoading, fileId, updateWorkspace])
+
+  // Applies a change and follows the focused tab with the URL
+  const applyChange = (change: (state: WorkspaceState) => WorkspaceState) => {
+    const next = change(workspace)
+    if (next === workspace) return
+    updateWorkspace(change)
+
+    const activeFileId = getActiveFileId(next)
+    if (activeFileId === null) {
+      navigate({
+        to: "/project/$projectId",
+        params: { projectId: projectId.toString() },
+      })
+    } else if (activeFileId !== fileId) {
+      navigate({
+        to: "/project/$projectId/file/$fileId",
+        params: {
+          projectId: projectId.toString(),
+          fileId: activeFileId.toString(),
+        },
+      })
+    }
+  }
+
+  const handleStatusChange = useCallback(
+    (changedFileId: number, status: SaveStatus) =>
+      setStatuses((previous) =>
+        previous[changedFileId] === status
+          ? previous
+          : { ...previous, [changedFileId]: status }
+      ),
+    []
+  )
+
+  // Only files shown in a group are mounted; hidden tabs were saved when
+  // their editor closed
+  const isDirty = (id: number) =>
+    workspace.groups.some((group) => group.activeFileId === id) &&
+    statuses[id] !== undefined &&
+    statuses[id] !== "saved"
+
+  return (
+    <ResizablePanelGroup
+      direction="horizontal"
+      autoSaveId={layoutKey}
+      className="min-h-0 flex-1 rounded border bg-white"
+    >
+      {workspace.groups.map((group, index) => (
+        <Fragment key={group.id}>
+          {index > 0 && <ResizableHandle withHandle />}
+          <ResizablePanel id={group.id} order={index} minSize={15}>
+            <EditorGroupView
+              group={group}
+              isActive={group.id === workspace.activeGroupId}
+              canSplit={workspace.groups.length < MAX_EDITOR_GROUPS}
+              files={files}
+              isDirty={isDirty}
+              onChange={applyChange}
+              renderPane={(paneFileId) => (
+                <FilePane
+                  key={paneFileId}
+                  projectId={projectId}
+                  fileId={paneFileId}
+                  user={user}
+                  onStatusChange={handleStatusChange}
+                  line={paneFileId === fileId ? line : undefined}
+                />
+              )}
+            />
+          </ResizablePanel>
+        </Fragment>
+      ))}
+    </ResizablePanelGroup>
+  )
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react"
+import { EditorState } from "@codemirror/state"
+import { EditorView, lineNumbers } from "@codemirror/view"
+import { MergeView, unifiedMergeView } from "@codemirror/merge"
+import { editorTheme } from "@/components/file-editor"
+import { cn } from "@/lib/utils"
+
+export type DiffLayout = "split" | "inline"
+
+interface FileDiffProps {
+  /** Older contents, shown on the left or as deletions */
+  original: string
+  /** Newer contents, shown on the right or as insertions */
+  modified: string
+  layout: DiffLayout
+  className?: string
+}
+
+const readOnlyExtensions = [
+  lineNumbers(),
+  EditorState.readOnly.of(true),
+  EditorView.editable.of(false),
+  editorTheme,
+]
+
+// Keep a few lines of context around each change and fold the rest
+const collapseUnchanged = { margin: 3, minSize: 6 }
+
+/**
+ * Read-only diff between two versions of a file. Changed lines are marked
+ * in the gutter and the changed words within them are highlighted.
+ */
+export function FileDiff({
+  original,
+  modified,
+  layout,
+  className,
+}: FileDiffProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const parent = containerRef.current
+    if (!parent) return
+
+    if (layout === "split") {
+      const view = new MergeView({
+        parent,
+        a: { doc: original, extensions: readOnlyExtensions },
+        b: { doc: modified, extensions: readOnlyExtensions },
+        highlightChanges: true,
+        gutter: true,
+        collapseUnchanged,
+      })
+      return () => view.destroy()
+    }
+
+    const view = new EditorView({
+      parent,
+      state: EditorState.create({
+        doc: modified,
+        extensions: [
+          ...readOnlyExtensions,
+          unifiedMergeView({
+            original,
+            highlightChanges: true,
+            gutter: true,
+            mergeControls: false,
+            collapseUnchanged,
+          }),
+        ],
+      }),
+    })
+    return () => view.destroy()
+  }, [original, modified, layout])
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("overflow-auto rounded border bg-white", className)}
+    />
+  )
+}
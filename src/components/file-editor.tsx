@@ -0,0 +1,181 @@
+import { useEffect, useRef } from "react"
+import { Compartment, EditorState } from "@codemirror/state"
+import {
+  EditorView,
+  drawSelection,
+  highlightActiveLine,
+  keymap,
+  lineNumbers,
+} from "@codemirror/view"
+import { defaultKeymap, indentWithTab } from "@codemirror/commands"
+import {
+  bracketMatching,
+  defaultHighlightStyle,
+  indentOnInput,
+  syntaxHighlighting,
+  type LanguageDescription,
+} from "@codemirror/language"
+import { UndoManager, type EphemeralStore, type LoroDoc } from "loro-crdt"
+import { LoroExtensions, type UserState } from "loro-codemirror"
+import { getFileText, getFileTextContainer } from "@/lib/loro"
+import { PRESENCE_COLORS } from "@/lib/presence"
+import { cn } from "@/lib/utils"
+
+interface FileEditorProps {
+  doc: LoroDoc
+  /** Shares cursors and selections with other viewers of the file */
+  presence?: {
+    user: UserState | undefined
+    ephemeral: EphemeralStore
+  }
+  /** Shows the document without allowing edits, e.g. for a past version */
+  readOnly?: boolean
+  /** 1-based line to move the cursor to and scroll into view */
+  line?: number
+  /** Language to highlight and indent the text as; none for plain text */
+  language?: LanguageDescription | null
+  className?: string
+}
+
+export const editorTheme = EditorView.theme({
+  "&": { height: "100%", fontSize: "0.875rem" },
+  ".cm-scroller": { fontFamily: "var(--font-mono, ui-monospace, monospace)" },
+  "&.cm-focused": { outline: "none" },
+})
+
+// Remote cursor, label and selection colors for each presence color
+const presenceTheme = EditorView.theme(
+  Object.fromEntries(
+    PRESENCE_COLORS.flatMap((color, index) => [
+      [`.loro-cursor.presence-color-${index}`, { backgroundColor: color }],
+      [
+        `.loro-cursor.presence-color-${index}::before`,
+        { backgroundColor: color, color: "white", opacity: "1" },
+      ],
+      [
+        `.loro-selection.presence-color-${index}`,
+        { backgroundColor: `${color}33` },
+      ],
+    ])
+  )
+)
+
+/**
+ * Moves the cursor to the start of a line and scrolls it into view
+ * @returns false if the document doesn't have that many lines yet
+ */
+function revealLine(view: EditorView, line: number): boolean {
+  if (line > view.state.doc.lines) return false
+  const { from } = view.state.doc.line(Math.max(line, 1))
+  view.dispatch({
+    selection: { anchor: from },
+    effects: EditorView.scrollIntoView(from, { y: "center" }),
+  })
+  return true
+}
+
+/**
+ * Code editor bound to a file's Loro document. Local edits are written to
+ * the document's text container and remote imports are reflected in the
+ * editor as they happen. With presence, the cursors and selections of
+ * other viewers are drawn with their names.
+ */
+export function FileEditor({
+  doc,
+  presence,
+  readOnly = false,
+  line,
+  language = null,
+  className,
+}: FileEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const viewRef = useRef<EditorView | null>(null)
+  // Holds the language support, so it can change without a new editor
+  const languageCompartment = useRef(new Compartment()).current
+  // Line waiting to be revealed until the document has loaded that far
+  const pendingLineRef = useRef<number | null>(null)
+  const user = presence?.user
+  const ephemeral = presence?.ephemeral
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const undoManager = new UndoManager(doc, {})
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: getFileText(doc),
+        extensions: [
+          lineNumbers(),
+          drawSelection(),
+          highlightActiveLine(),
+          bracketMatching(),
+          indentOnInput(),
+          syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+          languageCompartment.of(language?.support ?? []),
+          // Includes Mod-/ to toggle comments in the syntax of the language
+          keymap.of([...defaultKeymap, indentWithTab]),
+          LoroExtensions(
+            doc,
+            user && ephemeral ? { user, ephemeral } : undefined,
+            undoManager,
+            getFileTextContainer
+          ),
+          EditorState.readOnly.of(readOnly),
+          EditorView.editable.of(!readOnly),
+          editorTheme,
+          presenceTheme,
+          EditorView.updateListener.of((update) => {
+            const pendingLine = pendingLineRef.current
+            if (
+              update.docChanged &&
+              pendingLine !== null &&
+              revealLine(update.view, pendingLine)
+            ) {
+              pendingLineRef.current = null
+            }
+          }),
+        ],
+      }),
+    })
+    viewRef.current = view
+
+    return () => {
+      viewRef.current = null
+      view.destroy()
+      undoManager.free()
+    }
+  }, [doc, ephemeral, user, readOnly])
+
+  // Languages are loaded on first use; switch to one once it is available
+  useEffect(() => {
+    const view = viewRef.current
+    if (!view) return
+    let cancelled = false
+    const loaded = language ? (language.support ?? language.load()) : []
+    Promise.resolve(loaded).then((support) => {
+      if (cancelled) return
+      view.dispatch({ effects: languageCompartment.reconfigure(support) })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [language, languageCompartment, doc, ephemeral, user, readOnly])
+
+  useEffect(() => {
+    const view = viewRef.current
+    if (!view || line === undefined) return
+    pendingLineRef.current = revealLine(view, line) ? null : line
+    view.focus()
+  }, [line, doc])
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "h-full overflow-hidden rounded border bg-white",
+        className
+      )}
+    />
+  )
+}
@@ -0,0 +1,935 @@
+import { useEffect, useRef, useState, type DragEvent } from "react"
+import { useNavigate, useParams } from "@tanstack/react-router"
+import { useLiveQuery } from "@tanstack/react-db"
+import { authClient } from "@/lib/auth-client"
+import {
+  duplicateProjectFolder,
+  getProjectCollections,
+  uploadAsset,
+} from "@/lib/collections"
+import { decodeText } from "@/lib/archive"
+import { getAssetUrl } from "@/lib/assets"
+import {
+  TREE_ITEM_MIME,
+  describeFolder,
+  flattenTree,
+  getCopyName,
+  getFolderChain,
+  getMoveError,
+  getMutationErrorMessage,
+  getTreeItemKey,
+  hasNameConflict,
+  moveTreeItem,
+  type TreeItemRef,
+  type TreeRow,
+} from "@/lib/file-tree"
+import { createFileDoc, exportFileSnapshot, readFileContent } from "@/lib/loro"
+import { useExpandedFolders } from "@/hooks/use-expanded-folders"
+import { useProjectViewers } from "@/hooks/use-presence"
+import { useProjectRole } from "@/hooks/use-project-role"
+import { hasProjectRole } from "@/lib/project-roles"
+import { PresenceAvatars } from "@/components/presence-avatars"
+import { useRegisterCommands } from "@/components/command-palette"
+import { Button } from "@/components/ui/button"
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu"
+import { useSidebar } from "@/components/ui/sidebar"
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Download,
+  Edit,
+  File as FileIcon,
+  FilePlus,
+  FileText,
+  Folder as FolderIcon,
+  FolderOpen,
+  FolderPlus,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface FileExplorerProps {
+  projectId: number
+}
+
+/** Inline name input shown while creating or renaming an item */
+type EditState =
+  | { mode: "create"; type: TreeItemRef["type"]; parentFolderId: number | null }
+  | { mode: "rename"; item: TreeItemRef }
+
+// Left padding of a row at a nesting level, in pixels
+const indent = (level: number) => level * 12 + 4
+
+// Uploaded files up to this size that are valid UTF-8 become editable text
+// files; anything else is stored as an asset
+const MAX_TEXT_UPLOAD_SIZE = 1024 * 1024
+
+interface NameInputProps {
+  initialValue: string
+  level: number
+  icon: React.ReactNode
+  onSubmit: (name: string) => void
+  onCancel: () => void
+}
+
+function NameInput({
+  initialValue,
+  level,
+  icon,
+  onSubmit,
+  onCancel,
+}: NameInputProps) {
+  const [value, setValue] = useState(initialValue)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const input = inputRef.current
+    if (!input) return
+    input.focus()
+    // Select the name without its extension, like most editors do
+    const dot = initialValue.lastIndexOf(".")
+    input.setSelectionRange(0, dot > 0 ? dot : initialValue.length)
+  }, [initialValue])
+
+  const submit = () => (value.trim() ? onSubmit(value.trim()) : onCancel())
+
+  return (
+    <div
+      className="flex items-center gap-1.5 py-0.5 pr-2"
+      style={{ paddingLeft: `${indent(level) + 16}px` }}
+    >
+      {icon}
+      <input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          e.stopPropagation()
+          if (e.key === "Enter") submit()
+          if (e.key === "Escape") onCancel()
+        }}
+        onBlur={submit}
+        className="min-w-0 flex-1 rounded-sm border border-blue-400 bg-background px-1 text-sm outline-none"
+      />
+    </div>
+  )
+}
+
+/**
+ * VS Code style explorer showing the folders of a project with their files
+ * inline. Items can be created, renamed, duplicated and deleted from their
+ * context menu, moved by drag and drop, and navigated with the keyboard.
+ * Files uploaded or dropped in from the desktop become text files or assets.
+ */
+export function FileExplorer({ projectId }: FileExplorerProps) {
+  const navigate = useNavigate()
+  const { fileId: activeFileId } = useParams({ strict: false })
+  const { data: session } = authClient.useSession()
+  const { expanded, setFolderExpanded } = useExpandedFolders(
+    projectId,
+    session?.user.id
+  )
+  const [focusedKey, setFocusedKey] = useState<string | null>(null)
+  const [editing, setEditing] = useState<EditState | null>(null)
+  const [dropTarget, setDropTarget] = useState<number | "root" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [upload, setUpload] = useState<{
+    name: string
+    fraction: number
+  } | null>(null)
+  const [uploadFolderId, setUploadFolderId] = useState<number | null>(null)
+  const treeRef = useRef<HTMLDivElement>(null)
+  const uploadInputRef = useRef<HTMLInputElement>(null)
+  const { isMobile, setOpen: setSidebarOpen, setOpenMobile } = useSidebar()
+  const { foldersCollection, filesCollection, fileUpdatesCollection } =
+    getProjectCollections(projectId)
+
+  const { data: folders } = useLiveQuery(
+    (q) => q.from({ foldersCollection }),
+    [projectId]
+  )
+
+  const { data: files } = useLiveQuery(
+    (q) => q.from({ filesCollection }),
+    [projectId]
+  )
+
+  const { data: fileUpdates } = useLiveQuery(
+    (q) =>
+      q
+        .from({ fileUpdatesCollection })
+        .orderBy(({ fileUpdatesCollection }) => fileUpdatesCollection.seq),
+    [projectId]
+  )
+
+  const viewers = useProjectViewers(projectId, session?.user.id)
+  // Viewers and commenters can browse and open files but not change them
+  const canEdit = hasProjectRole(
+    useProjectRole(projectId, session?.user.id),
+    "editor"
+  )
+  const getFileViewers = (fileId: number) =>
+    viewers
+      .filter((viewer) => viewer.fileIds.includes(fileId))
+      .map((viewer) => viewer.userId)
+
+  const rows = flattenTree(folders, files, expanded)
+  const assetIds = new Set(
+    files.filter((file) => file.kind === "asset").map((file) => file.id)
+  )
+  const focusedIndex = rows.findIndex((row) => row.key === focusedKey)
+
+  // Keep the focused row visible while moving through the tree
+  useEffect(() => {
+    if (!focusedKey) return
+    treeRef.current
+      ?.querySelector(`[data-key="${focusedKey}"]`)
+      ?.scrollIntoView({ block: "nearest" })
+  }, [focusedKey])
+
+  // Reads the current text of a file, including updates not yet compacted
+  const readContent = (fileId: number) => {
+    const file = files.find((f) => f.id === fileId)
+    if (!file) return ""
+    return readFileContent(
+      file.loro_snapshot,
+      fileUpdates
+        .filter((update) => update.file_id === fileId)
+        .map((update) => update.loro_update)
+    )
+  }
+
+  const reportFailure = (promise: Promise<unknown> | undefined) =>
+    promise?.catch((error) => setError(getMutationErrorMessage(error)))
+
+  const openFile = (fileId: number) =>
+    navigate({
+      to: "/project/$projectId/file/$fileId",
+      params: {
+        projectId: projectId.toString(),
+        fileId: fileId.toString(),
+      },
+    })
+
+  const startCreate = (
+    type: TreeItemRef["type"],
+    parentFolderId: number | null
+  ) => {
+    if (parentFolderId !== null) setFolderExpanded(parentFolderId, true)
+    setEditing({ mode: "create", type, parentFolderId })
+  }
+
+  const insertTextFile = (
+    id: number,
+    folderId: number | null,
+    name: string,
+    content: string,
+    language: string | null = null
+  ) =>
+    filesCollection.insert({
+      id,
+      project_id: projectId,
+      folder_id: folderId,
+      name,
+      loro_snapshot: new Uint8Array(exportFileSnapshot(createFileDoc(content))),
+      language,
+      kind: "text",
+      mime_type: null,
+      size: null,
+      blob_hash: null,
+      deleted_at: null,
+      deleted_by: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    }).isPersisted.promise
+
+  const createItem = (
+    type: TreeItemRef["type"],
+    parentFolderId: number | null,
+    name: string
+  ) => {
+    setEditing(null)
+    if (hasNameConflict(type, name, parentFolderId, folders, files)) {
+      setError(
+        `A ${type} named "${name}" already exists in ${describeFolder(parentFolderId, folders)}`
+      )
+      return
+    }
+    setError(null)
+
+    const id = Math.floor(Math.random() * 100000)
+    if (type === "folder") {
+      reportFailure(
+        foldersCollection.insert({
+          id,
+          project_id: projectId,
+          parent_folder_id: parentFolderId,
+          name,
+          deleted_at: null,
+          deleted_by: null,
+          created_at: new Date(),
+          updated_at: new Date(),
+        }).isPersisted.promise
+      )
+    } else {
+      reportFailure(insertTextFile(id, parentFolderId, name, ""))
+    }
+    setFocusedKey(getTreeItemKey({ type, id }))
+  }
+
+  const renameItem = (item: TreeItemRef, name: string) => {
+    setEditing(null)
+    const parentFolderId =
+      item.type === "folder"
+        ? (folders.find((f) => f.id === item.id)?.parent_folder_id ?? null)
+        : (files.find((f) => f.id === item.id)?.folder_id ?? null)
+    if (
+      hasNameConflict(item.type, name, parentFolderId, folders, files, item.id)
+    ) {
+      setError(
+        `A ${item.type} named "${name}" already exists in ${describeFolder(parentFolderId, folders)}`
+      )
+      return
+    }
+    setError(null)
+
+    const transaction =
+      item.type === "folder"
+        ? foldersCollection.update(item.id, (draft) => {
+            draft.name = name
+            draft.updated_at = new Date()
+          })
+        : filesCollection.update(item.id, (draft) => {
+            draft.name = name
+            draft.updated_at = new Date()
+          })
+    reportFailure(transaction.isPersisted.promise)
+  }
+
+  const duplicateFile = (fileId: number) => {
+    const file = files.find((f) => f.id === fileId)
+    if (!file || file.kind === "asset") return
+    const name = getCopyName(file.name, (candidate) =>
+      hasNameConflict("file", candidate, file.folder_id, folders, files)
+    )
+    const id = Math.floor(Math.random() * 100000)
+    reportFailure(
+      insertTextFile(
+        id,
+        file.folder_id,
+        name,
+        readContent(file.id),
+        file.language
+      )
+    )
+    setFocusedKey(getTreeItemKey({ type: "file", id }))
+  }
+
+  // Copies a folder with everything in it on the server, which assigns the
+  // ids the copies of its subfolders and files are created under
+  const duplicateFolder = (folderId: number) => {
+    const folder = folders.find((f) => f.id === folderId)
+    if (!folder) return
+    const name = getCopyName(folder.name, (candidate) =>
+      hasNameConflict(
+        "folder",
+        candidate,
+        folder.parent_folder_id,
+        folders,
+        files
+      )
+    )
+    setError(null)
+    reportFailure(
+      duplicateProjectFolder(projectId, folder.id, name).then(({ id }) =>
+        setFocusedKey(getTreeItemKey({ type: "folder", id }))
+      )
+    )
+  }
+
+  const downloadFile = (fileId: number) => {
+    const file = files.find((f) => f.id === fileId)
+    if (!file) return
+    // Assets are downloaded from the server, text from the local document
+    const url =
+      file.kind === "asset"
+        ? getAssetUrl(file.id, true)
+        : URL.createObjectURL(
+            new Blob([readContent(file.id)], { type: "text/plain" })
+          )
+    const a = document.createElement("a")
+    a.href = url
+    a.download = file.name
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    if (file.kind !== "asset") URL.revokeObjectURL(url)
+  }
+
+  const startUpload = (folderId: number | null) => {
+    setUploadFolderId(folderId)
+    uploadInputRef.current?.click()
+  }
+
+  // Creates a file for each uploaded one, one at a time: text files become
+  // editable documents and anything else is uploaded as an asset
+  const uploadFiles = async (selected: File[], folderId: number | null) => {
+    const taken = selected.find((file) =>
+      hasNameConflict("file", file.name, folderId, folders, files)
+    )
+    if (taken) {
+      setError(
+        `A file named "${taken.name}" already exists in ${describeFolder(folderId, folders)}`
+      )
+      return
+    }
+    setError(null)
+    if (folderId !== null) setFolderExpanded(folderId, true)
+
+    try {
+      for (const file of selected) {
+        setUpload({ name: file.name, fraction: 0 })
+        const text =
+          file.size <= MAX_TEXT_UPLOAD_SIZE
+            ? decodeText(new Uint8Array(await file.arrayBuffer()))
+            : null
+        if (text !== null) {
+          await insertTextFile(
+            Math.floor(Math.random() * 100000),
+            folderId,
+            file.name,
+            text
+          )
+        } else {
+          await uploadAsset(projectId, folderId, file, (fraction) =>
+            setUpload({ name: file.name, fraction })
+          )
+        }
+      }
+    } catch (error) {
+      setError(getMutationErrorMessage(error))
+    } finally {
+      setUpload(null)
+    }
+  }
+
+  const deleteItem = (item: TreeItemRef) => {
+    const message =
+      item.type === "folder"
+        ? "Move this folder and everything in it to the trash?"
+        : "Move this file to the trash?"
+    if (!confirm(message)) return
+
+    const collection =
+      item.type === "folder" ? foldersCollection : filesCollection
+    reportFailure(collection.delete(item.id).isPersisted.promise)
+  }
+
+  // Expands the folders containing an item and makes sure the explorer is
+  // on screen, for actions started from the command palette
+  const revealItem = (item: TreeItemRef) => {
+    const parentFolderId =
+      item.type === "folder"
+        ? (folders.find((f) => f.id === item.id)?.parent_folder_id ?? null)
+        : (files.find((f) => f.id === item.id)?.folder_id ?? null)
+    for (const folder of getFolderChain(folders, parentFolderId)) {
+      setFolderExpanded(folder.id, true)
+    }
+    setFocusedKey(getTreeItemKey(item))
+    if (isMobile) {
+      setOpenMobile(true)
+    } else {
+      setSidebarOpen(true)
+    }
+  }
+
+  // Palette commands act on the focused row, or else on the open file
+  const activeFile = files.find((f) => f.id.toString() === activeFileId)
+  const commandTarget: TreeItemRef | null =
+    rows[focusedIndex] ??
+    (activeFile ? { type: "file", id: activeFile.id } : null)
+  const commandFolderId =
+    commandTarget?.type === "folder"
+      ? commandTarget.id
+      : (files.find((f) => f.id === commandTarget?.id)?.folder_id ?? null)
+  const commandTargetName =
+    commandTarget?.type === "folder"
+      ? folders.find((f) => f.id === commandTarget.id)?.name
+      : files.find((f) => f.id === commandTarget?.id)?.name
+
+  useRegisterCommands([
+    {
+      id: "explorer:new-file",
+      title: "New File",
+      group: "Explorer",
+      icon: FilePlus,
+      disabled: !canEdit,
+      run: () => {
+        if (commandTarget) revealItem(commandTarget)
+        startCreate("file", commandFolderId)
+      },
+    },
+    {
+      id: "explorer:new-folder",
+      title: "New Folder",
+      group: "Explorer",
+      icon: FolderPlus,
+      disabled: !canEdit,
+      run: () => {
+        if (commandTarget) revealItem(commandTarget)
+        startCreate("folder", commandFolderId)
+      },
+    },
+    {
+      id: "explorer:upload",
+      title: "Upload Files...",
+      group: "Explorer",
+      icon: Upload,
+      disabled: !canEdit || !!upload,
+      run: () => startUpload(commandFolderId),
+    },
+    {
+      id: "explorer:rename",
+      title: "Rename",
+      group: "Explorer",
+      description: commandTargetName,
+      icon: Edit,
+      shortcut: "F2",
+      disabled: !canEdit || !commandTarget,
+      run: () => {
+        if (!commandTarget) return
+        revealItem(commandTarget)
+        setEditing({ mode: "rename", item: commandTarget })
+      },
+    },
+  ])
+
+  const activateRow = (row: TreeRow) => {
+    if (row.type === "folder") {
+      setFolderExpanded(row.id, !expanded.has(row.id))
+    } else {
+      openFile(row.id)
+    }
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (editing) return
+    const row = rows[focusedIndex]
+    const focusRow = (index: number) => {
+      const target = rows[Math.max(0, Math.min(rows.length - 1, index))]
+      if (target) setFocusedKey(target.key)
+    }
+
+    switch (event.key) {
+      case "ArrowDown":
+        focusRow(focusedIndex + 1)
+        break
+      case "ArrowUp":
+        focusRow(focusedIndex === -1 ? rows.length - 1 : focusedIndex - 1)
+        break
+      case "Home":
+        focusRow(0)
+        break
+      case "End":
+        focusRow(rows.length - 1)
+        break
+      case "ArrowRight":
+        if (row?.type !== "folder") return
+        if (!expanded.has(row.id)) {
+          setFolderExpanded(row.id, true)
+        } else if (row.hasChildren) {
+          focusRow(focusedIndex + 1)
+        }
+        break
+      case "ArrowLeft":
+        if (!row) return
+        if (row.type === "folder" && expanded.has(row.id)) {
+          setFolderExpanded(row.id, false)
+        } else if (row.parentFolderId !== null) {
+          setFocusedKey(
+            getTreeItemKey({ type: "folder", id: row.parentFolderId })
+          )
+        }
+        break
+      case "Enter":
+        if (!row) return
+        activateRow(row)
+        break
+      case "F2":
+        if (!row || !canEdit) return
+        setEditing({ mode: "rename", item: row })
+        break
+      case "Delete":
+        if (!row || !canEdit) return
+        deleteItem(row)
+        break
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  const handleDragStart = (event: DragEvent, item: TreeItemRef) => {
+    event.dataTransfer.setData(TREE_ITEM_MIME, JSON.stringify(item))
+    event.dataTransfer.effectAllowed = "move"
+  }
+
+  const handleDragOver = (event: DragEvent, folderId: number | null) => {
+    const types = event.dataTransfer.types
+    const isUpload = types.includes("Files")
+    if (!canEdit || (!types.includes(TREE_ITEM_MIME) && !isUpload)) return
+    event.preventDefault()
+    event.stopPropagation()
+    event.dataTransfer.dropEffect = isUpload ? "copy" : "move"
+    setDropTarget(folderId ?? "root")
+  }
+
+  const handleDrop = (event: DragEvent, folderId: number | null) => {
+    const data = event.dataTransfer.getData(TREE_ITEM_MIME)
+    setDropTarget(null)
+    if (!canEdit) return
+    // Files dragged in from the desktop are uploaded into the folder
+    if (!data && event.dataTransfer.files.length > 0) {
+      event.preventDefault()
+      event.stopPropagation()
+      if (!upload) uploadFiles(Array.from(event.dataTransfer.files), folderId)
+      return
+    }
+    if (!data) return
+    event.preventDefault()
+    event.stopPropagation()
+
+    const item: TreeItemRef = JSON.parse(data)
+    const moveError = getMoveError(item, folderId, folders, files)
+    if (moveError) {
+      setError(moveError)
+      return
+    }
+    setError(null)
+    if (folderId !== null) setFolderExpanded(folderId, true)
+    // The optimistic move is rolled back if the server rejects it
+    reportFailure(moveTreeItem(projectId, item, folderId)?.isPersisted.promise)
+  }
+
+  const renderCreateInput = (level: number) =>
+    editing?.mode === "create" && (
+      <NameInput
+        initialValue=""
+        level={level}
+        icon={
+          editing.type === "folder" ? (
+            <FolderIcon className="size-4 shrink-0 text-blue-600" />
+          ) : (
+            <FileText className="size-4 shrink-0 text-green-600" />
+          )
+        }
+        onSubmit={(name) =>
+          createItem(editing.type, editing.parentFolderId, name)
+        }
+        onCancel={() => setEditing(null)}
+      />
+    )
+
+  const renderRow = (row: TreeRow) => {
+    const isExpanded = row.type === "folder" && expanded.has(row.id)
+    const isActive = row.type === "file" && activeFileId === row.id.toString()
+    const isRenaming =
+      editing?.mode === "rename" &&
+      editing.item.type === row.type &&
+      editing.item.id === row.id
+    // Dropping on a file moves into the folder that contains it
+    const dropFolderId = row.type === "folder" ? row.id : row.parentFolderId
+
+    if (isRenaming) {
+      return (
+        <NameInput
+          key={row.key}
+          initialValue={row.name}
+          level={row.level}
+          icon={
+            row.type === "folder" ? (
+              <FolderIcon className="size-4 shrink-0 text-blue-600" />
+            ) : (
+              <FileText className="size-4 shrink-0 text-green-600" />
+            )
+          }
+          onSubmit={(name) =>
+            name === row.name ? setEditing(null) : renameItem(row, name)
+          }
+          onCancel={() => setEditing(null)}
+        />
+      )
+    }
+
+    return (
+      <ContextMenu key={row.key}>
+        <ContextMenuTrigger asChild>
+          <div
+            role="treeitem"
+            aria-level={row.level + 1}
+            aria-expanded={row.type === "folder" ? isExpanded : undefined}
+            aria-selected={focusedKey === row.key}
+            data-key={row.key}
+            draggable
+            onDragStart={(e) => handleDragStart(e, row)}
+            onDragOver={(e) => handleDragOver(e, dropFolderId)}
+            onDrop={(e) => handleDrop(e, dropFolderId)}
+            onClick={() => {
+              setFocusedKey(row.key)
+              activateRow(row)
+            }}
+            onContextMenu={() => setFocusedKey(row.key)}
+            className={cn(
+              "flex cursor-pointer items-center gap-1.5 rounded-sm py-0.5 pr-2 text-sm select-none hover:bg-sidebar-accent",
+              isActive && "bg-sidebar-accent font-medium",
+              focusedKey === row.key && "ring-1 ring-inset ring-blue-400",
+              row.type === "folder" &&
+                dropTarget === row.id &&
+                "bg-blue-100 ring-1 ring-inset ring-blue-300"
+            )}
+            style={{ paddingLeft: `${indent(row.level)}px` }}
+          >
+            {row.type === "folder" ? (
+              <>
+                {isExpanded ? (
+                  <ChevronDown className="size-4 shrink-0 text-gray-500" />
+                ) : (
+                  <ChevronRight className="size-4 shrink-0 text-gray-500" />
+                )}
+                {isExpanded ? (
+                  <FolderOpen className="size-4 shrink-0 text-blue-600" />
+                ) : (
+                  <FolderIcon className="size-4 shrink-0 text-blue-600" />
+                )}
+              </>
+            ) : assetIds.has(row.id) ? (
+              <FileIcon className="ml-4 size-4 shrink-0 text-gray-500" />
+            ) : (
+              <FileText className="ml-4 size-4 shrink-0 text-green-600" />
+            )}
+            <span className="min-w-0 flex-1 truncate">{row.name}</span>
+            {row.type === "file" && (
+              <PresenceAvatars
+                userIds={getFileViewers(row.id)}
+                max={2}
+                size="sm"
+              />
+            )}
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-52">
+          {row.type === "folder" ? (
+            <>
+              <ContextMenuItem
+                disabled={!canEdit}
+                onSelect={() => startCreate("file", row.id)}
+              >
+                <FilePlus />
+                New File
+              </ContextMenuItem>
+              <ContextMenuItem
+                disabled={!canEdit}
+                onSelect={() => startCreate("folder", row.id)}
+              >
+                <FolderPlus />
+                New Folder
+              </ContextMenuItem>
+              <ContextMenuItem
+                disabled={!canEdit || !!upload}
+                onSelect={() => startUpload(row.id)}
+              >
+                <Upload />
+                Upload Files...
+              </ContextMenuItem>
+              <ContextMenuItem
+                disabled={!canEdit}
+                onSelect={() => duplicateFolder(row.id)}
+              >
+                <Copy />
+                Duplicate
+              </ContextMenuItem>
+            </>
+          ) : (
+            <>
+              <ContextMenuItem onSelect={() => openFile(row.id)}>
+                <FileText />
+                Open
+              </ContextMenuItem>
+              <ContextMenuItem onSelect={() => downloadFile(row.id)}>
+                <Download />
+                Download
+              </ContextMenuItem>
+              <ContextMenuItem
+                disabled={!canEdit || assetIds.has(row.id)}
+                onSelect={() => duplicateFile(row.id)}
+              >
+                <Copy />
+                Duplicate
+              </ContextMenuItem>
+            </>
+          )}
+          <ContextMenuSeparator />
+          <ContextMenuItem
+            disabled={!canEdit}
+            onSelect={() => setEditing({ mode: "rename", item: row })}
+          >
+            <Edit />
+            Rename
+            <ContextMenuShortcut>F2</ContextMenuShortcut>
+          </ContextMenuItem>
+          <ContextMenuItem
+            variant="destructive"
+            disabled={!canEdit}
+            onSelect={() => deleteItem(row)}
+          >
+            <Trash2 />
+            Delete
+            <ContextMenuShortcut>Del</ContextMenuShortcut>
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      {canEdit && (
+        <div className="flex items-center justify-end gap-0.5">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => startCreate("file", null)}
+            className="h-6 w-6 p-0"
+            title="New File"
+          >
+            <FilePlus className="size-3.5" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => startCreate("folder", null)}
+            className="h-6 w-6 p-0"
+            title="New Folder"
+          >
+            <FolderPlus className="size-3.5" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => startUpload(null)}
+            disabled={!!upload}
+            className="h-6 w-6 p-0"
+            title="Upload Files"
+          >
+            <Upload className="size-3.5" />
+          </Button>
+          <input
+            ref={uploadInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const selected = Array.from(e.target.files ?? [])
+              e.target.value = ""
+              if (selected.length > 0) uploadFiles(selected, uploadFolderId)
+            }}
+          />
+        </div>
+      )}
+
+      {upload && (
+        <div className="px-1 text-xs text-muted-foreground">
+          Uploading {upload.name}... {Math.round(upload.fraction * 100)}%
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-1 rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} title="Dismiss">
+            <X className="size-3" />
+          </button>
+        </div>
+      )}
+
+      <ContextMenu>
+        <ContextMenuTrigger asChild>
+          <div
+            ref={treeRef}
+            role="tree"
+            aria-label="Project files"
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onFocus={() => {
+              if (!focusedKey && rows.length > 0) setFocusedKey(rows[0].key)
+            }}
+            onDragOver={(e) => handleDragOver(e, null)}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setDropTarget(null)
+              }
+            }}
+            onDrop={(e) => handleDrop(e, null)}
+            className={cn(
+              "min-h-24 rounded-sm pb-4 outline-none",
+              dropTarget === "root" && "bg-blue-50 ring-1 ring-blue-300"
+            )}
+          >
+            {editing?.mode === "create" &&
+              editing.parentFolderId === null &&
+              renderCreateInput(0)}
+            {rows.map((row) => (
+              <div key={row.key}>
+                {renderRow(row)}
+                {editing?.mode === "create" &&
+                  row.type === "folder" &&
+                  editing.parentFolderId === row.id &&
+                  renderCreateInput(row.level + 1)}
+              </div>
+            ))}
+            {rows.length === 0 && !editing && (
+              <p className="px-2 py-4 text-center text-xs text-muted-foreground">
+                {canEdit
+                  ? "No files yet. Right-click to create one."
+                  : "No files yet."}
+              </p>
+            )}
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-52">
+          <ContextMenuItem
+            disabled={!canEdit}
+            onSelect={() => startCreate("file", null)}
+          >
+            <FilePlus />
+            New File
+          </ContextMenuItem>
+          <ContextMenuItem
+            disabled={!canEdit}
+            onSelect={() => startCreate("folder", null)}
+          >
+            <FolderPlus />
+            New Folder
+          </ContextMenuItem>
+          <ContextMenuItem
+            disabled={!canEdit || !!upload}
+            onSelect={() => startUpload(null)}
+          >
+            <Upload />
+            Upload Files...
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+import { useState } from "react"
+import { useLiveQuery, eq } from "@tanstack/react-db"
+import type { LoroDoc } from "loro-crdt"
+import { getProjectCollections, usersCollection } from "@/lib/collections"
+import { getMutationErrorMessage } from "@/lib/file-tree"
+import { exportFileSnapshot } from "@/lib/loro"
+import { type File, type FileVersion } from "@/db/schema"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Bookmark, Clock, GitCompare, History, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface FileHistoryProps {
+  file: File
+  /** Live document of the file, used to record checkpoints */
+  doc: LoroDoc
+  userId: string | undefined
+  /** Hides the checkpoint form for users who can't edit the file */
+  readOnly?: boolean
+  selectedVersionId: number | null
+  onSelectVersion: (version: FileVersion | null) => void
+  /** Version the selected one is being compared against, if any */
+  compareVersionId: number | null
+  onCompareVersion: (version: FileVersion | null) => void
+  onClose: () => void
+}
+
+/**
+ * Returns the label shown for a version in the history
+ */
+export function getVersionLabel(version: FileVersion): string {
+  return version.name ?? "Automatic save"
+}
+
+/**
+ * Side panel listing the saved versions of a file, newest first, with a
+ * form for recording a named checkpoint of the current contents. Any
+ * version can be opened read-only or picked as the base of a comparison.
+ */
+export function FileHistory({
+  file,
+  doc,
+  userId,
+  readOnly = false,
+  selectedVersionId,
+  onSelectVersion,
+  compareVersionId,
+  onCompareVersion,
+  onClose,
+}: FileHistoryProps) {
+  const [checkpointName, setCheckpointName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const { fileVersionsCollection } = getProjectCollections(file.project_id)
+
+  const { data: versions } = useLiveQuery(
+    (q) =>
+      q
+        .from({ fileVersionsCollection })
+        .where(({ fileVersionsCollection }) =>
+          eq(fileVersionsCollection.file_id, file.id)
+        )
+        .orderBy(
+          ({ fileVersionsCollection }) => fileVersionsCollection.created_at,
+          "desc"
+        ),
+    [file.project_id, file.id]
+  )
+
+  const { data: users } = useLiveQuery((q) =>
+    q.from({ users: usersCollection })
+  )
+
+  const lastCheckpoint = versions.find((version) => version.name !== null)
+
+  const getAuthorName = (authorId: string) =>
+    users.find((user) => user.id === authorId)?.name ?? "Unknown user"
+
+  const createCheckpoint = () => {
+    if (!checkpointName.trim() || !userId || readOnly) return
+
+    const name = checkpointName.trim()
+    setError(null)
+    setCheckpointName("")
+    fileVersionsCollection
+      .insert({
+        id: Math.floor(Math.random() * 100000),
+        file_id: file.id,
+        project_id: file.project_id,
+        name,
+        loro_snapshot: new Uint8Array(exportFileSnapshot(doc)),
+        author_id: userId,
+        created_at: new Date(),
+      })
+      .isPersisted.promise.catch((error) => {
+        // Give the name back so the checkpoint can be saved again
+        setCheckpointName(name)
+        setError(getMutationErrorMessage(error))
+      })
+  }
+
+  return (
+    <aside className="flex w-72 flex-col gap-3 rounded border bg-white p-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-semibold">
+          <History className="w-4 h-4" />
+          History
+        </h3>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onClose}
+          className="h-7 w-7 p-0"
+          title="Close history"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {!readOnly && (
+        <div className="flex gap-2">
+          <Input
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && createCheckpoint()}
+            placeholder="Checkpoint name..."
+            className="h-8 text-sm"
+          />
+          <Button
+            size="sm"
+            onClick={createCheckpoint}
+            disabled={!checkpointName.trim()}
+          >
+            Save
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!lastCheckpoint}
+        onClick={() => {
+          onSelectVersion(null)
+          onCompareVersion(lastCheckpoint ?? null)
+        }}
+      >
+        <GitCompare className="w-4 h-4" />
+        Changes since last checkpoint
+      </Button>
+
+      <ul className="flex-1 space-y-1 overflow-y-auto">
+        <li>
+          <button
+            type="button"
+            onClick={() => onSelectVersion(null)}
+            className={cn(
+              "w-full rounded px-2 py-1.5 text-left text-sm hover:bg-gray-100",
+              selectedVersionId === null && "bg-gray-100 font-medium"
+            )}
+          >
+            Current version
+          </button>
+        </li>
+        {versions.map((version) => (
+          <li key={version.id} className="group flex items-start gap-1">
+            <button
+              type="button"
+              onClick={() => onSelectVersion(version)}
+              className={cn(
+                "min-w-0 flex-1 rounded px-2 py-1.5 text-left hover:bg-gray-100",
+                selectedVersionId === version.id && "bg-gray-100"
+              )}
+            >
+              <div className="flex items-center gap-1.5 text-sm">
+                {version.name ? (
+                  <Bookmark className="w-3 h-3 text-blue-600" />
+                ) : (
+                  <Clock className="w-3 h-3 text-gray-400" />
+                )}
+                <span
+                  className={cn(
+                    "truncate",
+                    version.name ? "font-medium" : "text-gray-600"
+                  )}
+                >
+                  {getVersionLabel(version)}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {getAuthorName(version.author_id)} •{" "}
+                {version.created_at.toLocaleString()}
+              </div>
+            </button>
+            <Button
+              size="sm"
+              variant={compareVersionId === version.id ? "secondary" : "ghost"}
+              onClick={() =>
+                onCompareVersion(
+                  compareVersionId === version.id ? null : version
+                )
+              }
+              className={cn(
+                "mt-1 h-7 w-7 p-0",
+                compareVersionId !== version.id &&
+                  "invisible group-hover:visible"
+              )}
+              title="Compare with this version"
+            >
+              <GitCompare className="w-3 h-3" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {versions.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No versions yet. Versions are saved automatically while you edit.
+        </p>
+      )}
+    </aside>
+  )
+}
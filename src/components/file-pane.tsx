@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useState } from "react"
+import { useFileDoc, useFileText, type SaveStatus } from "@/hooks/use-file-doc"
+import { usePresence, useProjectViewers } from "@/hooks/use-presence"
+import { useProjectRole } from "@/hooks/use-project-role"
+import { hasProjectRole } from "@/lib/project-roles"
+import { getProjectCollections } from "@/lib/collections"
+import { getMutationErrorMessage } from "@/lib/file-tree"
+import {
+  PLAIN_TEXT,
+  detectLanguage,
+  editorLanguages,
+  getFileLanguage,
+} from "@/lib/languages"
+import { loadFileDoc, readFileContent, setFileText } from "@/lib/loro"
+import { type FileVersion } from "@/db/schema"
+import { AssetView } from "@/components/asset-view"
+import { getFileRenderer } from "@/components/file-renderers"
+import { FileEditor } from "@/components/file-editor"
+import { FileDiff, type DiffLayout } from "@/components/file-diff"
+import { FileHistory, getVersionLabel } from "@/components/file-history"
+import { PresenceAvatars } from "@/components/presence-avatars"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { History } from "lucide-react"
+
+const statusLabels: Record<SaveStatus, string> = {
+  saved: "All changes saved",
+  unsaved: "Unsaved changes",
+  saving: "Saving...",
+  error: "Could not save changes",
+}
+
+// Select value for detecting the language from the file name
+const AUTO_LANGUAGE = "auto"
+
+function LanguageSelect({
+  fileName,
+  value,
+  onChange,
+  disabled,
+}: {
+  fileName: string
+  value: string | null
+  onChange: (language: string | null) => void
+  disabled?: boolean
+}) {
+  const detected = detectLanguage(fileName)?.name ?? PLAIN_TEXT
+  return (
+    <Select
+      value={value ?? AUTO_LANGUAGE}
+      onValueChange={(language) =>
+        onChange(language === AUTO_LANGUAGE ? null : language)
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger size="sm" className="w-44" title="Language">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AUTO_LANGUAGE}>Auto ({detected})</SelectItem>
+        <SelectItem value={PLAIN_TEXT}>{PLAIN_TEXT}</SelectItem>
+        {editorLanguages.map((language) => (
+          <SelectItem key={language.name} value={language.name}>
+            {language.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/** How a file with a renderer is shown: as source, rendered, or both */
+type FileView = "source" | "rendered" | "split"
+
+interface FilePaneProps {
+  projectId: number
+  fileId: number
+  user: { id: string; name: string } | undefined
+  /** Called whenever the save status of the file changes */
+  onStatusChange?: (fileId: number, status: SaveStatus) => void
+  /** Line to reveal in the editor, e.g. a search match */
+  line?: number
+}
+
+/**
+ * Editor for a single file inside a workspace group, with its save status,
+ * viewers and version history
+ */
+export function FilePane({
+  projectId,
+  fileId,
+  user,
+  onStatusChange,
+  line,
+}: FilePaneProps) {
+  const { doc, file, status } = useFileDoc(projectId, fileId, user?.id)
+  const presence = usePresence({ projectId, fileId, user })
+  const viewers = useProjectViewers(projectId, user?.id)
+  const fileViewers = viewers.filter((viewer) =>
+    viewer.fileIds.includes(fileId)
+  )
+  const canEdit = hasProjectRole(useProjectRole(projectId, user?.id), "editor")
+
+  useEffect(() => {
+    onStatusChange?.(fileId, status)
+  }, [fileId, status, onStatusChange])
+
+  const [showHistory, setShowHistory] = useState(false)
+  const [selectedVersion, setSelectedVersion] = useState<FileVersion | null>(
+    null
+  )
+  const previewDoc = useMemo(
+    () => selectedVersion && loadFileDoc(selectedVersion.loro_snapshot),
+    [selectedVersion]
+  )
+
+  const { filesCollection } = getProjectCollections(projectId)
+  const [languageError, setLanguageError] = useState<string | null>(null)
+  const renderer = file && getFileRenderer(file)
+  const [chosenView, setChosenView] = useState<FileView | null>(null)
+  // Files open rendered, unless a line was asked for that only the editor
+  // can show
+  const view: FileView = !renderer
+    ? "source"
+    : (chosenView ??
+      (renderer.split ? "split" : line === undefined ? "rendered" : "source"))
+
+  const [compareVersion, setCompareVersion] = useState<FileVersion | null>(null)
+  const [diffLayout, setDiffLayout] = useState<DiffLayout>("split")
+  // Only follow live edits while they are shown in a comparison or rendered
+  const currentText = useFileText(
+    doc,
+    (!!compareVersion && !selectedVersion) || view !== "source"
+  )
+
+  // Always diff from the older side to the newer one; the working copy is
+  // newer than any version
+  const diffSides = (() => {
+    if (!compareVersion) return null
+    if (!selectedVersion) {
+      return { from: compareVersion, to: null }
+    }
+    return selectedVersion.created_at < compareVersion.created_at
+      ? { from: selectedVersion, to: compareVersion }
+      : { from: compareVersion, to: selectedVersion }
+  })()
+
+  const originalText = useMemo(
+    () => (diffSides ? readFileContent(diffSides.from.loro_snapshot) : ""),
+    [diffSides?.from]
+  )
+  const modifiedText = useMemo(
+    () => (diffSides?.to ? readFileContent(diffSides.to.loro_snapshot) : null),
+    [diffSides?.to]
+  )
+
+  const describeVersion = (version: FileVersion | null) =>
+    version
+      ? `${getVersionLabel(version)} (${version.created_at.toLocaleString()})`
+      : "Current version"
+
+  // Stored on the file, so everyone sees it in the chosen language
+  const setLanguage = (language: string | null) => {
+    setLanguageError(null)
+    filesCollection
+      .update(fileId, (draft) => {
+        draft.language = language
+        draft.updated_at = new Date()
+      })
+      .isPersisted.promise.catch((error) =>
+        setLanguageError(getMutationErrorMessage(error))
+      )
+  }
+
+  const closeHistory = () => {
+    setShowHistory(false)
+    setSelectedVersion(null)
+    setCompareVersion(null)
+  }
+
+  // Restoring writes the old text into the live document as a new edit, so
+  // the change merges with collaborators and stays in the history
+  const restoreVersion = (version: FileVersion) => {
+    setFileText(doc, readFileContent(version.loro_snapshot))
+    setSelectedVersion(null)
+  }
+
+  if (!file || file.project_id !== projectId) {
+    return <div className="p-6">File not found</div>
+  }
+
+  if (file.kind === "asset") {
+    return <AssetView file={file} />
+  }
+
+  const language = getFileLanguage(file)
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-2">
+      <div className="flex items-center justify-end gap-3">
+        {renderer && (
+          <div className="mr-auto flex">
+            <Button
+              size="sm"
+              variant={view === "source" ? "secondary" : "ghost"}
+              onClick={() => setChosenView("source")}
+            >
+              Source
+            </Button>
+            <Button
+              size="sm"
+              variant={view === "rendered" ? "secondary" : "ghost"}
+              onClick={() => setChosenView("rendered")}
+            >
+              {renderer.label}
+            </Button>
+            {renderer.split && (
+              <Button
+                size="sm"
+                variant={view === "split" ? "secondary" : "ghost"}
+                onClick={() => setChosenView("split")}
+              >
+                Split
+              </Button>
+            )}
+          </div>
+        )}
+        {languageError && (
+          <span className="text-xs text-red-600">{languageError}</span>
+        )}
+        <LanguageSelect
+          fileName={file.name}
+          value={file.language}
+          onChange={setLanguage}
+          disabled={!canEdit}
+        />
+        <PresenceAvatars userIds={fileViewers.map((viewer) => viewer.userId)} />
+        <span
+          className={`text-xs ${
+            status === "error" ? "text-red-600" : "text-gray-500"
+          }`}
+        >
+          {statusLabels[status]}
+        </span>
+        <Button
+          size="sm"
+          variant={showHistory ? "secondary" : "outline"}
+          onClick={() => (showHistory ? closeHistory() : setShowHistory(true))}
+        >
+          <History className="w-4 h-4" />
+          History
+        </Button>
+      </div>
+      <div className="flex min-h-0 flex-1 gap-3">
+        <div className="flex min-w-0 flex-1 flex-col gap-2">
+          {diffSides ? (
+            <>
+              <div className="flex items-center gap-3 rounded border border-blue-200 bg-blue-50 px-3 py-2 text-sm">
+                <span className="flex-1">
+                  Comparing <strong>{describeVersion(diffSides.from)}</strong>{" "}
+                  with <strong>{describeVersion(diffSides.to)}</strong>
+                </span>
+                <div className="flex">
+                  <Button
+                    size="sm"
+                    variant={diffLayout === "split" ? "secondary" : "ghost"}
+                    onClick={() => setDiffLayout("split")}
+                  >
+                    Split
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={diffLayout === "inline" ? "secondary" : "ghost"}
+                    onClick={() => setDiffLayout("inline")}
+                  >
+                    Inline
+                  </Button>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setCompareVersion(null)}
+                >
+                  Close comparison
+                </Button>
+              </div>
+              <FileDiff
+                original={originalText}
+                modified={modifiedText ?? currentText}
+                layout={diffLayout}
+                className="flex-1"
+              />
+            </>
+          ) : selectedVersion && previewDoc ? (
+            <>
+              <div className="flex items-center gap-3 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-sm">
+                <span className="flex-1">
+                  Viewing <strong>{getVersionLabel(selectedVersion)}</strong>{" "}
+                  from {selectedVersion.created_at.toLocaleString()}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setSelectedVersion(null)}
+                >
+                  Back to current
+                </Button>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    onClick={() => restoreVersion(selectedVersion)}
+                  >
+                    Restore this version
+                  </Button>
+                )}
+              </div>
+              <FileEditor
+                doc={previewDoc}
+                readOnly
+                language={language}
+                className="flex-1"
+              />
+            </>
+          ) : renderer && view === "rendered" ? (
+            <div className="min-h-0 flex-1">
+              <renderer.component file={file} text={currentText} />
+            </div>
+          ) : (
+            <div className="flex min-h-0 flex-1 gap-3">
+              <FileEditor
+                doc={doc}
+                presence={presence}
+                readOnly={!canEdit}
+                line={line}
+                language={language}
+                className="min-w-0 flex-1"
+              />
+              {renderer && view === "split" && (
+                <div className="min-w-0 flex-1">
+                  <renderer.component file={file} text={currentText} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        {showHistory && (
+          <FileHistory
+            file={file}
+            doc={doc}
+            userId={user?.id}
+            readOnly={!canEdit}
+            selectedVersionId={selectedVersion?.id ?? null}
+            onSelectVersion={setSelectedVersion}
+            compareVersionId={compareVersion?.id ?? null}
+            onCompareVersion={setCompareVersion}
+            onClose={closeHistory}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import { type ComponentType } from "react"
+import { type File } from "@/db/schema"
+import { CsvGrid } from "@/components/csv-grid"
+import { ImageViewer } from "@/components/image-viewer"
+import { JsonTree } from "@/components/json-tree"
+import { MarkdownPreview } from "@/components/markdown-preview"
+
+export interface FileRendererProps {
+  file: File
+  /** Current text of the file, kept up to date while it is edited; empty for assets */
+  text: string
+}
+
+/** Renders files of some types in place of, or next to, the source editor */
+export interface FileRenderer {
+  id: string
+  /** Name of the rendered view, e.g. "Table" */
+  label: string
+  /** Extensions of text files it renders, lowercase with the dot */
+  extensions: string[]
+  /** MIME types of assets it renders; "image/*" matches any image */
+  mimeTypes?: string[]
+  /** Whether it can be shown next to the editor, updating while typing */
+  split?: boolean
+  component: ComponentType<FileRendererProps>
+}
+
+const renderers: FileRenderer[] = []
+
+/**
+ * Adds a renderer. Renderers added later take precedence for the types
+ * they share with earlier ones.
+ * @returns A function removing the renderer again
+ */
+export function registerFileRenderer(renderer: FileRenderer) {
+  renderers.unshift(renderer)
+  return () => {
+    const index = renderers.indexOf(renderer)
+    if (index !== -1) renderers.splice(index, 1)
+  }
+}
+
+/**
+ * Finds the renderer for a file: by MIME type for assets and by extension
+ * for text files
+ * @returns The renderer, or undefined if the file only has its source view
+ */
+export function getFileRenderer(
+  file: Pick<File, "name" | "kind" | "mime_type">
+): FileRenderer | undefined {
+  if (file.kind === "asset") {
+    const mimeType = file.mime_type ?? ""
+    return renderers.find((renderer) =>
+      renderer.mimeTypes?.some((pattern) =>
+        pattern.endsWith("/*")
+          ? mimeType.startsWith(pattern.slice(0, -1))
+          : mimeType === pattern
+      )
+    )
+  }
+  const dot = file.name.lastIndexOf(".")
+  if (dot <= 0) return undefined
+  const extension = file.name.slice(dot).toLowerCase()
+  return renderers.find((renderer) => renderer.extensions.includes(extension))
+}
+
+registerFileRenderer({
+  id: "markdown",
+  label: "Preview",
+  extensions: [".md", ".markdown"],
+  split: true,
+  component: MarkdownPreview,
+})
+registerFileRenderer({
+  id: "image",
+  label: "Image",
+  extensions: [".svg"],
+  mimeTypes: ["image/*"],
+  component: ImageViewer,
+})
+registerFileRenderer({
+  id: "csv",
+  label: "Table",
+  extensions: [".csv", ".tsv"],
+  component: CsvGrid,
+})
+registerFileRenderer({
+  id: "json",
+  label: "Tree",
+  extensions: [".json"],
+  component: JsonTree,
+})
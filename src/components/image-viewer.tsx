@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react"
+import { getAssetUrl } from "@/lib/assets"
+import { type FileRendererProps } from "@/components/file-renderers"
+import { Button } from "@/components/ui/button"
+import { Minus, Plus } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+// Zoom factors the buttons step through
+const ZOOM_STEPS = [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 8]
+
+/**
+ * Shows an image asset, or the text of an SVG file as an image, scaled to
+ * fit or zoomed in steps. SVGs are shown through an <img>, so scripts in
+ * them don't run.
+ */
+export function ImageViewer({ file, text }: FileRendererProps) {
+  // null fits the image into the view
+  const [zoom, setZoom] = useState<number | null>(null)
+  const [naturalWidth, setNaturalWidth] = useState<number | null>(null)
+  const [svgUrl, setSvgUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (file.kind === "asset") return
+    const url = URL.createObjectURL(new Blob([text], { type: "image/svg+xml" }))
+    setSvgUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [file.kind, text])
+
+  const src = file.kind === "asset" ? getAssetUrl(file.id) : svgUrl
+
+  const stepZoom = (direction: 1 | -1) => {
+    const current = zoom ?? 1
+    const next =
+      direction === 1
+        ? ZOOM_STEPS.find((step) => step > current)
+        : [...ZOOM_STEPS].reverse().find((step) => step < current)
+    if (next !== undefined) setZoom(next)
+  }
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-2">
+      <div className="flex items-center gap-1 text-sm">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => stepZoom(-1)}
+          title="Zoom out"
+        >
+          <Minus />
+        </Button>
+        <span className="w-12 text-center text-xs text-gray-600">
+          {zoom === null ? "Fit" : `${Math.round(zoom * 100)}%`}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => stepZoom(1)}
+          title="Zoom in"
+        >
+          <Plus />
+        </Button>
+        <Button
+          size="sm"
+          variant={zoom === null ? "secondary" : "ghost"}
+          onClick={() => setZoom(null)}
+        >
+          Fit
+        </Button>
+        <Button
+          size="sm"
+          variant={zoom === 1 ? "secondary" : "ghost"}
+          onClick={() => setZoom(1)}
+        >
+          100%
+        </Button>
+      </div>
+      <div
+        className={cn(
+          "flex min-h-0 flex-1 overflow-auto rounded border bg-[repeating-conic-gradient(#f3f4f6_0_25%,#fff_0_50%)] bg-[length:16px_16px] p-4",
+          zoom === null && "items-center justify-center"
+        )}
+      >
+        {src && (
+          <img
+            src={src}
+            alt={file.name}
+            onLoad={(e) => setNaturalWidth(e.currentTarget.naturalWidth)}
+            className={
+              zoom === null ? "max-h-full max-w-full object-contain" : "m-auto"
+            }
+            style={
+              zoom !== null && naturalWidth
+                ? { width: naturalWidth * zoom, maxWidth: "none" }
+                : undefined
+            }
+          />
+        )}
+      </div>
+    </div>
+  )
+}
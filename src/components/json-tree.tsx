@@ -0,0 +1,104 @@
+import { useMemo, useState } from "react"
+import { type FileRendererProps } from "@/components/file-renderers"
+import { ChevronDown, ChevronRight } from "lucide-react"
+
+// Objects and arrays nested deeper than this start collapsed
+const EXPANDED_DEPTH = 2
+
+interface JsonNodeProps {
+  label: string | null
+  value: unknown
+  depth: number
+}
+
+function JsonValue({ value }: { value: unknown }) {
+  if (typeof value === "string") {
+    return <span className="text-green-700">{JSON.stringify(value)}</span>
+  }
+  if (typeof value === "number") {
+    return <span className="text-blue-700">{value}</span>
+  }
+  if (typeof value === "boolean" || value === null) {
+    return <span className="text-purple-700">{String(value)}</span>
+  }
+  return null
+}
+
+function JsonNode({ label, value, depth }: JsonNodeProps) {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH)
+  const isContainer = typeof value === "object" && value !== null
+  const labelElement = label !== null && (
+    <span className="text-gray-800">{label}: </span>
+  )
+
+  if (!isContainer) {
+    return (
+      <div className="pl-4">
+        {labelElement}
+        <JsonValue value={value} />
+      </div>
+    )
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value)
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"]
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center text-left hover:bg-gray-100"
+      >
+        {expanded ? (
+          <ChevronDown className="size-4 shrink-0 text-gray-500" />
+        ) : (
+          <ChevronRight className="size-4 shrink-0 text-gray-500" />
+        )}
+        {labelElement}
+        <span className="text-gray-500">
+          {open}
+          {!expanded &&
+            ` ${entries.length} ${entries.length === 1 ? "item" : "items"} ${close}`}
+        </span>
+      </button>
+      {expanded && (
+        <>
+          <div className="ml-2 border-l border-gray-200 pl-2">
+            {entries.map(([key, item]) => (
+              <JsonNode key={key} label={key} value={item} depth={depth + 1} />
+            ))}
+          </div>
+          <div className="pl-4 text-gray-500">{close}</div>
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * JSON file shown as a tree whose objects and arrays can be collapsed
+ */
+export function JsonTree({ text }: FileRendererProps) {
+  const parsed = useMemo(() => {
+    try {
+      return { value: JSON.parse(text) as unknown, error: null }
+    } catch (error) {
+      return { value: undefined, error: (error as Error).message }
+    }
+  }, [text])
+
+  return (
+    <div className="h-full overflow-auto rounded border bg-white p-3 font-mono text-sm">
+      {parsed.error ? (
+        <p className="font-sans text-red-600">
+          This file isn&apos;t valid JSON: {parsed.error}
+        </p>
+      ) : (
+        <JsonNode label={null} value={parsed.value} depth={0} />
+      )}
+    </div>
+  )
+}
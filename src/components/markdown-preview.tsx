@@ -0,0 +1,89 @@
+import Markdown, { type Components } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import { type FileRendererProps } from "@/components/file-renderers"
+
+// Raw HTML in the source is not rendered, so only these elements appear
+const components: Components = {
+  h1: ({ node: _node, ...props }) => (
+    <h1 className="mt-6 mb-3 text-2xl font-bold" {...props} />
+  ),
+  h2: ({ node: _node, ...props }) => (
+    <h2 className="mt-5 mb-3 border-b pb-1 text-xl font-semibold" {...props} />
+  ),
+  h3: ({ node: _node, ...props }) => (
+    <h3 className="mt-4 mb-2 text-lg font-semibold" {...props} />
+  ),
+  h4: ({ node: _node, ...props }) => (
+    <h4 className="mt-4 mb-2 font-semibold" {...props} />
+  ),
+  p: ({ node: _node, ...props }) => (
+    <p className="my-3 leading-relaxed" {...props} />
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a
+      className="text-blue-600 underline"
+      target="_blank"
+      rel="noreferrer"
+      {...props}
+    />
+  ),
+  ul: ({ node: _node, ...props }) => (
+    <ul className="my-3 list-disc pl-6" {...props} />
+  ),
+  ol: ({ node: _node, ...props }) => (
+    <ol className="my-3 list-decimal pl-6" {...props} />
+  ),
+  li: ({ node: _node, ...props }) => <li className="my-1" {...props} />,
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote
+      className="my-3 border-l-4 border-gray-300 pl-4 text-gray-600"
+      {...props}
+    />
+  ),
+  code: ({ node: _node, ...props }) => (
+    <code
+      className="rounded bg-gray-100 px-1 py-0.5 text-[0.85em]"
+      {...props}
+    />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre
+      className="my-3 overflow-x-auto rounded bg-gray-100 p-3 text-sm [&>code]:bg-transparent [&>code]:p-0"
+      {...props}
+    />
+  ),
+  hr: ({ node: _node, ...props }) => (
+    <hr className="my-6 border-gray-200" {...props} />
+  ),
+  img: ({ node: _node, ...props }) => (
+    <img className="my-3 max-w-full" {...props} />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="border-collapse text-sm" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => (
+    <th
+      className="border border-gray-300 bg-gray-50 px-3 py-1 text-left font-semibold"
+      {...props}
+    />
+  ),
+  td: ({ node: _node, ...props }) => (
+    <td className="border border-gray-300 px-3 py-1" {...props} />
+  ),
+}
+
+/**
+ * Rendered Markdown, including GitHub extensions such as tables and task
+ * lists
+ */
+export function MarkdownPreview({ text }: FileRendererProps) {
+  return (
+    <div className="h-full overflow-y-auto rounded border bg-white px-6 py-2 text-sm text-gray-800">
+      <Markdown remarkPlugins={[remarkGfm]} components={components}>
+        {text}
+      </Markdown>
+    </div>
+  )
+}
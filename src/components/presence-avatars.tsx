@@ -0,0 +1,74 @@
+import { useLiveQuery } from "@tanstack/react-db"
+import { usersCollection } from "@/lib/collections"
+import { getPresenceColor } from "@/lib/presence"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import { cn } from "@/lib/utils"
+
+interface PresenceAvatarsProps {
+  userIds: string[]
+  /** Number of avatars shown before the rest collapse into a counter */
+  max?: number
+  size?: "sm" | "md"
+  className?: string
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("")
+
+/**
+ * Overlapping avatars of the users currently present, each ringed with the
+ * color of their remote cursor
+ */
+export function PresenceAvatars({
+  userIds,
+  max = 5,
+  size = "md",
+  className,
+}: PresenceAvatarsProps) {
+  const { data: users } = useLiveQuery((q) =>
+    q.from({ users: usersCollection })
+  )
+
+  if (userIds.length === 0) return null
+
+  const present = userIds
+    .map((id) => users.find((user) => user.id === id))
+    .filter((user) => user !== undefined)
+  const shown = present.slice(0, max)
+  const hidden = present.length - shown.length
+  const sizeClass = size === "sm" ? "size-5 text-[10px]" : "size-7 text-xs"
+
+  return (
+    <div className={cn("flex items-center -space-x-2", className)}>
+      {shown.map((user) => (
+        <Tooltip key={user.id}>
+          <TooltipTrigger asChild>
+            <Avatar
+              className={cn("border-2 bg-white", sizeClass)}
+              style={{ borderColor: getPresenceColor(user.id).color }}
+            >
+              {user.image && <AvatarImage src={user.image} alt={user.name} />}
+              <AvatarFallback>{getInitials(user.name)}</AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{user.name}</TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden > 0 && (
+        <Avatar className={cn("border-2 border-white", sizeClass)}>
+          <AvatarFallback>+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  )
+}
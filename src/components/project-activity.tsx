@@ -0,0 +1,135 @@
+import { useState } from "react"
+import { Link } from "@tanstack/react-router"
+import { useLiveQuery } from "@tanstack/react-db"
+import { type ActivityAction, type ActivityEvent } from "@/db/schema"
+import { getProjectCollections } from "@/lib/collections"
+import { Button } from "@/components/ui/button"
+
+interface ProjectActivityProps {
+  projectId: number
+}
+
+// Events shown at first, and added by each "Show more"
+const PAGE_SIZE = 50
+
+const ACTION_VERBS: Record<ActivityAction, string> = {
+  create: "created",
+  update: "updated",
+  delete: "deleted",
+  restore: "restored",
+}
+
+/** Heading of the events of one day, e.g. "Today" or "Monday, May 4" */
+const formatDay = (date: Date) => {
+  const day = new Date(date).setHours(0, 0, 0, 0)
+  const today = new Date().setHours(0, 0, 0, 0)
+  if (day === today) return "Today"
+  if (day === today - 24 * 60 * 60 * 1000) return "Yesterday"
+  return date.toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year:
+      date.getFullYear() === new Date().getFullYear() ? undefined : "numeric",
+  })
+}
+
+/**
+ * Who created, changed, deleted or restored what in the project, newest
+ * first and grouped by day. Files that still exist link to their page.
+ */
+export function ProjectActivity({ projectId }: ProjectActivityProps) {
+  const { activityEventsCollection, filesCollection } =
+    getProjectCollections(projectId)
+  const [limit, setLimit] = useState(PAGE_SIZE)
+
+  const { data: events } = useLiveQuery(
+    (q) =>
+      q
+        .from({ activityEventsCollection })
+        .orderBy(
+          ({ activityEventsCollection }) => activityEventsCollection.created_at,
+          "desc"
+        ),
+    [projectId]
+  )
+  const { data: files } = useLiveQuery(
+    (q) => q.from({ filesCollection }),
+    [projectId]
+  )
+  const fileIds = new Set(files.map((file) => file.id))
+
+  const days: { label: string; events: ActivityEvent[] }[] = []
+  for (const event of events.slice(0, limit)) {
+    const label = formatDay(event.created_at)
+    const last = days.at(-1)
+    if (last?.label === label) {
+      last.events.push(event)
+    } else {
+      days.push({ label, events: [event] })
+    }
+  }
+
+  const renderTarget = (event: ActivityEvent) =>
+    event.target_type === "file" && fileIds.has(event.target_id) ? (
+      <Link
+        to="/project/$projectId/file/$fileId"
+        params={{
+          projectId: projectId.toString(),
+          fileId: event.target_id.toString(),
+        }}
+        className="font-medium text-blue-600 hover:underline"
+      >
+        {event.target_name}
+      </Link>
+    ) : (
+      <span className="font-medium text-gray-800">{event.target_name}</span>
+    )
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">Activity</h3>
+      {events.length === 0 && (
+        <p className="text-sm text-gray-500">Nothing has happened yet</p>
+      )}
+      <div className="space-y-4">
+        {days.map((day) => (
+          <div key={day.label}>
+            <p className="mb-1 text-xs font-medium uppercase text-gray-500">
+              {day.label}
+            </p>
+            <ul className="space-y-1 text-sm">
+              {day.events.map((event) => (
+                <li key={event.id} className="flex gap-2">
+                  <span className="w-14 shrink-0 text-gray-400">
+                    {event.created_at.toLocaleTimeString(undefined, {
+                      hour: "numeric",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                  <span className="min-w-0 text-gray-600">
+                    <span className="font-medium text-gray-800">
+                      {event.actor_name}
+                    </span>{" "}
+                    {ACTION_VERBS[event.action]} {event.target_type}{" "}
+                    {renderTarget(event)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+      {events.length > limit && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="mt-2"
+          onClick={() => setLimit(limit + PAGE_SIZE)}
+        >
+          Show more
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,223 @@
+import { useRef, useState, type DragEvent } from "react"
+import { useLiveQuery } from "@tanstack/react-db"
+import { getProjectCollections, importProjectArchive } from "@/lib/collections"
+import {
+  readDroppedItems,
+  readZipArchive,
+  type ArchiveContents,
+} from "@/lib/archive"
+import { flattenTree, getMutationErrorMessage } from "@/lib/file-tree"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Download, Upload } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface ProjectArchiveProps {
+  projectId: number
+  canEdit: boolean
+}
+
+/** Paths listed in an import's 409 response, if the error is one */
+const getImportConflicts = (error: unknown): string[] => {
+  try {
+    const body = JSON.parse(error instanceof Error ? error.message : ``)
+    return Array.isArray(body.conflicts) ? body.conflicts : []
+  } catch (_error) {
+    return []
+  }
+}
+
+/**
+ * Downloads the project as a zip, and for editors imports a zip or a
+ * dropped directory into the project root or a folder. Nothing is imported
+ * if any name is already taken; the taken paths are listed instead.
+ */
+export function ProjectArchive({ projectId, canEdit }: ProjectArchiveProps) {
+  const { foldersCollection } = getProjectCollections(projectId)
+  const [contents, setContents] = useState<ArchiveContents | null>(null)
+  const [targetId, setTargetId] = useState<string>("root")
+  const [isDragging, setIsDragging] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<string[]>([])
+  const [imported, setImported] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const { data: folders } = useLiveQuery(
+    (q) => q.from({ foldersCollection }),
+    [projectId]
+  )
+  // Every folder, indented by depth, to pick the destination from
+  const targets = flattenTree(
+    folders,
+    [],
+    new Set(folders.map((folder) => folder.id))
+  )
+
+  const load = (read: Promise<ArchiveContents>) => {
+    setError(null)
+    setConflicts([])
+    setImported(null)
+    read
+      .then((read) => {
+        if (read.files.length === 0 && read.folders.length === 0) {
+          setError("Nothing to import: no folders or text files were found")
+          return
+        }
+        setContents(read)
+      })
+      .catch((error) =>
+        setError(`Couldn't read the archive: ${getMutationErrorMessage(error)}`)
+      )
+  }
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault()
+    setIsDragging(false)
+    load(readDroppedItems(event.dataTransfer.items))
+  }
+
+  const runImport = async () => {
+    if (!contents) return
+    setIsImporting(true)
+    setError(null)
+    setConflicts([])
+    try {
+      const created = await importProjectArchive(
+        projectId,
+        targetId === "root" ? null : parseInt(targetId, 10),
+        contents
+      )
+      setContents(null)
+      setImported(
+        `Imported ${created.files} file${created.files === 1 ? "" : "s"} and ${created.folders} folder${created.folders === 1 ? "" : "s"}`
+      )
+    } catch (error) {
+      setError(getMutationErrorMessage(error))
+      setConflicts(getImportConflicts(error))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">
+        Export &amp; Import
+      </h3>
+      <div className="mb-3 flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" asChild>
+          <a href={`/api/projects/${projectId}/export`} download>
+            <Download />
+            Download as zip
+          </a>
+        </Button>
+        {canEdit && (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => inputRef.current?.click()}
+            >
+              <Upload />
+              Import zip...
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) load(readZipArchive(file))
+                e.target.value = ""
+              }}
+            />
+          </>
+        )}
+      </div>
+
+      {canEdit && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={cn(
+            "rounded-md border border-dashed border-gray-300 p-4 text-center text-sm text-gray-500",
+            isDragging && "border-blue-400 bg-blue-50"
+          )}
+        >
+          Drop a folder or a .zip file here to import it
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {conflicts.length > 0 && (
+        <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-red-600">
+          {conflicts.map((path) => (
+            <li key={path} className="font-mono">
+              {path}
+            </li>
+          ))}
+        </ul>
+      )}
+      {imported && <p className="mt-2 text-sm text-green-700">{imported}</p>}
+
+      {contents && (
+        <div className="mt-3 rounded-md border border-gray-200 p-3 text-sm">
+          <p className="text-gray-800">
+            {contents.files.length} file
+            {contents.files.length === 1 ? "" : "s"} and{" "}
+            {contents.folders.length} folder
+            {contents.folders.length === 1 ? "" : "s"} ready to import
+          </p>
+          {contents.skipped.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Skipping {contents.skipped.length} file
+              {contents.skipped.length === 1 ? "" : "s"} that aren&apos;t text:{" "}
+              {contents.skipped.slice(0, 5).join(", ")}
+              {contents.skipped.length > 5 && ", ..."}
+            </p>
+          )}
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger size="sm" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="root">Project root</SelectItem>
+                {targets.map((row) => (
+                  <SelectItem key={row.key} value={row.id.toString()}>
+                    <span style={{ paddingLeft: `${row.level * 0.75}rem` }}>
+                      {row.name}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={runImport} disabled={isImporting}>
+              {isImporting ? "Importing..." : "Import"}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setContents(null)}
+              disabled={isImporting}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
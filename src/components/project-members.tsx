@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react"
+import { useNavigate } from "@tanstack/react-router"
+import { useLiveQuery, eq } from "@tanstack/react-db"
+import { authClient } from "@/lib/auth-client"
+import {
+  getProjectCollections,
+  projectCollection,
+  searchUserByEmail,
+  usersCollection,
+} from "@/lib/collections"
+import { type ProjectRole } from "@/db/schema"
+import { getMutationErrorMessage } from "@/lib/file-tree"
+import {
+  INVITATION_TTL_MS,
+  isInvitationExpired,
+  normalizeEmail,
+} from "@/lib/invitations"
+import {
+  PROJECT_ROLES,
+  PROJECT_ROLE_DESCRIPTIONS,
+  PROJECT_ROLE_LABELS,
+  hasProjectRole,
+} from "@/lib/project-roles"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+
+// Delay before the invite email is looked up, so lookups don't run on every
+// keystroke
+const EMAIL_LOOKUP_DELAY_MS = 400
+
+type InviteLookup =
+  | { status: "idle" }
+  | { status: "found"; userId: string; name: string }
+  | { status: "missing" }
+
+interface ProjectMembersProps {
+  projectId: number
+  userId: string | undefined
+}
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: ProjectRole
+  onChange: (role: ProjectRole) => void
+  disabled?: boolean
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(role) => onChange(role as ProjectRole)}
+      disabled={disabled}
+    >
+      <SelectTrigger size="sm" className="w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PROJECT_ROLES.map((role) => (
+          <SelectItem
+            key={role}
+            value={role}
+            title={PROJECT_ROLE_DESCRIPTIONS[role]}
+          >
+            {PROJECT_ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * Pending invitations of a project. Only owners can sync them, so this is
+ * only rendered for owners.
+ */
+function PendingInvitations({
+  projectId,
+  onRevoke,
+}: {
+  projectId: number
+  onRevoke: (invitationId: number) => void
+}) {
+  const { projectInvitationsCollection } = getProjectCollections(projectId)
+  const { data: invitations } = useLiveQuery(
+    (q) =>
+      q
+        .from({ projectInvitationsCollection })
+        .where(({ projectInvitationsCollection }) =>
+          eq(projectInvitationsCollection.status, "pending")
+        )
+        .orderBy(
+          ({ projectInvitationsCollection }) =>
+            projectInvitationsCollection.created_at
+        ),
+    [projectId]
+  )
+
+  if (invitations.length === 0) return null
+  return (
+    <div className="mt-4">
+      <h4 className="mb-2 text-sm font-medium text-gray-700">
+        Pending invitations
+      </h4>
+      <div className="space-y-2">
+        {invitations.map((invitation) => (
+          <div
+            key={invitation.id}
+            className="flex items-center gap-3 p-2 bg-gray-50 rounded text-sm"
+          >
+            <span className="flex-1 text-gray-800">{invitation.email}</span>
+            <span className="text-xs text-gray-500">
+              {isInvitationExpired(invitation)
+                ? "Expired"
+                : `${PROJECT_ROLE_LABELS[invitation.role]}, expires ${invitation.expires_at.toLocaleDateString()}`}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRevoke(invitation.id)}
+            >
+              Revoke
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Members of a project and their roles. Owners invite people by email,
+ * revoke pending invitations, remove members and change roles; everyone
+ * else can leave the project.
+ */
+export function ProjectMembers({ projectId, userId }: ProjectMembersProps) {
+  const navigate = useNavigate()
+  const { projectMembersCollection, projectInvitationsCollection } =
+    getProjectCollections(projectId)
+  const { data: session } = authClient.useSession()
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<ProjectRole>("editor")
+  const [error, setError] = useState<string | null>(null)
+  const [lookup, setLookup] = useState<InviteLookup>({ status: "idle" })
+
+  const { data: members } = useLiveQuery(
+    (q) =>
+      q
+        .from({ projectMembersCollection })
+        .orderBy(
+          ({ projectMembersCollection }) => projectMembersCollection.created_at
+        ),
+    [projectId]
+  )
+  const { data: users } = useLiveQuery((q) =>
+    q.from({ users: usersCollection })
+  )
+  const { data: projects } = useLiveQuery(
+    (q) =>
+      q
+        .from({ projectCollection })
+        .where(({ projectCollection }) => eq(projectCollection.id, projectId)),
+    [projectId]
+  )
+
+  // Tells the owner whether the email they're typing has an account
+  useEffect(() => {
+    const email = normalizeEmail(inviteEmail)
+    setLookup({ status: "idle" })
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      searchUserByEmail(email)
+        .then((user) => {
+          if (cancelled) return
+          setLookup(
+            user
+              ? { status: "found", userId: user.id, name: user.name }
+              : { status: "missing" }
+          )
+        })
+        .catch(() => {
+          // The lookup is only a hint; the invitation itself is validated
+          // on the server
+        })
+    }, EMAIL_LOOKUP_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [inviteEmail])
+
+  const role = members.find((member) => member.user_id === userId)?.role
+  const canManage = hasProjectRole(role, "owner")
+  const ownerCount = members.filter((member) => member.role === "owner").length
+  const inviteeIsMember =
+    lookup.status === "found" &&
+    members.some((member) => member.user_id === lookup.userId)
+
+  const reportFailure = (promise: Promise<unknown>) =>
+    promise.catch((error) => setError(getMutationErrorMessage(error)))
+
+  // The server fills in the token, expiry and invitee; the optimistic row
+  // only needs to show up in the pending list
+  const inviteMember = (e: React.FormEvent) => {
+    e.preventDefault()
+    const email = normalizeEmail(inviteEmail)
+    if (!email || !session) return
+    setError(null)
+    reportFailure(
+      projectInvitationsCollection.insert({
+        id: Math.floor(Math.random() * 100000),
+        project_id: projectId,
+        project_name: projects[0]?.name ?? "",
+        email,
+        role: inviteRole,
+        status: "pending",
+        invited_by: session.user.id,
+        inviter_name: session.user.name,
+        invitee_id: null,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+        responded_at: null,
+        created_at: new Date(),
+      }).isPersisted.promise
+    )
+    setInviteEmail("")
+  }
+
+  const revokeInvitation = (invitationId: number) => {
+    setError(null)
+    reportFailure(
+      projectInvitationsCollection.delete(invitationId).isPersisted.promise
+    )
+  }
+
+  const changeRole = (memberId: number, nextRole: ProjectRole) => {
+    setError(null)
+    reportFailure(
+      projectMembersCollection.update(memberId, (draft) => {
+        draft.role = nextRole
+      }).isPersisted.promise
+    )
+  }
+
+  const removeMember = (memberId: number, leaving: boolean) => {
+    if (leaving && !confirm("Leave this project?")) return
+    setError(null)
+    const transaction = projectMembersCollection.delete(memberId)
+    reportFailure(
+      transaction.isPersisted.promise.then(() => {
+        if (leaving) navigate({ to: "/" })
+      })
+    )
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">
+        Project Members
+      </h3>
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+      <div className="space-y-2">
+        {members.map((member) => {
+          const user = users.find((u) => u.id === member.user_id)
+          const isSelf = member.user_id === userId
+          // The last owner can't be demoted or removed
+          const isLastOwner = member.role === "owner" && ownerCount === 1
+          return (
+            <div
+              key={member.id}
+              className="flex items-center gap-3 p-2 bg-gray-50 rounded"
+            >
+              <span className="flex-1 text-gray-800">
+                {user?.name ?? member.user_id}
+                {isSelf && <span className="text-gray-500"> (you)</span>}
+              </span>
+              {canManage ? (
+                <RoleSelect
+                  value={member.role}
+                  onChange={(nextRole) => changeRole(member.id, nextRole)}
+                  disabled={isLastOwner}
+                />
+              ) : (
+                <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded">
+                  {PROJECT_ROLE_LABELS[member.role]}
+                </span>
+              )}
+              {(canManage || isSelf) && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isLastOwner}
+                  onClick={() => removeMember(member.id, isSelf)}
+                >
+                  {isSelf ? "Leave" : "Remove"}
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+      {canManage && (
+        <>
+          <form
+            onSubmit={inviteMember}
+            className="mt-3 flex items-center gap-2"
+          >
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Invite by email..."
+              className="h-8 flex-1 text-sm"
+            />
+            <RoleSelect value={inviteRole} onChange={setInviteRole} />
+            <Button
+              size="sm"
+              type="submit"
+              disabled={!inviteEmail.trim() || inviteeIsMember}
+            >
+              Invite
+            </Button>
+          </form>
+          {lookup.status !== "idle" && (
+            <p className="mt-1 text-xs text-gray-500">
+              {lookup.status === "missing"
+                ? "No account uses this email yet. They'll be asked to sign up."
+                : inviteeIsMember
+                  ? `${lookup.name} is already a member.`
+                  : `${lookup.name} has an account and will find the invitation in their inbox.`}
+            </p>
+          )}
+          <PendingInvitations
+            projectId={projectId}
+            onRevoke={revokeInvitation}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react"
+import { useNavigate } from "@tanstack/react-router"
+import { searchProjectFiles } from "@/lib/collections"
+import { getMutationErrorMessage } from "@/lib/file-tree"
+import { splitHighlights, type FileSearchResult } from "@/lib/search"
+import { Input } from "@/components/ui/input"
+import { FileText, Search } from "lucide-react"
+
+interface ProjectSearchProps {
+  projectId: number
+}
+
+// Delay before a search runs, so it doesn't run on every keystroke
+const SEARCH_DELAY_MS = 300
+
+/**
+ * Searches the text of every file in a project. Results list the matching
+ * lines of each file with the search terms highlighted; clicking a line
+ * opens the file there.
+ */
+export function ProjectSearch({ projectId }: ProjectSearchProps) {
+  const navigate = useNavigate()
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<FileSearchResult[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    setError(null)
+    if (!trimmed) {
+      setResults(null)
+      setIsSearching(false)
+      return
+    }
+    let cancelled = false
+    setIsSearching(true)
+    const timeout = setTimeout(() => {
+      searchProjectFiles(projectId, trimmed)
+        .then((found) => {
+          if (!cancelled) setResults(found)
+        })
+        .catch((error) => {
+          if (!cancelled) setError(getMutationErrorMessage(error))
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false)
+        })
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [projectId, query])
+
+  const openMatch = (fileId: number, line?: number) =>
+    navigate({
+      to: "/project/$projectId/file/$fileId",
+      params: {
+        projectId: projectId.toString(),
+        fileId: fileId.toString(),
+      },
+      search: { line },
+    })
+
+  return (
+    <div className="text-sm">
+      <div className="relative px-1">
+        <Search className="pointer-events-none absolute left-3 top-1/2 size-3.5 -translate-y-1/2 text-gray-400" />
+        <Input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search in files..."
+          className="h-8 pl-7 text-sm"
+        />
+      </div>
+      {error && <p className="px-2 py-1 text-xs text-red-600">{error}</p>}
+      {results && !isSearching && results.length === 0 && (
+        <p className="px-2 py-1 text-xs text-gray-500">No matches</p>
+      )}
+      {results && results.length > 0 && (
+        <ul className="mt-1 max-h-80 overflow-y-auto">
+          {results.map((result) => (
+            <li key={result.file_id} className="py-0.5">
+              <button
+                type="button"
+                onClick={() => openMatch(result.file_id)}
+                className="flex w-full items-center gap-1.5 rounded px-1 py-0.5 text-left hover:bg-gray-100"
+              >
+                <FileText className="size-3.5 shrink-0 text-green-600" />
+                <span className="flex-1 truncate font-medium">
+                  {result.name}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {result.match_count}
+                </span>
+              </button>
+              <ul>
+                {result.matches.map((match) => (
+                  <li key={match.line}>
+                    <button
+                      type="button"
+                      onClick={() => openMatch(result.file_id, match.line)}
+                      className="flex w-full gap-2 rounded py-0.5 pl-6 pr-1 text-left font-mono text-xs hover:bg-gray-100"
+                    >
+                      <span className="shrink-0 text-gray-400">
+                        {match.line}
+                      </span>
+                      <span className="truncate text-gray-700">
+                        {splitHighlights(match).map((part, index) =>
+                          part.highlighted ? (
+                            <mark
+                              key={index}
+                              className="rounded-sm bg-yellow-200 text-gray-900"
+                            >
+                              {part.text}
+                            </mark>
+                          ) : (
+                            <span key={index}>{part.text}</span>
+                          )
+                        )}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
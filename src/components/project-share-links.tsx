@@ -0,0 +1,267 @@
+import { useMemo, useState } from "react"
+import { useLiveQuery } from "@tanstack/react-db"
+import { getProjectCollections } from "@/lib/collections"
+import { type ShareLink, type ShareScope } from "@/db/schema"
+import { flattenTree, getMutationErrorMessage } from "@/lib/file-tree"
+import {
+  SHARE_LINK_EXPIRY_DAYS,
+  SHARE_SCOPE_LABELS,
+  getSharePath,
+  isShareLinkExpired,
+} from "@/lib/share-links"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+
+interface ProjectShareLinksProps {
+  projectId: number
+  userId: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Read-only links to the project, a folder or a file for people without an
+ * account. Only owners see this section: they create links with an
+ * optional password and expiry, copy them, and revoke them.
+ */
+export function ProjectShareLinks({
+  projectId,
+  userId,
+}: ProjectShareLinksProps) {
+  const { shareLinksCollection, foldersCollection, filesCollection } =
+    getProjectCollections(projectId)
+  const [scope, setScope] = useState<ShareScope>("project")
+  const [targetId, setTargetId] = useState<string>("")
+  const [password, setPassword] = useState("")
+  const [expiryDays, setExpiryDays] = useState<string>("never")
+  const [error, setError] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<number | null>(null)
+
+  const { data: links } = useLiveQuery(
+    (q) =>
+      q
+        .from({ shareLinksCollection })
+        .orderBy(
+          ({ shareLinksCollection }) => shareLinksCollection.created_at,
+          "desc"
+        ),
+    [projectId]
+  )
+  const { data: folders } = useLiveQuery(
+    (q) => q.from({ foldersCollection }),
+    [projectId]
+  )
+  const { data: files } = useLiveQuery(
+    (q) => q.from({ filesCollection }),
+    [projectId]
+  )
+
+  // Every folder and file in tree order, indented by depth
+  const targets = useMemo(
+    () =>
+      flattenTree(
+        folders,
+        files,
+        new Set(folders.map((folder) => folder.id))
+      ).filter((row) => row.type === scope),
+    [folders, files, scope]
+  )
+
+  const describeTarget = (link: ShareLink) => {
+    if (link.scope === "folder") {
+      return folders.find((folder) => folder.id === link.folder_id)?.name
+    }
+    if (link.scope === "file") {
+      return files.find((file) => file.id === link.file_id)?.name
+    }
+    return SHARE_SCOPE_LABELS.project
+  }
+
+  const reportFailure = (promise: Promise<unknown>) =>
+    promise.catch((error) => setError(getMutationErrorMessage(error)))
+
+  // The server generates the token; the optimistic row only needs to show
+  // up in the list until the real one syncs
+  const createLink = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (scope !== "project" && !targetId) return
+    setError(null)
+    const target = scope === "project" ? null : parseInt(targetId, 10)
+    reportFailure(
+      shareLinksCollection.insert(
+        {
+          id: Math.floor(Math.random() * 100000),
+          project_id: projectId,
+          scope,
+          folder_id: scope === "folder" ? target : null,
+          file_id: scope === "file" ? target : null,
+          token: "",
+          has_password: password !== "",
+          expires_at:
+            expiryDays === "never"
+              ? null
+              : new Date(Date.now() + parseInt(expiryDays, 10) * DAY_MS),
+          access_count: 0,
+          last_accessed_at: null,
+          created_by: userId,
+          created_at: new Date(),
+        },
+        { metadata: { password } }
+      ).isPersisted.promise
+    )
+    setPassword("")
+  }
+
+  const revokeLink = (linkId: number) => {
+    if (!confirm("Revoke this link? People who have it lose access.")) return
+    setError(null)
+    reportFailure(shareLinksCollection.delete(linkId).isPersisted.promise)
+  }
+
+  const copyLink = async (link: ShareLink) => {
+    const url = new URL(getSharePath(link.token), window.location.origin)
+    await navigator.clipboard.writeText(url.toString())
+    setCopiedId(link.id)
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">Share Links</h3>
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+      <form onSubmit={createLink} className="mb-4 flex flex-wrap gap-2">
+        <Select
+          value={scope}
+          onValueChange={(value) => {
+            setScope(value as ShareScope)
+            setTargetId("")
+          }}
+        >
+          <SelectTrigger size="sm" className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(SHARE_SCOPE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {scope !== "project" && (
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger size="sm" className="w-48">
+              <SelectValue placeholder={`Choose a ${scope}...`} />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map((row) => (
+                <SelectItem key={row.key} value={row.id.toString()}>
+                  <span style={{ paddingLeft: `${row.level * 0.75}rem` }}>
+                    {row.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          autoComplete="new-password"
+          className="h-8 w-44 text-sm"
+        />
+        <Select value={expiryDays} onValueChange={setExpiryDays}>
+          <SelectTrigger size="sm" className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHARE_LINK_EXPIRY_DAYS.map((days) => (
+              <SelectItem key={days ?? "never"} value={`${days ?? "never"}`}>
+                {days === null
+                  ? "Never expires"
+                  : `Expires in ${days} day${days === 1 ? "" : "s"}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          type="submit"
+          disabled={scope !== "project" && !targetId}
+        >
+          Create link
+        </Button>
+      </form>
+
+      <div className="space-y-2">
+        {links.map((link) => {
+          const expired = isShareLinkExpired(link)
+          return (
+            <div
+              key={link.id}
+              className="flex items-center gap-3 p-2 bg-gray-50 rounded text-sm"
+            >
+              <div className="flex-1">
+                <p className="text-gray-800">
+                  {describeTarget(link) ?? "Deleted item"}
+                  {link.scope !== "project" && (
+                    <span className="text-gray-500">
+                      {" "}
+                      ({SHARE_SCOPE_LABELS[link.scope].toLowerCase()})
+                    </span>
+                  )}
+                  {link.has_password && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs bg-amber-100 text-amber-800 rounded">
+                      Password
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {expired
+                    ? "Expired"
+                    : link.expires_at
+                      ? `Expires ${link.expires_at.toLocaleString()}`
+                      : "Never expires"}
+                  {" · "}
+                  Opened {link.access_count}{" "}
+                  {link.access_count === 1 ? "time" : "times"}
+                  {link.last_accessed_at &&
+                    `, last ${link.last_accessed_at.toLocaleString()}`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={expired || !link.token}
+                onClick={() => copyLink(link)}
+              >
+                {copiedId === link.id ? "Copied" : "Copy link"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => revokeLink(link.id)}
+              >
+                Revoke
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+
+      {links.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No share links yet. Links give read-only access without an account.
+        </p>
+      )}
+    </div>
+  )
+}
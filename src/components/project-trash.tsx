@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+  deleteTrashItem,
+  fetchProjectTrash,
+  restoreTrashItem,
+} from "@/lib/collections"
+import { getMutationErrorMessage, type TreeItemRef } from "@/lib/file-tree"
+import { Button } from "@/components/ui/button"
+import { FileText, Folder, RotateCcw, Trash2 } from "lucide-react"
+
+interface ProjectTrashProps {
+  projectId: number
+  canEdit: boolean
+}
+
+type Trash = Awaited<ReturnType<typeof fetchProjectTrash>>
+
+/**
+ * Folders and files deleted from the project, with who deleted them and
+ * when. Editors restore them to where they were or delete them for good;
+ * anything left is purged after the retention period.
+ */
+export function ProjectTrash({ projectId, canEdit }: ProjectTrashProps) {
+  const [trash, setTrash] = useState<Trash | null>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(() => {
+    setError(null)
+    fetchProjectTrash(projectId)
+      .then(setTrash)
+      .catch((error) => setError(getMutationErrorMessage(error)))
+  }, [projectId])
+
+  useEffect(() => {
+    if (isOpen) load()
+  }, [isOpen, load])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await action()
+      load()
+    } catch (error) {
+      setError(getMutationErrorMessage(error))
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const deleteForever = (item: TreeItemRef, name: string) => {
+    if (!confirm(`Delete "${name}" permanently? This can't be undone.`)) return
+    void run(() => deleteTrashItem(projectId, item))
+  }
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center gap-3">
+        <h3 className="text-lg font-semibold text-gray-800">Trash</h3>
+        <Button
+          size="sm"
+          variant={isOpen ? "secondary" : "ghost"}
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          <Trash2 />
+          {isOpen ? "Hide" : "Show"}
+        </Button>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      {isOpen && trash && (
+        <>
+          <p className="mb-2 text-sm text-gray-500">
+            Deleted items are kept for {trash.retention_days} day
+            {trash.retention_days === 1 ? "" : "s"}.
+          </p>
+          {trash.items.length === 0 ? (
+            <p className="text-sm text-gray-500">The trash is empty</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 rounded-md border border-gray-200 text-sm">
+              {trash.items.map((item) => {
+                const key = `${item.type}-${item.id}`
+                const ref = { type: item.type, id: item.id }
+                const Icon = item.type === "folder" ? Folder : FileText
+                return (
+                  <li key={key} className="flex items-center gap-2 px-3 py-2">
+                    <Icon className="size-4 shrink-0 text-gray-400" />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-gray-800">
+                        {item.path && (
+                          <span className="text-gray-400">{item.path}/</span>
+                        )}
+                        {item.name}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Deleted {new Date(item.deleted_at).toLocaleString()}
+                        {item.deleted_by && ` by ${item.deleted_by}`}
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isBusy}
+                          onClick={() =>
+                            void run(() => restoreTrashItem(projectId, ref))
+                          }
+                        >
+                          <RotateCcw />
+                          Restore
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={isBusy}
+                          onClick={() => deleteForever(ref, item.name)}
+                        >
+                          Delete forever
+                        </Button>
+                      </>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
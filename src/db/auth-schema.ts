@@ -14,6 +14,9 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at")
     .$defaultFn(() => /* @__PURE__ */ new Date())
     .notNull(),
+  // Users sharing at least one project with this one, which the users shape
+  // is filtered on. Kept up to date by syncProjectMemberIds.
+  peer_ids: text("peer_ids").array().notNull().default([]),
 })
 
 export const sessions = pgTable("sessions", {
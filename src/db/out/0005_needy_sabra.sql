@@ -0,0 +1,45 @@
+CREATE TYPE "public"."project_role" AS ENUM('owner', 'editor', 'commenter', 'viewer');--> statement-breakpoint
+CREATE TABLE "project_members" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "project_members_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"project_id" integer NOT NULL,
+	"user_id" text NOT NULL,
+	"role" "project_role" DEFAULT 'viewer' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "member_ids" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "project_members_project_user_unique" ON "project_members" USING btree ("project_id","user_id");--> statement-breakpoint
+CREATE INDEX "project_members_user_idx" ON "project_members" USING btree ("user_id");--> statement-breakpoint
+-- Owners keep full control. Everyone a project was shared with could edit
+-- everything before roles existed, so they become editors.
+INSERT INTO "project_members" ("project_id", "user_id", "role")
+SELECT "id", "owner_id", 'owner'::project_role FROM "projects";--> statement-breakpoint
+INSERT INTO "project_members" ("project_id", "user_id", "role")
+SELECT DISTINCT p."id", shared."user_id", 'editor'::project_role
+FROM "projects" p
+CROSS JOIN LATERAL unnest(p."shared_user_ids") AS shared("user_id")
+JOIN "users" u ON u."id" = shared."user_id"
+WHERE shared."user_id" <> p."owner_id";--> statement-breakpoint
+UPDATE "projects" p SET "member_ids" = ARRAY(
+  SELECT m."user_id" FROM "project_members" m WHERE m."project_id" = p."id"
+);--> statement-breakpoint
+-- todos.user_ids followed shared_user_ids through triggers. From now on the
+-- members are copied to it with member_ids, see syncProjectMemberIds, and
+-- new todos start out with the member_ids of their project.
+DROP TRIGGER "sync_todo_user_ids_trigger" ON "projects";--> statement-breakpoint
+DROP FUNCTION sync_todo_user_ids();--> statement-breakpoint
+CREATE OR REPLACE FUNCTION populate_todo_user_ids()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT member_ids INTO NEW.user_ids
+    FROM projects
+    WHERE id = NEW.project_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+UPDATE "todos" t SET "user_ids" = p."member_ids"
+FROM "projects" p WHERE p."id" = t."project_id";--> statement-breakpoint
+ALTER TABLE "projects" DROP COLUMN "shared_user_ids";
@@ -0,0 +1,24 @@
+CREATE TYPE "public"."invitation_status" AS ENUM('pending', 'accepted', 'declined');--> statement-breakpoint
+CREATE TABLE "project_invitations" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "project_invitations_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"project_id" integer NOT NULL,
+	"project_name" varchar(255) NOT NULL,
+	"email" text NOT NULL,
+	"role" "project_role" DEFAULT 'viewer' NOT NULL,
+	"token" text NOT NULL,
+	"status" "invitation_status" DEFAULT 'pending' NOT NULL,
+	"invited_by" text NOT NULL,
+	"inviter_name" text NOT NULL,
+	"invitee_id" text,
+	"expires_at" timestamp with time zone NOT NULL,
+	"responded_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_invitee_id_users_id_fk" FOREIGN KEY ("invitee_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "project_invitations_token_unique" ON "project_invitations" USING btree ("token");--> statement-breakpoint
+CREATE UNIQUE INDEX "project_invitations_pending_unique" ON "project_invitations" USING btree ("project_id","email") WHERE "project_invitations"."status" = 'pending';--> statement-breakpoint
+CREATE INDEX "project_invitations_invitee_idx" ON "project_invitations" USING btree ("invitee_id");--> statement-breakpoint
+CREATE INDEX "project_invitations_email_idx" ON "project_invitations" USING btree ("email");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "users" ADD COLUMN "peer_ids" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+UPDATE "users" u SET "peer_ids" = ARRAY(
+  SELECT DISTINCT other."user_id"
+  FROM "project_members" mine
+  JOIN "project_members" other ON other."project_id" = mine."project_id"
+  WHERE mine."user_id" = u."id" AND other."user_id" <> u."id"
+);
@@ -0,0 +1,12 @@
+CREATE TABLE "file_search" (
+	"file_id" integer PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"search_vector" "tsvector" GENERATED ALWAYS AS (to_tsvector('simple', left(content, 262144))) STORED NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "file_search" ADD CONSTRAINT "file_search_file_id_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."files"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "file_search" ADD CONSTRAINT "file_search_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "file_search_project_idx" ON "file_search" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "file_search_vector_idx" ON "file_search" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TYPE "public"."file_kind" AS ENUM('text', 'asset');--> statement-breakpoint
+CREATE TABLE "asset_uploads" (
+	"id" text PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"folder_id" integer,
+	"name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"chunk_count" integer NOT NULL,
+	"received_chunks" integer[] DEFAULT '{}' NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "blobs" (
+	"hash" text PRIMARY KEY NOT NULL,
+	"size" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "kind" "file_kind" DEFAULT 'text' NOT NULL;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "mime_type" text;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "size" integer;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "blob_hash" text;--> statement-breakpoint
+ALTER TABLE "asset_uploads" ADD CONSTRAINT "asset_uploads_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_blob_hash_blobs_hash_fk" FOREIGN KEY ("blob_hash") REFERENCES "public"."blobs"("hash") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "files" ADD COLUMN "language" text;
\ No newline at end of file
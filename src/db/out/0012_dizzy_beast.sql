@@ -0,0 +1,12 @@
+DROP INDEX "files_folder_name_unique";--> statement-breakpoint
+DROP INDEX "folders_project_parent_name_unique";--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "deleted_by" text;--> statement-breakpoint
+ALTER TABLE "folders" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "folders" ADD COLUMN "deleted_by" text;--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "folders" ADD CONSTRAINT "folders_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "files_deleted_at_idx" ON "files" USING btree ("deleted_at");--> statement-breakpoint
+CREATE INDEX "folders_deleted_at_idx" ON "folders" USING btree ("deleted_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "files_folder_name_unique" ON "files" USING btree ("folder_id","name") WHERE "files"."deleted_at" IS NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "folders_project_parent_name_unique" ON "folders" USING btree ("project_id","parent_folder_id","name") WHERE "folders"."deleted_at" IS NULL;
\ No newline at end of file
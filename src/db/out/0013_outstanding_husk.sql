@@ -0,0 +1,17 @@
+CREATE TYPE "public"."activity_action" AS ENUM('create', 'update', 'delete', 'restore');--> statement-breakpoint
+CREATE TYPE "public"."activity_target" AS ENUM('project', 'folder', 'file', 'todo');--> statement-breakpoint
+CREATE TABLE "activity_events" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "activity_events_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"project_id" integer NOT NULL,
+	"actor_id" text,
+	"actor_name" text NOT NULL,
+	"action" "activity_action" NOT NULL,
+	"target_type" "activity_target" NOT NULL,
+	"target_id" integer NOT NULL,
+	"target_name" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "activity_events" ADD CONSTRAINT "activity_events_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_events" ADD CONSTRAINT "activity_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "activity_events_project_created_idx" ON "activity_events" USING btree ("project_id","created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "file_search" ADD COLUMN "indexed_update_id" integer;
\ No newline at end of file
@@ -6,13 +6,14 @@ import {
   varchar,
   text,
   customType,
+  pgEnum,
 } from "drizzle-orm/pg-core"
 import { createSchemaFactory } from "drizzle-zod"
 import { z } from "@hono/zod-openapi"
 export * from "./auth-schema"
 import { users } from "./auth-schema"
 import { index, uniqueIndex } from "drizzle-orm/pg-core"
-import { relations } from "drizzle-orm"
+import { relations, sql } from "drizzle-orm"
 
 const { createInsertSchema, createSelectSchema, createUpdateSchema } =
   createSchemaFactory({ zodInstance: z })
@@ -21,13 +22,99 @@ export const projectsTable = pgTable(`projects`, {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
   name: varchar({ length: 255 }).notNull(),
   description: text(),
-  shared_user_ids: text("shared_user_ids").array().notNull().default([]),
+  // Ids of every user in project_members, maintained by the server so the
+  // projects shape can be filtered by membership without a subquery
+  member_ids: text("member_ids").array().notNull().default([]),
   created_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
   owner_id: text("owner_id")
     .notNull()
     .references(() => users.id, { onDelete: "cascade" }),
 })
 
+export const projectRoleEnum = pgEnum("project_role", [
+  "owner",
+  "editor",
+  "commenter",
+  "viewer",
+])
+
+// Users who can access a project and what they may do there
+export const projectMembersTable = pgTable(
+  "project_members",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: projectRoleEnum().notNull().default("viewer"),
+    created_at: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      uniqueMember: uniqueIndex("project_members_project_user_unique").on(
+        table.project_id,
+        table.user_id
+      ),
+      idxUser: index("project_members_user_idx").on(table.user_id),
+    }
+  }
+)
+
+export const invitationStatusEnum = pgEnum("invitation_status", [
+  "pending",
+  "accepted",
+  "declined",
+])
+
+// Invitations to join a project, addressed by email. invitee_id is set once
+// an account with the email exists, which may only be after the invitation
+// was sent.
+export const projectInvitationsTable = pgTable(
+  "project_invitations",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    // Copied from the project so invitees can see it before joining
+    project_name: varchar("project_name", { length: 255 }).notNull(),
+    email: text("email").notNull(), // stored lowercased
+    role: projectRoleEnum().notNull().default("viewer"),
+    token: text("token").notNull(), // identifies the invitation in links
+    status: invitationStatusEnum().notNull().default("pending"),
+    invited_by: text("invited_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    inviter_name: text("inviter_name").notNull(),
+    invitee_id: text("invitee_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    expires_at: timestamp("expires_at", { withTimezone: true }).notNull(),
+    responded_at: timestamp("responded_at", { withTimezone: true }),
+    created_at: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      uniqueToken: uniqueIndex("project_invitations_token_unique").on(
+        table.token
+      ),
+      // A project can have one open invitation per email
+      uniquePending: uniqueIndex("project_invitations_pending_unique")
+        .on(table.project_id, table.email)
+        .where(sql`${table.status} = 'pending'`),
+      idxInvitee: index("project_invitations_invitee_idx").on(table.invitee_id),
+      idxEmail: index("project_invitations_email_idx").on(table.email),
+    }
+  }
+)
+
 export const todosTable = pgTable(`todos`, {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
   text: varchar({ length: 500 }).notNull(),
@@ -51,6 +138,11 @@ export const foldersTable = pgTable(
       .references(() => projectsTable.id, { onDelete: "cascade" }),
     parent_folder_id: integer(), // null for root folders
     name: text("name").notNull(),
+    // Set while the folder is in the trash, see src/lib/trash.ts
+    deleted_at: timestamp("deleted_at", { withTimezone: true }),
+    deleted_by: text("deleted_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
     created_at: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -60,12 +152,12 @@ export const foldersTable = pgTable(
   },
   (table) => {
     return {
-      uniqueFolder: uniqueIndex("folders_project_parent_name_unique").on(
-        table.project_id,
-        table.parent_folder_id,
-        table.name
-      ),
+      // Trashed folders don't hold on to their names
+      uniqueFolder: uniqueIndex("folders_project_parent_name_unique")
+        .on(table.project_id, table.parent_folder_id, table.name)
+        .where(sql`${table.deleted_at} IS NULL`),
       idxParent: index("folders_parent_idx").on(table.parent_folder_id),
+      idxDeleted: index("folders_deleted_at_idx").on(table.deleted_at),
     }
   }
 )
@@ -79,6 +171,21 @@ export const bytea = customType<{ data: Uint8Array }>({
   },
 })
 
+// Binary content of asset files, stored by the server in the blob store
+// under its SHA-256 hash so identical uploads are kept once. Rows no file
+// refers to any more are swept along with their stored objects.
+export const blobsTable = pgTable("blobs", {
+  hash: text("hash").primaryKey(),
+  size: integer().notNull(),
+  created_at: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+})
+
+// Text files keep their content in loro_snapshot; assets such as images and
+// PDFs point at a blob instead and are never edited
+export const fileKindEnum = pgEnum("file_kind", ["text", "asset"])
+
 export const filesTable = pgTable(
   "files",
   {
@@ -90,7 +197,19 @@ export const filesTable = pgTable(
       onDelete: "cascade",
     }),
     name: text("name").notNull(),
+    kind: fileKindEnum().notNull().default("text"),
     loro_snapshot: bytea(),
+    // Editor language chosen for the file; null detects it from the name
+    language: text("language"),
+    // Set for assets only
+    mime_type: text("mime_type"),
+    size: integer(),
+    blob_hash: text("blob_hash").references(() => blobsTable.hash),
+    // Set while the file is in the trash, see src/lib/trash.ts
+    deleted_at: timestamp("deleted_at", { withTimezone: true }),
+    deleted_by: text("deleted_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
     created_at: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -100,11 +219,253 @@ export const filesTable = pgTable(
   },
   (table) => {
     return {
-      uniqueFile: uniqueIndex("files_folder_name_unique").on(
-        table.folder_id,
-        table.name
-      ),
+      // Trashed files don't hold on to their names
+      uniqueFile: uniqueIndex("files_folder_name_unique")
+        .on(table.folder_id, table.name)
+        .where(sql`${table.deleted_at} IS NULL`),
       idxFolder: index("files_folder_idx").on(table.folder_id),
+      idxDeleted: index("files_deleted_at_idx").on(table.deleted_at),
+    }
+  }
+)
+
+// Asset uploads in progress. Chunks are written to the blob store as they
+// arrive and joined into a blob when the upload completes. Never synced.
+// The project and folder have no foreign keys so an upload outlives their
+// deletion until it is swept, which also removes its stored chunks.
+export const assetUploadsTable = pgTable("asset_uploads", {
+  id: text("id").primaryKey(), // random token, known only to the uploader
+  project_id: integer().notNull(),
+  folder_id: integer(),
+  name: text("name").notNull(),
+  mime_type: text("mime_type").notNull(),
+  size: integer().notNull(),
+  chunk_count: integer().notNull(),
+  received_chunks: integer("received_chunks").array().notNull().default([]),
+  user_id: text("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  created_at: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+})
+
+// Append-only log of Loro updates for a file. Clients append small updates
+// instead of rewriting the whole snapshot; the server periodically folds
+// them into files.loro_snapshot and deletes the folded rows.
+export const fileUpdatesTable = pgTable(
+  "file_updates",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    file_id: integer()
+      .notNull()
+      .references(() => filesTable.id, { onDelete: "cascade" }),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    seq: integer().notNull(),
+    loro_update: bytea().notNull(),
+    author_id: text("author_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    created_at: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      uniqueSeq: uniqueIndex("file_updates_file_seq_unique").on(
+        table.file_id,
+        table.seq
+      ),
+    }
+  }
+)
+
+// Point-in-time snapshots of a file. Rows without a name are recorded
+// automatically while a file is being edited; named rows are checkpoints
+// created by a user.
+export const fileVersionsTable = pgTable(
+  "file_versions",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    file_id: integer()
+      .notNull()
+      .references(() => filesTable.id, { onDelete: "cascade" }),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    name: varchar({ length: 255 }),
+    loro_snapshot: bytea().notNull(),
+    author_id: text("author_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    created_at: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      idxFile: index("file_versions_file_idx").on(table.file_id),
+    }
+  }
+)
+
+export const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector"
+  },
+})
+
+// Decoded text of each file for full-text search, rewritten by the server
+// whenever the content of the file changes. Never synced to clients.
+export const fileSearchTable = pgTable(
+  "file_search",
+  {
+    file_id: integer()
+      .primaryKey()
+      .references(() => filesTable.id, { onDelete: "cascade" }),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    content: text("content").notNull(),
+    // Only the start of very large files is indexed, as a tsvector is
+    // limited to 1MB
+    search_vector: tsvector("search_vector")
+      .notNull()
+      .generatedAlwaysAs(sql`to_tsvector('simple', left(content, 262144))`),
+    // Newest file_updates row folded into content, so entries missing later
+    // updates can be found. Update seqs restart after a compaction, ids don't.
+    indexed_update_id: integer(),
+    updated_at: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      idxProject: index("file_search_project_idx").on(table.project_id),
+      idxVector: index("file_search_vector_idx").using(
+        "gin",
+        table.search_vector
+      ),
+    }
+  }
+)
+
+// Ephemeral "who is here" rows, one per open browser tab. The id is
+// generated by the client so it can keep refreshing its own row with a
+// heartbeat; rows that stop being refreshed are ignored after
+// PRESENCE_TTL_MS and purged by the server.
+export const presenceTable = pgTable(
+  "presence",
+  {
+    id: integer().primaryKey(),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    file_id: integer().references(() => filesTable.id, {
+      onDelete: "cascade",
+    }), // null while browsing the project rather than a file
+    user_id: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    ephemeral: bytea(), // encoded Loro EphemeralStore state (cursor, user)
+    updated_at: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      idxProject: index("presence_project_idx").on(table.project_id),
+    }
+  }
+)
+
+export const shareScopeEnum = pgEnum("share_scope", [
+  "project",
+  "folder",
+  "file",
+])
+
+// Read-only links to a project, folder or file for people without an
+// account. folder_id or file_id is set for the matching scope.
+export const shareLinksTable = pgTable(
+  "share_links",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    scope: shareScopeEnum().notNull(),
+    folder_id: integer().references(() => foldersTable.id, {
+      onDelete: "cascade",
+    }),
+    file_id: integer().references(() => filesTable.id, {
+      onDelete: "cascade",
+    }),
+    token: text("token").notNull(),
+    password_hash: text("password_hash"), // never synced to clients
+    has_password: boolean("has_password").notNull().default(false),
+    expires_at: timestamp("expires_at", { withTimezone: true }),
+    access_count: integer().notNull().default(0),
+    last_accessed_at: timestamp("last_accessed_at", { withTimezone: true }),
+    created_by: text("created_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    created_at: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      uniqueToken: uniqueIndex("share_links_token_unique").on(table.token),
+      idxProject: index("share_links_project_idx").on(table.project_id),
+    }
+  }
+)
+
+export const activityActionEnum = pgEnum("activity_action", [
+  "create",
+  "update",
+  "delete",
+  "restore",
+])
+
+export const activityTargetEnum = pgEnum("activity_target", [
+  "project",
+  "folder",
+  "file",
+  "todo",
+])
+
+// Who changed what in a project, written by the server in the transaction
+// of each change, see src/lib/activity.ts. The actor and target names are
+// kept as they were so the feed still reads after they change or go away.
+export const activityEventsTable = pgTable(
+  "activity_events",
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    project_id: integer()
+      .notNull()
+      .references(() => projectsTable.id, { onDelete: "cascade" }),
+    actor_id: text("actor_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    actor_name: text("actor_name").notNull(),
+    action: activityActionEnum().notNull(),
+    target_type: activityTargetEnum().notNull(),
+    target_id: integer().notNull(),
+    target_name: text("target_name").notNull(),
+    created_at: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => {
+    return {
+      idxProjectCreated: index("activity_events_project_created_idx").on(
+        table.project_id,
+        table.created_at
+      ),
     }
   }
 )
@@ -112,8 +473,31 @@ export const filesTable = pgTable(
 export const projectsRelations = relations(projectsTable, ({ many }) => ({
   folders: many(foldersTable),
   files: many(filesTable),
+  members: many(projectMembersTable),
+  invitations: many(projectInvitationsTable),
+  shareLinks: many(shareLinksTable),
 }))
 
+export const projectMembersRelations = relations(
+  projectMembersTable,
+  ({ one }) => ({
+    project: one(projectsTable, {
+      fields: [projectMembersTable.project_id],
+      references: [projectsTable.id],
+    }),
+  })
+)
+
+export const projectInvitationsRelations = relations(
+  projectInvitationsTable,
+  ({ one }) => ({
+    project: one(projectsTable, {
+      fields: [projectInvitationsTable.project_id],
+      references: [projectsTable.id],
+    }),
+  })
+)
+
 export const foldersRelations = relations(foldersTable, ({ one, many }) => ({
   project: one(projectsTable, {
     fields: [foldersTable.project_id],
@@ -127,7 +511,7 @@ export const foldersRelations = relations(foldersTable, ({ one, many }) => ({
   files: many(filesTable),
 }))
 
-export const filesRelations = relations(filesTable, ({ one }) => ({
+export const filesRelations = relations(filesTable, ({ one, many }) => ({
   project: one(projectsTable, {
     fields: [filesTable.project_id],
     references: [projectsTable.id],
@@ -136,16 +520,99 @@ export const filesRelations = relations(filesTable, ({ one }) => ({
     fields: [filesTable.folder_id],
     references: [foldersTable.id],
   }),
+  updates: many(fileUpdatesTable),
+  versions: many(fileVersionsTable),
 }))
 
+export const fileUpdatesRelations = relations(fileUpdatesTable, ({ one }) => ({
+  file: one(filesTable, {
+    fields: [fileUpdatesTable.file_id],
+    references: [filesTable.id],
+  }),
+}))
+
+export const fileVersionsRelations = relations(
+  fileVersionsTable,
+  ({ one }) => ({
+    file: one(filesTable, {
+      fields: [fileVersionsTable.file_id],
+      references: [filesTable.id],
+    }),
+  })
+)
+
 // Schemas for projects
 export const selectProjectSchema = createSelectSchema(projectsTable)
 export const createProjectSchema = createInsertSchema(projectsTable)
   .omit({
     created_at: true,
+    member_ids: true,
   })
   .openapi(`CreateProject`)
-export const updateProjectSchema = createUpdateSchema(projectsTable)
+export const updateProjectSchema = createUpdateSchema(projectsTable).omit({
+  owner_id: true,
+  member_ids: true,
+})
+
+// Schemas for project members
+export const selectProjectMemberSchema = createSelectSchema(projectMembersTable)
+export const createProjectMemberSchema = createInsertSchema(projectMembersTable)
+  .omit({
+    created_at: true,
+  })
+  .openapi(`CreateProjectMember`)
+export const updateProjectMemberSchema = z
+  .object({
+    role: z.enum(projectRoleEnum.enumValues),
+  })
+  .openapi(`UpdateProjectMember`)
+
+// Schemas for project invitations. The server fills in the token, expiry,
+// names and invitee when an invitation is created.
+export const selectProjectInvitationSchema = createSelectSchema(
+  projectInvitationsTable
+)
+// Invitations as the owners of their project see them. The token is only
+// ever sent to the invitee.
+export const selectSentInvitationSchema = selectProjectInvitationSchema.omit({
+  token: true,
+})
+export const createProjectInvitationSchema = createInsertSchema(
+  projectInvitationsTable
+)
+  .pick({
+    project_id: true,
+    email: true,
+    role: true,
+    invited_by: true,
+  })
+  .extend({
+    email: z.string().trim().email(),
+  })
+  .openapi(`CreateProjectInvitation`)
+export const updateProjectInvitationSchema = z
+  .object({})
+  .openapi(`UpdateProjectInvitation`)
+
+// Schemas for share links. The password is only ever sent when creating a
+// link and is stored hashed.
+export const selectShareLinkSchema = createSelectSchema(shareLinksTable).omit({
+  password_hash: true,
+})
+export const createShareLinkSchema = createInsertSchema(shareLinksTable)
+  .pick({
+    project_id: true,
+    scope: true,
+    folder_id: true,
+    file_id: true,
+    created_by: true,
+  })
+  .extend({
+    password: z.string().min(1).optional(),
+    expires_at: z.coerce.date().nullable().optional(),
+  })
+  .openapi(`CreateShareLink`)
+export const updateShareLinkSchema = z.object({}).openapi(`UpdateShareLink`)
 
 // Schemas for todos
 export const selectTodoSchema = createSelectSchema(todosTable)
@@ -154,7 +621,10 @@ export const createTodoSchema = createInsertSchema(todosTable)
     created_at: true,
   })
   .openapi(`CreateTodo`)
-export const updateTodoSchema = createUpdateSchema(todosTable)
+// Todos stay in the project they were created in
+export const updateTodoSchema = createUpdateSchema(todosTable).omit({
+  project_id: true,
+})
 
 // Schemas for folders
 export const selectFolderSchema = createSelectSchema(foldersTable)
@@ -162,9 +632,15 @@ export const createFolderSchema = createInsertSchema(foldersTable)
   .omit({
     created_at: true,
     updated_at: true,
+    deleted_at: true,
+    deleted_by: true,
   })
   .openapi(`CreateFolder`)
-export const updateFolderSchema = createUpdateSchema(foldersTable)
+// Items are only trashed and restored through their own routes
+export const updateFolderSchema = createUpdateSchema(foldersTable).omit({
+  deleted_at: true,
+  deleted_by: true,
+})
 
 // Schemas for files (manual definition due to custom bytea type)
 export const selectFileSchema = z.object({
@@ -172,7 +648,14 @@ export const selectFileSchema = z.object({
   project_id: z.number(),
   folder_id: z.number().nullable(),
   name: z.string(),
+  kind: z.enum(fileKindEnum.enumValues),
   loro_snapshot: z.instanceof(Uint8Array).nullable(),
+  language: z.string().nullable(),
+  mime_type: z.string().nullable(),
+  size: z.number().nullable(),
+  blob_hash: z.string().nullable(),
+  deleted_at: z.date().nullable(),
+  deleted_by: z.string().nullable(),
   created_at: z.date(),
   updated_at: z.date(),
 })
@@ -184,23 +667,130 @@ export const createFileSchema = z
     folder_id: z.number().nullable(),
     name: z.string(),
     loro_snapshot: z.string().nullable().optional(), // base64 string for API transport
+    language: z.string().max(64).nullable().optional(),
   })
   .openapi(`CreateFile`)
 
+// Files stay in the project they were created in
 export const updateFileSchema = z.object({
-  project_id: z.number().optional(),
   folder_id: z.number().nullable().optional(),
   name: z.string().optional(),
   loro_snapshot: z.string().nullable().optional(), // base64 string for API transport
+  language: z.string().max(64).nullable().optional(),
+})
+
+// Schemas for file updates (manual definition due to custom bytea type)
+export const selectFileUpdateSchema = z.object({
+  id: z.number(),
+  file_id: z.number(),
+  project_id: z.number(),
+  seq: z.number(),
+  loro_update: z.instanceof(Uint8Array),
+  author_id: z.string(),
+  created_at: z.date(),
+})
+
+// seq is assigned by the server when the update is appended
+export const createFileUpdateSchema = z
+  .object({
+    file_id: z.number(),
+    project_id: z.number(),
+    author_id: z.string(),
+    loro_update: z.string(), // base64 string for API transport
+  })
+  .openapi(`CreateFileUpdate`)
+
+// Updates are immutable once appended
+export const updateFileUpdateSchema = z.object({})
+
+// Schemas for file versions (manual definition due to custom bytea type)
+export const selectFileVersionSchema = z.object({
+  id: z.number(),
+  file_id: z.number(),
+  project_id: z.number(),
+  name: z.string().nullable(),
+  loro_snapshot: z.instanceof(Uint8Array),
+  author_id: z.string(),
+  created_at: z.date(),
 })
 
+export const createFileVersionSchema = z
+  .object({
+    file_id: z.number(),
+    project_id: z.number(),
+    name: z.string().max(255).nullable(),
+    author_id: z.string(),
+    loro_snapshot: z.string(), // base64 string for API transport
+  })
+  .openapi(`CreateFileVersion`)
+
+// Only the name of a version can change; its contents are immutable
+export const updateFileVersionSchema = z
+  .object({
+    name: z.string().max(255).nullable(),
+  })
+  .openapi(`UpdateFileVersion`)
+
+// Schemas for activity events, which only the server writes
+export const selectActivityEventSchema = createSelectSchema(activityEventsTable)
+export const createActivityEventSchema = z
+  .object({})
+  .openapi(`CreateActivityEvent`)
+export const updateActivityEventSchema = z
+  .object({})
+  .openapi(`UpdateActivityEvent`)
+
+// Schemas for presence (manual definition due to custom bytea type)
+export const selectPresenceSchema = z.object({
+  id: z.number(),
+  project_id: z.number(),
+  file_id: z.number().nullable(),
+  user_id: z.string(),
+  ephemeral: z.instanceof(Uint8Array).nullable(),
+  updated_at: z.date(),
+})
+
+export const createPresenceSchema = z
+  .object({
+    id: z.number().int().positive(),
+    project_id: z.number(),
+    file_id: z.number().nullable(),
+    user_id: z.string(),
+    ephemeral: z.string().nullable(), // base64 string for API transport
+  })
+  .openapi(`CreatePresence`)
+
+export const updatePresenceSchema = z
+  .object({
+    file_id: z.number().nullable().optional(),
+    ephemeral: z.string().nullable().optional(), // base64 string for API transport
+  })
+  .openapi(`UpdatePresence`)
+
 export type Project = z.infer<typeof selectProjectSchema>
 export type UpdateProject = z.infer<typeof updateProjectSchema>
+export type ProjectRole = (typeof projectRoleEnum.enumValues)[number]
+export type ProjectMember = z.infer<typeof selectProjectMemberSchema>
+export type ProjectInvitation = z.infer<typeof selectProjectInvitationSchema>
+export type SentInvitation = z.infer<typeof selectSentInvitationSchema>
+export type ShareLink = z.infer<typeof selectShareLinkSchema>
+export type ShareScope = (typeof shareScopeEnum.enumValues)[number]
+export type InvitationStatus = (typeof invitationStatusEnum.enumValues)[number]
 export type Todo = z.infer<typeof selectTodoSchema>
 export type UpdateTodo = z.infer<typeof updateTodoSchema>
 export type Folder = z.infer<typeof selectFolderSchema>
 export type UpdateFolder = z.infer<typeof updateFolderSchema>
 export type File = z.infer<typeof selectFileSchema>
+export type FileKind = (typeof fileKindEnum.enumValues)[number]
 export type UpdateFile = z.infer<typeof updateFileSchema>
+export type FileUpdate = z.infer<typeof selectFileUpdateSchema>
+export type FileVersion = z.infer<typeof selectFileVersionSchema>
+export type Presence = z.infer<typeof selectPresenceSchema>
+export type ActivityEvent = z.infer<typeof selectActivityEventSchema>
+export type ActivityAction = (typeof activityActionEnum.enumValues)[number]
+export type ActivityTarget = (typeof activityTargetEnum.enumValues)[number]
 
-export const selectUsersSchema = createSelectSchema(users)
+// peer_ids stays on the server and is not synced
+export const selectUsersSchema = createSelectSchema(users).omit({
+  peer_ids: true,
+})
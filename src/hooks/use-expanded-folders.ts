@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from "react"
+
+const loadExpanded = (storageKey: string): Set<number> => {
+  if (typeof window === `undefined`) return new Set()
+  try {
+    const stored = window.localStorage.getItem(storageKey)
+    return new Set(stored ? (JSON.parse(stored) as number[]) : [])
+  } catch (_error) {
+    return new Set()
+  }
+}
+
+// Notified with the storage key whenever expanded folders change, so every
+// component showing the same tree stays in step
+const listeners = new Set<(storageKey: string) => void>()
+
+/**
+ * Tracks which folders of a project are expanded in the explorer,
+ * remembered in localStorage per user and project
+ * @param projectId - Project whose tree is shown
+ * @param userId - Current user, so people sharing a browser keep their own state
+ */
+export function useExpandedFolders(
+  projectId: number,
+  userId: string | undefined
+) {
+  const storageKey = `explorer-expanded:${userId ?? ``}:${projectId}`
+  const [expanded, setExpanded] = useState(() => loadExpanded(storageKey))
+
+  useEffect(() => {
+    setExpanded(loadExpanded(storageKey))
+    const listener = (changedKey: string) => {
+      if (changedKey === storageKey) setExpanded(loadExpanded(storageKey))
+    }
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }, [storageKey])
+
+  const setFolderExpanded = useCallback(
+    (folderId: number, isExpanded: boolean) => {
+      // Stored state is the source of truth, shared by every hook instance
+      const next = loadExpanded(storageKey)
+      if (next.has(folderId) === isExpanded) return
+      if (isExpanded) {
+        next.add(folderId)
+      } else {
+        next.delete(folderId)
+      }
+      window.localStorage.setItem(storageKey, JSON.stringify([...next]))
+      listeners.forEach((listener) => listener(storageKey))
+    },
+    [storageKey]
+  )
+
+  return { expanded, setFolderExpanded }
+}
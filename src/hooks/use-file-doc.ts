@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useLiveQuery, eq } from "@tanstack/react-db"
+import { LoroDoc } from "loro-crdt"
+import { getProjectCollections } from "@/lib/collections"
+import {
+  exportLocalChanges,
+  getFileText,
+  getLocalCounter,
+  importFileSnapshot,
+} from "@/lib/loro"
+
+// How long the editor waits after the last keystroke before uploading
+const SAVE_DEBOUNCE_MS = 400
+// How long the editor waits before retrying a failed upload
+const SAVE_RETRY_MS = 3000
+
+export type SaveStatus = "saved" | "unsaved" | "saving" | "error"
+
+/**
+ * Keeps a live Loro document for a file in sync with Electric
+ *
+ * Remote snapshots and updates are imported as they arrive through
+ * the file and file update collections of its project. Local edits are
+ * uploaded continuously as small updates, debounced while the user is typing.
+ * @param projectId - Project the file belongs to
+ * @param fileId - File to open
+ * @param authorId - User the uploaded updates are attributed to
+ */
+export function useFileDoc(
+  projectId: number,
+  fileId: number,
+  authorId: string | undefined
+) {
+  const { filesCollection, fileUpdatesCollection } =
+    getProjectCollections(projectId)
+  const [status, setStatus] = useState<SaveStatus>("saved")
+  const doc = useMemo(() => new LoroDoc(), [fileId])
+  const importedSnapshot = useRef<Uint8Array | null>(null)
+  const importedUpdates = useRef(new Set<number>())
+  // Local counter up to which the server has stored our own operations,
+  // and whether an upload is in flight. Kept per document so an upload of
+  // the previous file can't move the counter of the next one.
+  const upload = useMemo(() => ({ counter: 0, inFlight: false }), [doc])
+
+  const { data: files } = useLiveQuery(
+    (q) =>
+      q
+        .from({ filesCollection })
+        .where(({ filesCollection }) => eq(filesCollection.id, fileId)),
+    [projectId, fileId]
+  )
+  const file = files[0]
+
+  const { data: updates } = useLiveQuery(
+    (q) =>
+      q
+        .from({ fileUpdatesCollection })
+        .where(({ fileUpdatesCollection }) =>
+          eq(fileUpdatesCollection.file_id, fileId)
+        )
+        .orderBy(({ fileUpdatesCollection }) => fileUpdatesCollection.seq),
+    [projectId, fileId]
+  )
+
+  useEffect(() => {
+    importedSnapshot.current = null
+    importedUpdates.current = new Set()
+  }, [doc])
+
+  // Apply remote changes. Imports are idempotent, so our own updates
+  // coming back through Electric are harmless.
+  useEffect(() => {
+    const snapshot = file?.loro_snapshot
+    if (snapshot && snapshot !== importedSnapshot.current) {
+      importFileSnapshot(doc, snapshot)
+      importedSnapshot.current = snapshot
+    }
+
+    const fresh = updates.filter(
+      (update) => !importedUpdates.current.has(update.id)
+    )
+    if (fresh.length > 0) {
+      doc.importBatch(fresh.map((update) => update.loro_update))
+      fresh.forEach((update) => importedUpdates.current.add(update.id))
+    }
+  }, [doc, file?.loro_snapshot, updates])
+
+  // Upload local edits
+  useEffect(() => {
+    if (!file || !authorId) return
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let disposed = false
+
+    // Uploads the operations the server doesn't have yet. One upload runs at
+    // a time and the counter only moves once it is stored, so each update
+    // starts where the last stored one ended and a failed one is resent.
+    const flush = () => {
+      const counter = getLocalCounter(doc)
+      if (counter === upload.counter || upload.inFlight) return
+
+      upload.inFlight = true
+      setStatus("saving")
+      const tx = fileUpdatesCollection.insert({
+        id: Math.floor(Math.random() * 100000),
+        file_id: file.id,
+        project_id: file.project_id,
+        seq: 0, // assigned by the server
+        // Copied into a plain ArrayBuffer, as the collection row expects
+        loro_update: new Uint8Array(
+          exportLocalChanges(doc, upload.counter, counter)
+        ),
+        author_id: authorId,
+        created_at: new Date(),
+      })
+      tx.isPersisted.promise
+        .then(() => {
+          upload.inFlight = false
+          upload.counter = counter
+          if (getLocalCounter(doc) === counter) {
+            setStatus("saved")
+          } else {
+            // Edits made while this upload was in flight
+            flush()
+          }
+        })
+        .catch(() => {
+          upload.inFlight = false
+          setStatus("error")
+          if (!disposed) {
+            clearTimeout(timer)
+            timer = setTimeout(flush, SAVE_RETRY_MS)
+          }
+        })
+    }
+
+    const unsubscribe = doc.subscribeLocalUpdates(() => {
+      setStatus("unsaved")
+      clearTimeout(timer)
+      timer = setTimeout(flush, SAVE_DEBOUNCE_MS)
+    })
+    window.addEventListener("beforeunload", flush)
+
+    return () => {
+      disposed = true
+      unsubscribe()
+      window.removeEventListener("beforeunload", flush)
+      clearTimeout(timer)
+      flush()
+    }
+  }, [doc, upload, file?.id, file?.project_id, authorId])
+
+  return { doc, file, status, isLoading: !file }
+}
+
+/**
+ * Returns the text of a file document, re-rendering whenever it changes
+ * @param doc - File document to watch
+ * @param enabled - Whether to watch; pass false to avoid re-rendering on
+ *   every keystroke while the text is not needed
+ */
+export function useFileText(doc: LoroDoc, enabled = true): string {
+  const [text, setText] = useState(() => getFileText(doc))
+
+  useEffect(() => {
+    if (!enabled) return
+    setText(getFileText(doc))
+    return doc.subscribe(() => setText(getFileText(doc)))
+  }, [doc, enabled])
+
+  return text
+}
@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useLiveQuery, eq } from "@tanstack/react-db"
+import { EphemeralStore } from "loro-crdt"
+import type { EphemeralState, UserState } from "loro-codemirror"
+import { getProjectCollections } from "@/lib/collections"
+import {
+  PRESENCE_HEARTBEAT_MS,
+  PRESENCE_TTL_MS,
+  createPresenceId,
+  getPresenceColor,
+  isPresenceFresh,
+} from "@/lib/presence"
+
+// How long cursor movements are batched before they are uploaded
+const PRESENCE_THROTTLE_MS = 150
+
+interface PresenceOptions {
+  projectId: number
+  /** File being viewed, or null while browsing the project */
+  fileId: number | null
+  user: { id: string; name: string } | undefined
+}
+
+/**
+ * Announces that the current tab is viewing a project or file
+ *
+ * A presence row is kept alive with a heartbeat for as long as the
+ * component is mounted. While a file is open, the returned ephemeral store
+ * carries cursors and selections: local changes are uploaded with the row
+ * and the rows of other viewers of the same file are applied to it.
+ * @returns Ephemeral store and user state to hand to the file editor
+ */
+export function usePresence({ projectId, fileId, user }: PresenceOptions) {
+  const ephemeral = useMemo(
+    () => new EphemeralStore<EphemeralState>(PRESENCE_TTL_MS),
+    [fileId]
+  )
+  const appliedStates = useRef(new Map<number, Uint8Array>())
+  const userId = user?.id
+  const { presenceCollection } = getProjectCollections(projectId)
+
+  const presenceUser = useMemo<UserState | undefined>(
+    () =>
+      user && {
+        name: user.name,
+        colorClassName: getPresenceColor(user.id).className,
+      },
+    [user?.id, user?.name]
+  )
+
+  const { data: viewers } = useLiveQuery(
+    (q) =>
+      q
+        .from({ presenceCollection })
+        .where(({ presenceCollection }) =>
+          eq(presenceCollection.file_id, fileId)
+        ),
+    [projectId, fileId]
+  )
+
+  useEffect(() => {
+    appliedStates.current = new Map()
+    return () => ephemeral.destroy()
+  }, [ephemeral])
+
+  // Apply cursors of the other viewers of this file. Our own row comes back
+  // too, but re-applying our own state is a no-op.
+  useEffect(() => {
+    for (const viewer of viewers) {
+      if (!viewer.ephemeral || !isPresenceFresh(viewer)) continue
+      if (appliedStates.current.get(viewer.id) === viewer.ephemeral) continue
+      ephemeral.apply(viewer.ephemeral)
+      appliedStates.current.set(viewer.id, viewer.ephemeral)
+    }
+  }, [ephemeral, viewers])
+
+  // Keep our own row alive and upload local cursor changes
+  useEffect(() => {
+    if (!userId) return
+
+    const id = createPresenceId()
+    // Mirror of the keys this tab owns, so uploads never echo the state of
+    // other viewers back to the server
+    const own = new EphemeralStore<EphemeralState>(PRESENCE_TTL_MS)
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    // Writes are chained so an update never overtakes the insert of the row
+    let pending: Promise<unknown> = presenceCollection.insert({
+      id,
+      project_id: projectId,
+      file_id: fileId,
+      user_id: userId,
+      ephemeral: null,
+      updated_at: new Date(),
+    }).isPersisted.promise
+
+    const writeState = async () => {
+      const state = new Uint8Array(own.encodeAll())
+      // The row is gone if the server purged it while we were offline
+      if (presenceCollection.has(id)) {
+        await presenceCollection.update(id, (draft) => {
+          draft.ephemeral = state
+          draft.updated_at = new Date()
+        }).isPersisted.promise
+      } else {
+        await presenceCollection.insert({
+          id,
+          project_id: projectId,
+          file_id: fileId,
+          user_id: userId,
+          ephemeral: state,
+          updated_at: new Date(),
+        }).isPersisted.promise
+      }
+    }
+
+    const flush = () => {
+      timer = undefined
+      pending = pending.catch(() => {}).then(writeState)
+    }
+
+    const schedule = () => {
+      if (timer === undefined) {
+        timer = setTimeout(flush, PRESENCE_THROTTLE_MS)
+      }
+    }
+
+    const unsubscribe = ephemeral.subscribeLocalUpdates((update) => {
+      own.apply(update)
+      schedule()
+    })
+
+    // Re-set our keys so they outlive the TTL in other viewers' stores
+    const heartbeat = setInterval(() => {
+      for (const key of own.keys() as (keyof EphemeralState)[]) {
+        const value = ephemeral.get(key)
+        if (value !== undefined) ephemeral.set(key, value)
+      }
+      schedule()
+    }, PRESENCE_HEARTBEAT_MS)
+
+    return () => {
+      unsubscribe()
+      clearInterval(heartbeat)
+      clearTimeout(timer)
+      own.destroy()
+      pending
+        .catch(() => {})
+        .then(() => {
+          if (presenceCollection.has(id)) presenceCollection.delete(id)
+        })
+    }
+  }, [ephemeral, projectId, fileId, userId])
+
+  return { ephemeral, user: presenceUser }
+}
+
+/**
+ * Lists the users currently viewing a project, one entry per user
+ * @param projectId - Project to list viewers for
+ * @param excludeUserId - User to leave out, usually the current one
+ * @returns Viewers with the files they have open
+ */
+export function useProjectViewers(projectId: number, excludeUserId?: string) {
+  const [now, setNow] = useState(() => Date.now())
+  const { presenceCollection } = getProjectCollections(projectId)
+
+  const { data: rows } = useLiveQuery(
+    (q) => q.from({ presenceCollection }),
+    [projectId]
+  )
+
+  // Rows expire without any change being synced, so re-check periodically
+  useEffect(() => {
+    const interval = setInterval(
+      () => setNow(Date.now()),
+      PRESENCE_HEARTBEAT_MS
+    )
+    return () => clearInterval(interval)
+  }, [])
+
+  return useMemo(() => {
+    const viewers = new Map<string, { userId: string; fileIds: number[] }>()
+    for (const row of rows) {
+      if (row.user_id === excludeUserId || !isPresenceFresh(row, now)) continue
+      const viewer = viewers.get(row.user_id) ?? {
+        userId: row.user_id,
+        fileIds: [],
+      }
+      if (row.file_id !== null && !viewer.fileIds.includes(row.file_id)) {
+        viewer.fileIds.push(row.file_id)
+      }
+      viewers.set(row.user_id, viewer)
+    }
+    return [...viewers.values()]
+  }, [rows, excludeUserId, now])
+}
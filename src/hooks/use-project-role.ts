@@ -0,0 +1,26 @@
+import { useLiveQuery, eq } from "@tanstack/react-db"
+import { getProjectCollections } from "@/lib/collections"
+import { type ProjectRole } from "@/db/schema"
+
+/**
+ * Returns the role of a user in a project
+ * @param projectId - Project to look in
+ * @param userId - User whose role is needed
+ * @returns The role, or null while loading or if the user is not a member
+ */
+export function useProjectRole(
+  projectId: number,
+  userId: string | undefined
+): ProjectRole | null {
+  const { projectMembersCollection } = getProjectCollections(projectId)
+  const { data: members } = useLiveQuery(
+    (q) =>
+      q
+        .from({ projectMembersCollection })
+        .where(({ projectMembersCollection }) =>
+          eq(projectMembersCollection.user_id, userId ?? ``)
+        ),
+    [projectId, userId]
+  )
+  return members[0]?.role ?? null
+}
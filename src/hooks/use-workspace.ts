@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react"
+import {
+  createWorkspace,
+  openTab,
+  parseWorkspace,
+  type WorkspaceState,
+} from "@/lib/workspace"
+
+const loadWorkspace = (storageKey: string): WorkspaceState => {
+  if (typeof window === `undefined`) return createWorkspace()
+  try {
+    const stored = window.localStorage.getItem(storageKey)
+    return (stored && parseWorkspace(JSON.parse(stored))) || createWorkspace()
+  } catch (_error) {
+    return createWorkspace()
+  }
+}
+
+/**
+ * Tracks the open editor tabs and split panes of a project, remembered in
+ * localStorage per user and project. The file in the URL is always open
+ * in the focused group.
+ * @param projectId - Project the workspace belongs to
+ * @param userId - Current user, so people sharing a browser keep their own tabs
+ * @param fileId - File opened by the current route
+ */
+export function useWorkspace(
+  projectId: number,
+  userId: string | undefined,
+  fileId: number
+) {
+  const storageKey = `workspace:${userId ?? ``}:${projectId}`
+  const [workspace, setWorkspace] = useState(() =>
+    openTab(loadWorkspace(storageKey), fileId)
+  )
+
+  useEffect(() => {
+    setWorkspace(loadWorkspace(storageKey))
+  }, [storageKey])
+
+  const updateWorkspace = useCallback(
+    (change: (state: WorkspaceState) => WorkspaceState) => {
+      setWorkspace((previous) => {
+        const next = change(previous)
+        if (next !== previous) {
+          window.localStorage.setItem(storageKey, JSON.stringify(next))
+        }
+        return next
+      })
+    },
+    [storageKey]
+  )
+
+  useEffect(() => {
+    updateWorkspace((state) => openTab(state, fileId))
+  }, [fileId, updateWorkspace])
+
+  return { workspace, updateWorkspace, layoutKey: `${storageKey}:layout` }
+}
@@ -0,0 +1,162 @@
+import { desc, eq } from "drizzle-orm"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import { db } from "@/db/connection"
+import {
+  activityEventsTable,
+  type ActivityAction,
+  createTodoSchema,
+  selectTodoSchema,
+  todosTable,
+  updateTodoSchema,
+} from "@/db/schema"
+import { createTestProject, createTestUser } from "@/db/test-database"
+import { recordActivity } from "@/lib/activity"
+import { createCRUDRoutes } from "@/lib/createCRUDRoutes"
+
+vi.mock(`@/db/connection`, async () => {
+  const { createTestDatabase } = await import(`@/db/test-database`)
+  return { db: await createTestDatabase() }
+})
+
+vi.mock(`@/lib/auth`, () => ({
+  auth: {
+    api: {
+      getSession: async () => ({
+        user: { id: `ada`, email: `ada@example.com` },
+      }),
+    },
+  },
+}))
+
+let projectId: number
+
+beforeAll(async () => {
+  await createTestUser(db, `ada`)
+  projectId = await createTestProject(db, { ada: `owner` })
+})
+
+/** Todo routes recording the given actions, as the app's are configured */
+const todoRoutes = (actions?: ActivityAction[]) =>
+  createCRUDRoutes({
+    table: todosTable,
+    schema: {
+      select: selectTodoSchema,
+      create: createTodoSchema,
+      update: updateTodoSchema,
+    },
+    basePath: `/api/todos`,
+    activity: {
+      targetType: `todo`,
+      getProjectId: (item) => item.project_id,
+      getName: (item) => item.text,
+      actions,
+    },
+    access: {
+      update: (_session, _id, data) => {
+        if (data.text === `forbidden`) {
+          throw new Error(`This text isn't allowed`)
+        }
+        return true
+      },
+    },
+  })
+
+const send = (
+  app: ReturnType<typeof todoRoutes>,
+  method: string,
+  path: string,
+  body?: object
+) =>
+  app.request(`http://localhost/api/todos${path}`, {
+    method,
+    headers: { "content-type": `application/json` },
+    body: body && JSON.stringify(body),
+  })
+
+const createTodo = async (app: ReturnType<typeof todoRoutes>, text: string) => {
+  const response = await send(app, `POST`, ``, {
+    text,
+    user_id: `ada`,
+    project_id: projectId,
+  })
+  expect(response.status).toBe(200)
+  return (await response.json()).item.id as number
+}
+
+const eventsFor = (todoId: number) =>
+  db
+    .select()
+    .from(activityEventsTable)
+    .where(eq(activityEventsTable.target_id, todoId))
+    .orderBy(activityEventsTable.id)
+
+describe(`recordActivity`, () => {
+  it(`stores the event with the name of the actor`, async () => {
+    await db.transaction((tx) =>
+      recordActivity(tx, {
+        project_id: projectId,
+        actor_id: `ada`,
+        action: `restore`,
+        target_type: `file`,
+        target_id: 999,
+        target_name: `notes.md`,
+      })
+    )
+    const [event] = await db
+      .select()
+      .from(activityEventsTable)
+      .orderBy(desc(activityEventsTable.id))
+      .limit(1)
+    expect(event).toMatchObject({
+      project_id: projectId,
+      actor_id: `ada`,
+      actor_name: `ada`,
+      action: `restore`,
+      target_name: `notes.md`,
+    })
+  })
+})
+
+describe(`activity of CRUD routes`, () => {
+  it(`records creates, updates and deletes in the item's project`, async () => {
+    const app = todoRoutes()
+    const id = await createTodo(app, `Write tests`)
+    await send(app, `PUT`, `/${id}`, { text: `Write more tests` })
+    await send(app, `DELETE`, `/${id}`)
+
+    expect(
+      (await eventsFor(id)).map((event) => [
+        event.action,
+        event.target_type,
+        event.target_name,
+        event.project_id,
+        event.actor_id,
+      ])
+    ).toEqual([
+      [`create`, `todo`, `Write tests`, projectId, `ada`],
+      [`update`, `todo`, `Write more tests`, projectId, `ada`],
+      [`delete`, `todo`, `Write more tests`, projectId, `ada`],
+    ])
+  })
+
+  it(`only records the configured actions`, async () => {
+    const app = todoRoutes([`create`])
+    const id = await createTodo(app, `Quiet`)
+    await send(app, `PUT`, `/${id}`, { text: `Still quiet` })
+
+    expect((await eventsFor(id)).map((event) => event.action)).toEqual([
+      `create`,
+    ])
+  })
+
+  it(`records nothing for a rejected write`, async () => {
+    const app = todoRoutes()
+    const id = await createTodo(app, `Guarded`)
+    const response = await send(app, `PUT`, `/${id}`, { text: `forbidden` })
+
+    expect(response.status).toBe(403)
+    expect((await eventsFor(id)).map((event) => event.action)).toEqual([
+      `create`,
+    ])
+  })
+})
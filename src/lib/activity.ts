@@ -0,0 +1,31 @@
+import { sql } from "drizzle-orm"
+import {
+  activityEventsTable,
+  type ActivityAction,
+  type ActivityTarget,
+} from "@/db/schema"
+import { users } from "@/db/auth-schema"
+import type { Transaction } from "@/lib/createCRUDRoutes"
+
+/**
+ * Adds an event to the activity feed of a project. Runs in the transaction
+ * of the change, so the event syncs together with it.
+ * @param tx - Transaction the change was made in
+ * @param event - The change, with the user who made it as actor
+ */
+export async function recordActivity(
+  tx: Transaction,
+  event: {
+    project_id: number
+    actor_id: string
+    action: ActivityAction
+    target_type: ActivityTarget
+    target_id: number
+    target_name: string
+  }
+) {
+  await tx.insert(activityEventsTable).values({
+    ...event,
+    actor_name: sql`(SELECT ${users.name} FROM ${users} WHERE ${users.id} = ${event.actor_id})`,
+  })
+}
@@ -0,0 +1,184 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import { eq } from "drizzle-orm"
+import { bodyLimit } from "hono/body-limit"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import { projectsTable } from "@/db/schema"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  ValidationError,
+  generateTxId,
+  getUniqueViolation,
+} from "@/lib/createCRUDRoutes"
+import {
+  ImportConflictError,
+  importProjectArchive,
+  streamProjectArchive,
+} from "@/lib/project-archive"
+import { assertProjectRole } from "@/lib/project-access"
+
+// Most files accepted in one import
+const MAX_IMPORT_FILES = 5000
+// Longest file accepted in an import, in characters
+const MAX_IMPORT_FILE_LENGTH = 1024 * 1024
+// Largest import request, in bytes
+const MAX_IMPORT_SIZE = 25 * 1024 * 1024
+
+/**
+ * Name of a downloaded archive: the project name with anything that isn't
+ * safe in a file name replaced
+ */
+const getArchiveName = (projectName: string) =>
+  `${projectName.replace(/[^\w.-]+/g, `-`).replace(/^-+|-+$/g, ``) || `project`}.zip`
+
+/**
+ * Export of a project as a zip of its folders and file text, for any member,
+ * and import of such an archive, for editors
+ */
+export const archiveRoutes = new OpenAPIHono()
+  .openapi(
+    createRoute({
+      path: `/api/projects/{id}/export`,
+      method: "get",
+      request: {
+        params: z.object({ id: z.coerce.number().int() }),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: {
+          description: "Zip of the project's folders and files",
+          content: { "application/zip": { schema: z.any() } },
+        },
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "Not a member of the project",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { id } = c.req.valid("param")
+      let project
+      try {
+        project = await db.transaction(async (tx) => {
+          await assertProjectRole(tx, id, session.user.id, "viewer")
+          const [row] = await tx
+            .select({ name: projectsTable.name })
+            .from(projectsTable)
+            .where(eq(projectsTable.id, id))
+          return row
+        })
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        throw error
+      }
+
+      return c.body(streamProjectArchive(id), HttpStatusCodes.OK, {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${getArchiveName(project?.name ?? ``)}"`,
+      })
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/projects/{id}/import`,
+      method: "post",
+      middleware: [bodyLimit({ maxSize: MAX_IMPORT_SIZE })],
+      request: {
+        params: z.object({ id: z.coerce.number().int() }),
+        body: jsonContentRequired(
+          z.object({
+            folder_id: z.number().int().nullable(),
+            folders: z.array(z.string().min(1)).max(MAX_IMPORT_FILES),
+            files: z
+              .array(
+                z.object({
+                  path: z.string().min(1),
+                  content: z.string().max(MAX_IMPORT_FILE_LENGTH),
+                })
+              )
+              .max(MAX_IMPORT_FILES),
+          }),
+          "Folders and files to create, with paths relative to folder_id"
+        ),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            txid: z.number(),
+            folders: z.number(),
+            files: z.number(),
+          }),
+          "How many folders and files were created"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "Not an editor of the project",
+        },
+        [HttpStatusCodes.CONFLICT]: jsonContent(
+          z.object({ error: z.string(), conflicts: z.array(z.string()) }),
+          "Paths whose names are already taken; nothing was imported"
+        ),
+        [HttpStatusCodes.REQUEST_TOO_LONG]: {
+          description: "The import is larger than MAX_IMPORT_SIZE",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "A path or the destination folder is invalid",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { id } = c.req.valid("param")
+      const { folder_id, folders, files } = c.req.valid("json")
+
+      try {
+        const result = await db.transaction(async (tx) => {
+          await assertProjectRole(tx, id, session.user.id, "editor")
+          const txid = await generateTxId(tx)
+          const created = await importProjectArchive(tx, id, folder_id, {
+            folders,
+            files,
+          })
+          return { txid, ...created }
+        })
+        return c.json(result, HttpStatusCodes.OK)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        if (error instanceof ImportConflictError) {
+          return c.json(
+            { error: error.message, conflicts: error.conflicts },
+            HttpStatusCodes.CONFLICT
+          )
+        }
+        // Someone created an item with the same name while importing
+        if (getUniqueViolation(error) !== undefined) {
+          return c.json(
+            {
+              error: `An item with the same name was created while importing`,
+              conflicts: [],
+            },
+            HttpStatusCodes.CONFLICT
+          )
+        }
+        throw error
+      }
+    }
+  )
@@ -0,0 +1,140 @@
+import { unzipSync } from "fflate"
+
+/** A text file read from an archive or a dropped directory */
+export interface ArchiveFile {
+  /** Path relative to the folder imported into, e.g. "src/index.ts" */
+  path: string
+  content: string
+}
+
+/** Files and folders to import into a project */
+export interface ArchiveContents {
+  /** Folder paths, including ones with nothing in them */
+  folders: string[]
+  files: ArchiveFile[]
+  /** Paths left out because they aren't text */
+  skipped: string[]
+}
+
+// Entries that operating systems add to archives and directories
+const IGNORED_NAMES = new Set([`__MACOSX`, `.DS_Store`, `Thumbs.db`])
+
+/**
+ * Splits a path into its folder and file names, dropping empty and "."
+ * segments
+ * @returns The names, or null if the path leaves the folder it is read from
+ */
+export function splitArchivePath(path: string): string[] | null {
+  const names = path
+    .replace(/\\/g, `/`)
+    .split(`/`)
+    .filter((name) => name !== `` && name !== `.`)
+  return names.includes(`..`) ? null : names
+}
+
+const isIgnored = (names: string[]) =>
+  names.some((name) => IGNORED_NAMES.has(name))
+
+/**
+ * Decodes UTF-8 text, or returns null for content that isn't valid text
+ */
+export const decodeText = (data: Uint8Array): string | null => {
+  try {
+    const text = new TextDecoder(`utf-8`, { fatal: true }).decode(data)
+    return text.includes(`\0`) ? null : text
+  } catch (_error) {
+    return null
+  }
+}
+
+/**
+ * Adds a file to the contents being built, or to the skipped paths if it
+ * isn't text
+ */
+const addFile = (contents: ArchiveContents, path: string, data: Uint8Array) => {
+  const content = decodeText(data)
+  if (content === null) {
+    contents.skipped.push(path)
+  } else {
+    contents.files.push({ path, content })
+  }
+}
+
+/**
+ * Reads the text files and folders of a zip archive
+ * @param archive - The .zip file
+ */
+export async function readZipArchive(archive: Blob): Promise<ArchiveContents> {
+  const entries = unzipSync(new Uint8Array(await archive.arrayBuffer()))
+  const contents: ArchiveContents = { folders: [], files: [], skipped: [] }
+  for (const [path, data] of Object.entries(entries)) {
+    const names = splitArchivePath(path)
+    if (!names || names.length === 0 || isIgnored(names)) continue
+    if (path.endsWith(`/`)) {
+      contents.folders.push(names.join(`/`))
+    } else {
+      addFile(contents, names.join(`/`), data)
+    }
+  }
+  return contents
+}
+
+const readDirectoryEntries = (
+  directory: FileSystemDirectoryEntry
+): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  // readEntries returns the entries in batches until it returns none
+  return new Promise((resolve, reject) => {
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (batch.length === 0) return resolve(entries)
+        entries.push(...batch)
+        readBatch()
+      }, reject)
+    readBatch()
+  })
+}
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject))
+
+/**
+ * Reads the text files and folders dropped on the page. Dropped
+ * directories are read recursively and kept as folders; a single dropped
+ * .zip file is read as an archive.
+ * @param items - Items of the drop event's dataTransfer
+ */
+export async function readDroppedItems(
+  items: DataTransferItemList
+): Promise<ArchiveContents> {
+  // Entries must be taken before the drop event handler returns
+  const roots = [...items]
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+
+  if (roots.length === 1 && roots[0].isFile && /\.zip$/i.test(roots[0].name)) {
+    return readZipArchive(await readFileEntry(roots[0] as FileSystemFileEntry))
+  }
+
+  const contents: ArchiveContents = { folders: [], files: [], skipped: [] }
+  const visit = async (entry: FileSystemEntry, path: string) => {
+    if (IGNORED_NAMES.has(entry.name)) return
+    if (entry.isDirectory) {
+      contents.folders.push(path)
+      const children = await readDirectoryEntries(
+        entry as FileSystemDirectoryEntry
+      )
+      for (const child of children) {
+        await visit(child, `${path}/${child.name}`)
+      }
+    } else {
+      const file = await readFileEntry(entry as FileSystemFileEntry)
+      addFile(contents, path, new Uint8Array(await file.arrayBuffer()))
+    }
+  }
+  for (const root of roots) {
+    await visit(root, root.name)
+  }
+  return contents
+}
@@ -0,0 +1,307 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import { eq } from "drizzle-orm"
+import { bodyLimit } from "hono/body-limit"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import { filesTable, selectFileSchema } from "@/db/schema"
+import { auth } from "@/lib/auth"
+import { AccessDeniedError, ValidationError } from "@/lib/createCRUDRoutes"
+import { ASSET_CHUNK_SIZE, MAX_ASSET_SIZE } from "@/lib/assets"
+import {
+  completeAssetUpload,
+  readBlob,
+  startAssetUpload,
+  storeUploadChunk,
+} from "@/lib/asset-storage"
+import { assertProjectRole } from "@/lib/project-access"
+
+// Types browsers may show in the page; anything else is only downloaded,
+// so uploaded HTML or SVG can't run script on this origin
+const INLINE_MIME_TYPES = new Set([
+  `image/png`,
+  `image/jpeg`,
+  `image/gif`,
+  `image/webp`,
+  `image/avif`,
+  `image/bmp`,
+  `application/pdf`,
+  `audio/mpeg`,
+  `audio/ogg`,
+  `audio/wav`,
+  `video/mp4`,
+  `video/webm`,
+])
+
+/**
+ * Response headers for the content of an asset
+ * @param file - The asset file, with its content stored
+ * @param download - Whether to have the browser save it rather than show it
+ */
+export function getAssetHeaders(
+  file: {
+    name: string
+    mime_type: string | null
+    size: number
+    blob_hash: string
+  },
+  download: boolean
+) {
+  const mimeType = file.mime_type ?? `application/octet-stream`
+  const inline = !download && INLINE_MIME_TYPES.has(mimeType)
+  return {
+    "Content-Type": mimeType,
+    "Content-Length": String(file.size),
+    "Content-Disposition": `${inline ? `inline` : `attachment`}; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+    "X-Content-Type-Options": `nosniff`,
+    // Content is addressed by hash, so it never changes under a version
+    "Cache-Control": `private, max-age=31536000, immutable`,
+    ETag: `"${file.blob_hash}"`,
+  }
+}
+
+/**
+ * Chunked uploads of binary assets such as images and PDFs, and streaming
+ * downloads of their content. Asset content never goes through Electric;
+ * the synced file row only describes it.
+ */
+export const assetRoutes = new OpenAPIHono()
+  .openapi(
+    createRoute({
+      path: `/api/assets/uploads`,
+      method: "post",
+      request: {
+        body: jsonContentRequired(
+          z.object({
+            project_id: z.number().int(),
+            folder_id: z.number().int().nullable(),
+            name: z.string().trim().min(1).max(255),
+            mime_type: z.string().max(255),
+            size: z.number().int().min(0).max(MAX_ASSET_SIZE),
+          }),
+          "The asset to upload"
+        ),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            upload_id: z.string(),
+            chunk_size: z.number(),
+            chunk_count: z.number(),
+          }),
+          "Where to send the chunks of the content"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "Not an editor of the project",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "The folder or name can't be used",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      try {
+        const upload = await db.transaction((tx) =>
+          startAssetUpload(tx, session.user.id, c.req.valid("json"))
+        )
+        return c.json(upload, HttpStatusCodes.OK)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        throw error
+      }
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/assets/uploads/{id}/chunks/{index}`,
+      method: "put",
+      middleware: [bodyLimit({ maxSize: ASSET_CHUNK_SIZE })],
+      request: {
+        params: z.object({
+          id: z.string(),
+          index: z.coerce.number().int().min(0),
+        }),
+      },
+      responses: {
+        [HttpStatusCodes.NO_CONTENT]: {
+          description: "The chunk, sent as the raw request body, was stored",
+        },
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "No such upload of the current user",
+        },
+        [HttpStatusCodes.REQUEST_TOO_LONG]: {
+          description: "The chunk is larger than ASSET_CHUNK_SIZE",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "The chunk has the wrong index or length",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { id, index } = c.req.valid("param")
+      try {
+        await storeUploadChunk(
+          id,
+          session.user.id,
+          index,
+          new Uint8Array(await c.req.arrayBuffer())
+        )
+        return c.body(null, HttpStatusCodes.NO_CONTENT)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        throw error
+      }
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/assets/uploads/{id}/complete`,
+      method: "post",
+      request: {
+        params: z.object({ id: z.string() }),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({ txid: z.number(), item: selectFileSchema }),
+          "The created asset file"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "No such upload of the current user",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "Chunks are missing, or the name was taken meanwhile",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      try {
+        const result = await completeAssetUpload(
+          c.req.valid("param").id,
+          session.user.id
+        )
+        return c.json(result, HttpStatusCodes.OK)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        throw error
+      }
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/assets/{fileId}`,
+      method: "get",
+      request: {
+        params: z.object({ fileId: z.coerce.number().int() }),
+        query: z.object({ download: z.string().optional() }),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: {
+          description: "The content of the asset",
+          content: { "application/octet-stream": { schema: z.any() } },
+        },
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "Not a member of the project",
+        },
+        [HttpStatusCodes.NOT_FOUND]: {
+          description: "No such asset",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { fileId } = c.req.valid("param")
+      let file
+      try {
+        file = await db.transaction(async (tx) => {
+          const [row] = await tx
+            .select()
+            .from(filesTable)
+            .where(eq(filesTable.id, fileId))
+          if (row) {
+            await assertProjectRole(
+              tx,
+              row.project_id,
+              session.user.id,
+              "viewer"
+            )
+          }
+          return row
+        })
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        throw error
+      }
+      // Assets in the trash are gone until they are restored
+      if (
+        !file ||
+        file.kind !== "asset" ||
+        file.deleted_at !== null ||
+        !file.blob_hash ||
+        file.size === null
+      ) {
+        return c.json({ error: "Asset not found" }, HttpStatusCodes.NOT_FOUND)
+      }
+
+      const stream = await readBlob(file.blob_hash)
+      if (!stream) {
+        return c.json(
+          { error: "The content of this asset is missing" },
+          HttpStatusCodes.NOT_FOUND
+        )
+      }
+
+      return c.body(
+        stream,
+        HttpStatusCodes.OK,
+        getAssetHeaders(
+          { ...file, blob_hash: file.blob_hash, size: file.size },
+          c.req.valid("query").download !== undefined
+        )
+      )
+    }
+  )
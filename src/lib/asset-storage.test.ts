@@ -0,0 +1,227 @@
+import { createHash } from "crypto"
+import { mkdtemp, readdir, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { join, relative } from "path"
+import { eq } from "drizzle-orm"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { db } from "@/db/connection"
+import { assetUploadsTable, blobsTable, filesTable } from "@/db/schema"
+import { createTestProject, createTestUser } from "@/db/test-database"
+import {
+  completeAssetUpload,
+  readBlob,
+  startAssetUpload,
+  storeUploadChunk,
+  sweepAssetStorage,
+} from "@/lib/asset-storage"
+import { createLocalBlobStore, setBlobStore } from "@/lib/blob-store"
+import { AccessDeniedError, ValidationError } from "@/lib/createCRUDRoutes"
+
+vi.mock(`@/db/connection`, async () => {
+  const { createTestDatabase } = await import(`@/db/test-database`)
+  return { db: await createTestDatabase() }
+})
+
+// Tiny chunks, so a few bytes are uploaded in several of them
+vi.mock(`@/lib/assets`, async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/assets")>()),
+  ASSET_CHUNK_SIZE: 4,
+  getChunkCount: (size: number) => Math.max(1, Math.ceil(size / 4)),
+}))
+
+const encode = (text: string) => new TextEncoder().encode(text)
+const sha256 = (text: string) => createHash(`sha256`).update(text).digest(`hex`)
+
+let directory: string
+let projectId: number
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), `blobs-`))
+  setBlobStore(createLocalBlobStore(directory))
+  await createTestUser(db, `editor`)
+  await createTestUser(db, `viewer`)
+  projectId = await createTestProject(db, { editor: `owner`, viewer: `viewer` })
+})
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+/** Starts an upload of the text and sends its chunks, last one first */
+const uploadText = async (name: string, text: string) => {
+  const { upload_id, chunk_count } = await db.transaction((tx) =>
+    startAssetUpload(tx, `editor`, {
+      project_id: projectId,
+      folder_id: null,
+      name,
+      mime_type: `text/plain`,
+      size: text.length,
+    })
+  )
+  for (let index = chunk_count - 1; index >= 0; index--) {
+    await storeUploadChunk(
+      upload_id,
+      `editor`,
+      index,
+      encode(text.slice(index * 4, index * 4 + 4))
+    )
+  }
+  return upload_id
+}
+
+const readText = async (hash: string) =>
+  new Response(await readBlob(hash)).text()
+
+/** Keys of the objects left below uploads/ in the store */
+const storedUploads = async () => {
+  const entries = await readdir(join(directory, `uploads`), {
+    recursive: true,
+    withFileTypes: true,
+  }).catch(() => [])
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => relative(directory, join(entry.parentPath, entry.name)))
+}
+
+describe(`asset uploads`, () => {
+  it(`joins the chunks into a blob stored under its hash`, async () => {
+    const uploadId = await uploadText(`notes.txt`, `hello asset world`)
+    const { item } = await completeAssetUpload(uploadId, `editor`)
+
+    expect(item).toMatchObject({
+      kind: `asset`,
+      name: `notes.txt`,
+      size: 17,
+      blob_hash: sha256(`hello asset world`),
+    })
+    expect(await readText(item.blob_hash!)).toBe(`hello asset world`)
+    expect(await storedUploads()).toEqual([])
+  })
+
+  it(`stores identical content once`, async () => {
+    const first = await completeAssetUpload(
+      await uploadText(`a.txt`, `same bytes`),
+      `editor`
+    )
+    const second = await completeAssetUpload(
+      await uploadText(`b.txt`, `same bytes`),
+      `editor`
+    )
+    expect(second.item.blob_hash).toBe(first.item.blob_hash)
+    const blobs = await db
+      .select()
+      .from(blobsTable)
+      .where(eq(blobsTable.hash, first.item.blob_hash!))
+    expect(blobs).toHaveLength(1)
+  })
+
+  it(`accepts a chunk sent again`, async () => {
+    const uploadId = await uploadText(`again.txt`, `abcdefgh`)
+    await storeUploadChunk(uploadId, `editor`, 0, encode(`abcd`))
+    const { item } = await completeAssetUpload(uploadId, `editor`)
+    expect(await readText(item.blob_hash!)).toBe(`abcdefgh`)
+  })
+
+  it(`rejects a chunk of the wrong size`, async () => {
+    const uploadId = await uploadText(`sizes.txt`, `abcdefgh`)
+    await expect(
+      storeUploadChunk(uploadId, `editor`, 0, encode(`abc`))
+    ).rejects.toThrow(ValidationError)
+  })
+
+  it(`doesn't complete an upload with chunks missing`, async () => {
+    const { upload_id } = await db.transaction((tx) =>
+      startAssetUpload(tx, `editor`, {
+        project_id: projectId,
+        folder_id: null,
+        name: `partial.txt`,
+        mime_type: `text/plain`,
+        size: 8,
+      })
+    )
+    await storeUploadChunk(upload_id, `editor`, 1, encode(`efgh`))
+    await expect(completeAssetUpload(upload_id, `editor`)).rejects.toThrow(
+      `1 chunks have not been uploaded yet`
+    )
+  })
+
+  it(`only lets the uploader send chunks and complete`, async () => {
+    const uploadId = await uploadText(`mine.txt`, `abcd`)
+    await expect(
+      storeUploadChunk(uploadId, `viewer`, 0, encode(`abcd`))
+    ).rejects.toThrow(AccessDeniedError)
+    await expect(completeAssetUpload(uploadId, `viewer`)).rejects.toThrow(
+      AccessDeniedError
+    )
+  })
+
+  it(`only lets editors start uploads`, async () => {
+    await expect(
+      db.transaction((tx) =>
+        startAssetUpload(tx, `viewer`, {
+          project_id: projectId,
+          folder_id: null,
+          name: `nope.txt`,
+          mime_type: `text/plain`,
+          size: 4,
+        })
+      )
+    ).rejects.toThrow(AccessDeniedError)
+  })
+})
+
+describe(`sweepAssetStorage`, () => {
+  const backdate = new Date(Date.now() - 48 * 60 * 60 * 1000)
+
+  it(`removes abandoned uploads with their chunks`, async () => {
+    const uploadId = await uploadText(`abandoned.txt`, `abcdefgh`)
+    await db
+      .update(assetUploadsTable)
+      .set({ created_at: backdate })
+      .where(eq(assetUploadsTable.id, uploadId))
+
+    await sweepAssetStorage()
+
+    const uploads = await db
+      .select()
+      .from(assetUploadsTable)
+      .where(eq(assetUploadsTable.id, uploadId))
+    expect(uploads).toHaveLength(0)
+    expect(
+      (await storedUploads()).filter((key) => key.includes(uploadId))
+    ).toEqual([])
+  })
+
+  it(`removes old blobs no file refers to, and keeps the others`, async () => {
+    const kept = await completeAssetUpload(
+      await uploadText(`kept.txt`, `kept content`),
+      `editor`
+    )
+    const orphaned = await completeAssetUpload(
+      await uploadText(`orphaned.txt`, `orphaned content`),
+      `editor`
+    )
+    await db.delete(filesTable).where(eq(filesTable.id, orphaned.item.id))
+    await db.update(blobsTable).set({ created_at: backdate })
+
+    await sweepAssetStorage()
+
+    const hashes = (await db.select().from(blobsTable)).map((b) => b.hash)
+    expect(hashes).toContain(kept.item.blob_hash)
+    expect(hashes).not.toContain(orphaned.item.blob_hash)
+    expect(await readBlob(orphaned.item.blob_hash!)).toBeNull()
+    expect(await readText(kept.item.blob_hash!)).toBe(`kept content`)
+  })
+
+  it(`keeps a recent orphaned blob for an upload that may claim it`, async () => {
+    const { item } = await completeAssetUpload(
+      await uploadText(`recent.txt`, `recent content`),
+      `editor`
+    )
+    await db.delete(filesTable).where(eq(filesTable.id, item.id))
+
+    await sweepAssetStorage()
+
+    expect(await readText(item.blob_hash!)).toBe(`recent content`)
+  })
+})
@@ -0,0 +1,355 @@
+import { createHash, randomBytes, type Hash } from "crypto"
+import { and, eq, isNull, lt, sql } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { assetUploadsTable, blobsTable, filesTable } from "@/db/schema"
+import { getBlobStore } from "@/lib/blob-store"
+import {
+  AccessDeniedError,
+  ValidationError,
+  generateTxId,
+  type Transaction,
+} from "@/lib/createCRUDRoutes"
+import { ASSET_CHUNK_SIZE, MAX_ASSET_SIZE, getChunkCount } from "@/lib/assets"
+import { assertFolderInProject } from "@/lib/folder-hierarchy"
+import { assertProjectRole } from "@/lib/project-access"
+import { recordActivity } from "@/lib/activity"
+
+// Uploads not completed within this time are abandoned and swept
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+// Blobs no file refers to are kept this long before being swept, so an
+// upload completing with the same content can still claim them
+const ORPHAN_BLOB_GRACE_MS = 60 * 60 * 1000
+
+const blobKey = (hash: string) => `blobs/${hash.slice(0, 2)}/${hash}`
+const chunkKey = (uploadId: string, index: number) =>
+  `uploads/${uploadId}/${index}`
+// The chunks of an upload joined into one object, while it is completed
+const joinedKey = (uploadId: string) => `uploads/${uploadId}/joined`
+
+// Content types that are stored as given; anything else is stored as
+// application/octet-stream
+const MIME_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/
+
+/**
+ * Checks that no file in a folder has a name yet. Root files are checked
+ * here as the unique index doesn't cover a null folder.
+ * @throws ValidationError if the name is taken
+ */
+async function assertFileNameAvailable(
+  tx: Transaction,
+  projectId: number,
+  folderId: number | null,
+  name: string
+) {
+  const [existing] = await tx
+    .select({ id: filesTable.id })
+    .from(filesTable)
+    .where(
+      and(
+        eq(filesTable.project_id, projectId),
+        folderId === null
+          ? isNull(filesTable.folder_id)
+          : eq(filesTable.folder_id, folderId),
+        eq(filesTable.name, name),
+        isNull(filesTable.deleted_at)
+      )
+    )
+  if (existing) {
+    throw new ValidationError(
+      `A file with this name already exists in this folder`
+    )
+  }
+}
+
+/**
+ * Looks up an upload that belongs to a user
+ * @throws AccessDeniedError if there is no such upload of theirs
+ */
+async function getOwnUpload(tx: Transaction, uploadId: string, userId: string) {
+  const [upload] = await tx
+    .select()
+    .from(assetUploadsTable)
+    .where(eq(assetUploadsTable.id, uploadId))
+  if (!upload || upload.user_id !== userId) {
+    throw new AccessDeniedError(`Upload not found`)
+  }
+  return upload
+}
+
+/**
+ * Starts uploading an asset into a project
+ * @param tx - Transaction to write in
+ * @param userId - Uploader, who must be an editor of the project
+ * @returns The upload id and how to split the content into chunks
+ */
+export async function startAssetUpload(
+  tx: Transaction,
+  userId: string,
+  asset: {
+    project_id: number
+    folder_id: number | null
+    name: string
+    mime_type: string
+    size: number
+  }
+) {
+  await assertProjectRole(tx, asset.project_id, userId, "editor")
+  await assertFolderInProject(tx, asset.folder_id, asset.project_id)
+  if (asset.size > MAX_ASSET_SIZE) {
+    throw new ValidationError(`Files can be at most ${MAX_ASSET_SIZE} bytes`)
+  }
+  await assertFileNameAvailable(
+    tx,
+    asset.project_id,
+    asset.folder_id,
+    asset.name
+  )
+
+  const [upload] = await tx
+    .insert(assetUploadsTable)
+    .values({
+      ...asset,
+      id: randomBytes(24).toString(`base64url`),
+      mime_type: MIME_TYPE_PATTERN.test(asset.mime_type)
+        ? asset.mime_type.toLowerCase()
+        : `application/octet-stream`,
+      chunk_count: getChunkCount(asset.size),
+      user_id: userId,
+    })
+    .returning()
+  return {
+    upload_id: upload.id,
+    chunk_size: ASSET_CHUNK_SIZE,
+    chunk_count: upload.chunk_count,
+  }
+}
+
+/**
+ * Stores one chunk of an upload. Chunks can arrive in any order and be
+ * sent again, e.g. after a network error.
+ * @param uploadId - Upload the chunk belongs to
+ * @param userId - User sending it, who must have started the upload
+ * @param index - 0-based position of the chunk
+ * @param data - Content of the chunk
+ */
+export async function storeUploadChunk(
+  uploadId: string,
+  userId: string,
+  index: number,
+  data: Uint8Array<ArrayBuffer>
+) {
+  const upload = await db.transaction((tx) =>
+    getOwnUpload(tx, uploadId, userId)
+  )
+  if (index >= upload.chunk_count) {
+    throw new ValidationError(`The upload has ${upload.chunk_count} chunks`)
+  }
+  const expectedLength =
+    index < upload.chunk_count - 1
+      ? ASSET_CHUNK_SIZE
+      : upload.size - ASSET_CHUNK_SIZE * (upload.chunk_count - 1)
+  if (data.length !== expectedLength) {
+    throw new ValidationError(
+      `Chunk ${index} must be ${expectedLength} bytes, not ${data.length}`
+    )
+  }
+
+  await getBlobStore().put(chunkKey(uploadId, index), data)
+  await db
+    .update(assetUploadsTable)
+    .set({
+      received_chunks: sql`array_append(${assetUploadsTable.received_chunks}, ${index})`,
+    })
+    .where(
+      and(
+        eq(assetUploadsTable.id, uploadId),
+        sql`NOT (${index} = ANY(${assetUploadsTable.received_chunks}))`
+      )
+    )
+}
+
+/**
+ * Streams the chunks of an upload in order, one chunk at a time
+ * @param hash - Updated with the content as it streams through
+ */
+function streamChunks(
+  upload: { id: string; chunk_count: number },
+  hash: Hash
+): ReadableStream<Uint8Array> {
+  let index = 0
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined
+  return new ReadableStream({
+    async pull(controller) {
+      for (;;) {
+        if (!reader) {
+          if (index === upload.chunk_count) {
+            controller.close()
+            return
+          }
+          const stream = await getBlobStore().get(chunkKey(upload.id, index))
+          if (!stream) {
+            throw new ValidationError(`Chunk ${index} of the upload is missing`)
+          }
+          reader = stream.getReader()
+          index++
+        }
+        const { done, value } = await reader.read()
+        if (done) {
+          reader = undefined
+          continue
+        }
+        hash.update(value)
+        controller.enqueue(value)
+        return
+      }
+    },
+  })
+}
+
+/**
+ * Joins the chunks of an upload into a blob and creates the asset file.
+ * The chunks are streamed into one object while they are hashed, which is
+ * then streamed to the key of its hash, so the asset is never held in
+ * memory. The blob row is claimed before the content is stored, so a
+ * concurrent sweep can't remove the stored content of a blob that is in use.
+ * @param uploadId - Upload to complete
+ * @param userId - User completing it, who must have started the upload
+ * @returns The created file, and the id of the transaction it was created in
+ */
+export async function completeAssetUpload(uploadId: string, userId: string) {
+  const upload = await db.transaction((tx) =>
+    getOwnUpload(tx, uploadId, userId)
+  )
+  const missing = upload.chunk_count - new Set(upload.received_chunks).size
+  if (missing > 0) {
+    throw new ValidationError(`${missing} chunks have not been uploaded yet`)
+  }
+
+  const store = getBlobStore()
+  const digest = createHash(`sha256`)
+  await store.putStream(
+    joinedKey(uploadId),
+    streamChunks(upload, digest),
+    upload.size
+  )
+  const hash = digest.digest(`hex`)
+
+  await db
+    .insert(blobsTable)
+    .values({ hash, size: upload.size })
+    .onConflictDoUpdate({
+      target: blobsTable.hash,
+      set: { created_at: new Date() },
+    })
+  const joined = await store.get(joinedKey(uploadId))
+  if (!joined) {
+    throw new Error(`The joined upload ${uploadId} is missing`)
+  }
+  await store.putStream(blobKey(hash), joined, upload.size)
+
+  const result = await db.transaction(async (tx) => {
+    await assertProjectRole(tx, upload.project_id, userId, "editor")
+    await assertFolderInProject(tx, upload.folder_id, upload.project_id)
+    await assertFileNameAvailable(
+      tx,
+      upload.project_id,
+      upload.folder_id,
+      upload.name
+    )
+    // Also stops the same upload from being completed twice at once
+    const [claimed] = await tx
+      .delete(assetUploadsTable)
+      .where(eq(assetUploadsTable.id, uploadId))
+      .returning({ id: assetUploadsTable.id })
+    if (!claimed) {
+      throw new AccessDeniedError(`Upload not found`)
+    }
+    const txid = await generateTxId(tx)
+    const [item] = await tx
+      .insert(filesTable)
+      .values({
+        project_id: upload.project_id,
+        folder_id: upload.folder_id,
+        name: upload.name,
+        kind: `asset`,
+        mime_type: upload.mime_type,
+        size: upload.size,
+        blob_hash: hash,
+      })
+      .returning()
+    await recordActivity(tx, {
+      project_id: item.project_id,
+      actor_id: userId,
+      action: `create`,
+      target_type: `file`,
+      target_id: item.id,
+      target_name: item.name,
+    })
+    return { txid, item }
+  })
+
+  await Promise.all([
+    ...Array.from({ length: upload.chunk_count }, (_, index) =>
+      store.delete(chunkKey(uploadId, index))
+    ),
+    store.delete(joinedKey(uploadId)),
+  ])
+  return result
+}
+
+/**
+ * Streams the stored content of a blob
+ * @returns The stream, or null if the content is missing from the store
+ */
+export function readBlob(hash: string) {
+  return getBlobStore().get(blobKey(hash))
+}
+
+/**
+ * Removes abandoned uploads with their chunks, and blobs no file refers to
+ * any more with their content. Blob rows stay locked while their content is
+ * deleted, so an upload claiming one of them waits and then stores the
+ * content again. Runs on the maintenance schedule, see
+ * src/lib/maintenance.ts.
+ */
+export async function sweepAssetStorage() {
+  const store = getBlobStore()
+
+  const uploads = await db
+    .delete(assetUploadsTable)
+    .where(
+      lt(assetUploadsTable.created_at, new Date(Date.now() - UPLOAD_TTL_MS))
+    )
+    .returning({
+      id: assetUploadsTable.id,
+      chunk_count: assetUploadsTable.chunk_count,
+    })
+  await Promise.all(
+    uploads.flatMap((upload) => [
+      ...Array.from({ length: upload.chunk_count }, (_, index) =>
+        store.delete(chunkKey(upload.id, index))
+      ),
+      store.delete(joinedKey(upload.id)),
+    ])
+  )
+
+  await db.transaction(async (tx) => {
+    const orphans = await tx
+      .select({ hash: blobsTable.hash })
+      .from(blobsTable)
+      .where(
+        and(
+          lt(
+            blobsTable.created_at,
+            new Date(Date.now() - ORPHAN_BLOB_GRACE_MS)
+          ),
+          sql`NOT EXISTS (SELECT 1 FROM ${filesTable} WHERE ${filesTable.blob_hash} = ${blobsTable.hash})`
+        )
+      )
+      .for(`update`, { skipLocked: true })
+    for (const { hash } of orphans) {
+      await store.delete(blobKey(hash))
+      await tx.delete(blobsTable).where(eq(blobsTable.hash, hash))
+    }
+  })
+}
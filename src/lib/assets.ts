@@ -0,0 +1,35 @@
+// Size of each chunk an asset is uploaded in; the last one may be shorter
+export const ASSET_CHUNK_SIZE = 4 * 1024 * 1024
+// Largest asset that can be uploaded
+export const MAX_ASSET_SIZE = 100 * 1024 * 1024
+
+/**
+ * Number of chunks an asset of the given size is uploaded in
+ */
+export function getChunkCount(size: number): number {
+  return Math.max(1, Math.ceil(size / ASSET_CHUNK_SIZE))
+}
+
+/**
+ * URL the content of an asset is served from
+ * @param fileId - Asset file
+ * @param download - Whether the browser should save it rather than show it
+ */
+export function getAssetUrl(fileId: number, download = false): string {
+  return `/api/assets/${fileId}${download ? `?download=1` : ``}`
+}
+
+/**
+ * Formats a size in bytes for display, e.g. "1.5 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  const units = [`KB`, `MB`, `GB`]
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`
+}
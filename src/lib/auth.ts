@@ -3,6 +3,7 @@ import { drizzleAdapter } from "better-auth/adapters/drizzle"
 import { db } from "@/db/connection" // your drizzle instance
 import * as schema from "@/db/auth-schema"
 import { networkInterfaces } from "os"
+import { claimProjectInvitations } from "@/lib/project-invitations"
 
 // Get network IP for trusted origins
 const nets = networkInterfaces()
@@ -33,6 +34,23 @@ export const auth = betterAuth({
     disableSignUp: process.env.NODE_ENV === "production",
     minPasswordLength: process.env.NODE_ENV === "production" ? 8 : 1,
   },
+  databaseHooks: {
+    // Invitations sent to an email before it had an account go to the
+    // account once it has proven it owns the address. Until then the
+    // invitee claims them with the token in the invitation email.
+    user: {
+      create: {
+        after: async (user) => {
+          if (user.emailVerified) await claimProjectInvitations(db, user)
+        },
+      },
+      update: {
+        after: async (user) => {
+          if (user.emailVerified) await claimProjectInvitations(db, user)
+        },
+      },
+    },
+  },
   trustedOrigins: [
     "https://tanstack-start-db-electric-starter.localhost",
     `https://${networkIP}`,
@@ -0,0 +1,148 @@
+import { randomBytes } from "crypto"
+import { createReadStream, createWriteStream } from "fs"
+import { mkdir, rename, rm, stat, writeFile } from "fs/promises"
+import { dirname, join } from "path"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import type { ReadableStream as NodeReadableStream } from "stream/web"
+import { AwsClient } from "aws4fetch"
+
+/** Stores binary objects by key, e.g. on disk or in an S3 bucket */
+export interface BlobStore {
+  put: (key: string, data: Uint8Array<ArrayBuffer>) => Promise<void>
+  /**
+   * Stores an object from a stream without holding it in memory
+   * @param size - Length of the stream in bytes
+   */
+  putStream: (
+    key: string,
+    stream: ReadableStream<Uint8Array>,
+    size: number
+  ) => Promise<void>
+  /** Streams an object, or returns null if there is none with the key */
+  get: (key: string) => Promise<ReadableStream<Uint8Array> | null>
+  /** Removes an object; removing a missing object is not an error */
+  delete: (key: string) => Promise<void>
+}
+
+/**
+ * Store keeping each object in a file below a folder on the local disk
+ * @param directory - Folder the objects are written to
+ */
+export function createLocalBlobStore(directory: string): BlobStore {
+  const pathOf = (key: string) => join(directory, ...key.split(`/`))
+  return {
+    put: async (key, data) => {
+      await mkdir(dirname(pathOf(key)), { recursive: true })
+      await writeFile(pathOf(key), data)
+    },
+    putStream: async (key, stream) => {
+      await mkdir(dirname(pathOf(key)), { recursive: true })
+      // Written next to the object and moved in place once complete, so a
+      // failed write never leaves part of an object behind
+      const partPath = `${pathOf(key)}.${randomBytes(6).toString(`hex`)}.part`
+      try {
+        await pipeline(
+          Readable.fromWeb(stream as NodeReadableStream<Uint8Array>),
+          createWriteStream(partPath)
+        )
+        await rename(partPath, pathOf(key))
+      } finally {
+        await rm(partPath, { force: true })
+      }
+    },
+    get: async (key) => {
+      try {
+        await stat(pathOf(key))
+      } catch (_error) {
+        return null
+      }
+      return Readable.toWeb(
+        createReadStream(pathOf(key))
+      ) as ReadableStream<Uint8Array>
+    },
+    delete: async (key) => {
+      await rm(pathOf(key), { force: true })
+    },
+  }
+}
+
+export interface S3BlobStoreConfig {
+  /** Base URL of the S3 API, e.g. http://localhost:9000 for MinIO */
+  endpoint: string
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+/**
+ * Store keeping objects in a bucket of an S3 compatible service such as
+ * MinIO, addressed path-style so any endpoint works
+ */
+export function createS3BlobStore(config: S3BlobStoreConfig): BlobStore {
+  const client = new AwsClient({
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+    region: config.region,
+    service: `s3`,
+  })
+  const urlOf = (key: string) =>
+    `${config.endpoint.replace(/\/+$/, ``)}/${config.bucket}/${key}`
+
+  const request = async (key: string, init: RequestInit) => {
+    const response = await client.fetch(urlOf(key), init)
+    if (!response.ok && response.status !== 404) {
+      throw new Error(
+        `S3 ${init.method ?? `GET`} ${key} failed with ${response.status}: ${await response.text()}`
+      )
+    }
+    return response
+  }
+
+  return {
+    put: async (key, data) => {
+      await request(key, { method: `PUT`, body: data })
+    },
+    // S3 doesn't take chunked uploads, so the length is sent up front
+    putStream: async (key, stream, size) => {
+      await request(key, {
+        method: `PUT`,
+        body: stream,
+        headers: { "content-length": String(size) },
+      })
+    },
+    get: async (key) => {
+      const response = await request(key, { method: `GET` })
+      return response.status === 404 ? null : response.body
+    },
+    delete: async (key) => {
+      await request(key, { method: `DELETE` })
+    },
+  }
+}
+
+// Objects go to S3 when S3_BUCKET is set, otherwise to BLOB_STORE_DIR
+let store: BlobStore = process.env.S3_BUCKET
+  ? createS3BlobStore({
+      endpoint: process.env.S3_ENDPOINT ?? `https://s3.amazonaws.com`,
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION ?? `us-east-1`,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID ?? ``,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? ``,
+    })
+  : createLocalBlobStore(process.env.BLOB_STORE_DIR ?? `.blobs`)
+
+/**
+ * Replaces the store binary objects are kept in
+ */
+export function setBlobStore(next: BlobStore) {
+  store = next
+}
+
+/**
+ * Returns the configured store
+ */
+export function getBlobStore(): BlobStore {
+  return store
+}
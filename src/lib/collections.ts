@@ -7,8 +7,19 @@ import {
   selectUsersSchema,
   selectFolderSchema,
   selectFileSchema,
+  selectFileUpdateSchema,
+  selectFileVersionSchema,
+  selectPresenceSchema,
+  selectProjectMemberSchema,
+  selectProjectInvitationSchema,
+  selectSentInvitationSchema,
+  selectShareLinkSchema,
+  selectActivityEventSchema,
 } from "@/db/schema"
 import { getClient } from "@/api-client"
+import type { FileSearchResult } from "@/lib/search"
+import type { ArchiveContents } from "@/lib/archive"
+import type { TreeItemRef } from "@/lib/file-tree"
 const client = getClient()
 
 export const usersCollection = createCollection(
@@ -70,7 +81,6 @@ export const projectCollection = createCollection(
           name: newProject.name,
           description: newProject.description,
           owner_id: newProject.owner_id,
-          shared_user_ids: newProject.shared_user_ids,
         },
       })
 
@@ -91,7 +101,6 @@ export const projectCollection = createCollection(
         json: {
           name: updatedProject.name,
           description: updatedProject.description,
-          shared_user_ids: updatedProject.shared_user_ids,
         },
       })
       if (result.ok) {
@@ -119,6 +128,291 @@ export const projectCollection = createCollection(
   })
 )
 
+// Open invitations sent to the current user
+export const invitationsInboxCollection = createCollection(
+  electricCollectionOptions({
+    id: "project_invitations-inbox",
+    shapeOptions: {
+      url: new URL(
+        `/api/project-invitations`,
+        typeof window !== `undefined`
+          ? window.location.origin
+          : `http://localhost:5173`
+      ).toString(),
+      params: {
+        table: "project_invitations",
+        user_id: async () =>
+          authClient
+            .getSession()
+            .then((session) => session.data?.user.id ?? ``),
+      },
+      parser: {
+        timestamptz: (date: string) => {
+          return new Date(date)
+        },
+      },
+    },
+    schema: selectProjectInvitationSchema,
+    getKey: (item) => item.id,
+  })
+)
+
+/**
+ * Adds an invitation sent to the user's email to their inbox, using the
+ * token from the invitation email. Resolves once it has synced.
+ * @param token - Token of the invitation
+ */
+export async function claimInvitation(token: string) {
+  const result = await client.api.invitations[":token"].claim.$post({
+    param: { token },
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { txid } = await result.json()
+  await invitationsInboxCollection.utils.awaitTxId(txid)
+}
+
+/**
+ * Accepts or declines an invitation from the inbox. Resolves once the
+ * change has synced back, so an accepted project is already in
+ * projectCollection.
+ * @param token - Token of the invitation
+ * @param response - Whether to accept or decline it
+ * @throws Error with the JSON error body if the server rejects the answer
+ */
+export async function respondToInvitation(
+  token: string,
+  response: "accept" | "decline"
+) {
+  const result = await client.api.invitations[":token"][":response"].$post({
+    param: { token, response },
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { txid } = await result.json()
+  await (
+    response === "accept" ? projectCollection : invitationsInboxCollection
+  ).utils.awaitTxId(txid)
+}
+
+/**
+ * Finds the user registered with an exact email address. Only users who
+ * share a project with the current user are synced, so anyone else is
+ * looked up on the server.
+ * @returns The user, or null if nobody signed up with the email
+ */
+export async function searchUserByEmail(email: string) {
+  const result = await client.api.users.search.$get({ query: { email } })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { user } = await result.json()
+  return user
+}
+
+/**
+ * Searches the text of the files in a project on the server
+ * @param query - Words, "quoted phrases", OR and -excluded words
+ * @returns Matching files, best first
+ */
+export async function searchProjectFiles(
+  projectId: number,
+  query: string
+): Promise<FileSearchResult[]> {
+  const result = await client.api.projects[":id"].search.$get({
+    param: { id: projectId },
+    query: { q: query },
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { results } = await result.json()
+  return results
+}
+
+/**
+ * Imports folders and files into a project in one transaction on the server
+ * @param folderId - Folder to import into, or null for the project root
+ * @param contents - Folder paths and text files, relative to folderId
+ * @throws Error with the JSON error body if the import is rejected; for
+ *   name collisions the body lists the conflicting paths in `conflicts`
+ * @returns How many folders and files were created
+ */
+export async function importProjectArchive(
+  projectId: number,
+  folderId: number | null,
+  contents: Pick<ArchiveContents, "folders" | "files">
+) {
+  const result = await client.api.projects[":id"].import.$post({
+    param: { id: projectId },
+    json: {
+      folder_id: folderId,
+      folders: contents.folders,
+      files: contents.files,
+    },
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { txid, folders, files } = await result.json()
+  const { foldersCollection, filesCollection } =
+    getProjectCollections(projectId)
+  // A shape only sees the transaction if rows of its table changed in it
+  await Promise.all([
+    folders > 0 && foldersCollection.utils.awaitTxId(txid),
+    files > 0 && filesCollection.utils.awaitTxId(txid),
+  ])
+  return { folders, files }
+}
+
+/**
+ * Lists the trash of a project
+ * @returns The trashed folders and files, most recently deleted first, and
+ *   the number of days items are kept
+ */
+export async function fetchProjectTrash(projectId: number) {
+  const result = await client.api.projects[":id"].trash.$get({
+    param: { id: projectId },
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  return result.json()
+}
+
+/**
+ * Restores a folder or file from the trash to where it was, and waits for
+ * the restored items to sync
+ * @throws Error with the JSON error body if its name is taken there
+ * @returns How many folders and files were restored
+ */
+export async function restoreTrashItem(projectId: number, item: TreeItemRef) {
+  const result = await client.api.projects[":id"].trash.restore.$post({
+    param: { id: projectId },
+    json: item,
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { txid, folders, files } = await result.json()
+  const { foldersCollection, filesCollection } =
+    getProjectCollections(projectId)
+  await Promise.all([
+    folders > 0 && foldersCollection.utils.awaitTxId(txid),
+    files > 0 && filesCollection.utils.awaitTxId(txid),
+  ])
+  return { folders, files }
+}
+
+/**
+ * Copies a folder with everything in it next to the original, and waits
+ * for the copies to sync
+ * @param name - Name of the copy
+ * @throws Error with the JSON error body if the name is taken
+ * @returns Id of the copy and how many folders and files were created
+ */
+export async function duplicateProjectFolder(
+  projectId: number,
+  folderId: number,
+  name: string
+) {
+  const result = await client.api.folders[":id"].duplicate.$post({
+    param: { id: folderId },
+    json: { name },
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { txid, id, folders, files } = await result.json()
+  const { foldersCollection, filesCollection } =
+    getProjectCollections(projectId)
+  await Promise.all([
+    foldersCollection.utils.awaitTxId(txid),
+    files > 0 && filesCollection.utils.awaitTxId(txid),
+  ])
+  return { id, folders, files }
+}
+
+/**
+ * Permanently deletes a folder, with everything in it, or a file from the
+ * trash
+ */
+export async function deleteTrashItem(projectId: number, item: TreeItemRef) {
+  const result = await client.api.projects[":id"].trash.delete.$post({
+    param: { id: projectId },
+    json: item,
+  })
+  if (!result.ok) {
+    const errorData = await result.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+}
+
+/**
+ * Uploads a binary file such as an image or PDF as an asset, in chunks of
+ * ASSET_CHUNK_SIZE, and waits for the new file to sync
+ * @param onProgress - Called with the fraction uploaded after each chunk
+ * @returns The created file
+ */
+export async function uploadAsset(
+  projectId: number,
+  folderId: number | null,
+  file: File,
+  onProgress?: (fraction: number) => void
+) {
+  const started = await client.api.assets.uploads.$post({
+    json: {
+      project_id: projectId,
+      folder_id: folderId,
+      name: file.name,
+      mime_type: file.type,
+      size: file.size,
+    },
+  })
+  if (!started.ok) {
+    const errorData = await started.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { upload_id, chunk_size, chunk_count } = await started.json()
+
+  for (let index = 0; index < chunk_count; index++) {
+    // Chunks are sent as raw bytes, which the typed client can't express
+    const response = await fetch(
+      `/api/assets/uploads/${upload_id}/chunks/${index}`,
+      {
+        method: `PUT`,
+        headers: { "Content-Type": `application/octet-stream` },
+        body: file.slice(index * chunk_size, (index + 1) * chunk_size),
+      }
+    )
+    if (!response.ok) {
+      throw new Error(await response.text())
+    }
+    onProgress?.((index + 1) / chunk_count)
+  }
+
+  const completed = await client.api.assets.uploads[":id"].complete.$post({
+    param: { id: upload_id },
+  })
+  if (!completed.ok) {
+    const errorData = await completed.json()
+    throw new Error(JSON.stringify(errorData))
+  }
+  const { txid, item } = await completed.json()
+  await getProjectCollections(projectId).filesCollection.utils.awaitTxId(txid)
+  return item
+}
+
 export const todoCollection = createCollection(
   electricCollectionOptions({
     id: "todos",
@@ -201,183 +495,698 @@ export const todoCollection = createCollection(
   })
 )
 
-export const foldersCollection = createCollection(
-  electricCollectionOptions({
-    id: "folders",
-    shapeOptions: {
-      url: new URL(
-        `/api/folders`,
-        typeof window !== `undefined`
-          ? window.location.origin
-          : `http://localhost:5173`
-      ).toString(),
-      params: {
-        table: "folders",
-        user_id: async () =>
-          authClient
-            .getSession()
-            .then((session) => session.data?.user.id ?? ``),
-      },
-      parser: {
-        timestamptz: (date: string) => {
-          return new Date(date)
+const createFoldersCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `folders-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/folders`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "folders",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
         },
-      },
-    },
-    schema: selectFolderSchema,
-    getKey: (item) => item.id,
-    onInsert: async ({ transaction }) => {
-      const { modified: newFolder } = transaction.mutations[0]
-      const result = await client.api.folders.$post({
-        json: {
-          project_id: newFolder.project_id,
-          parent_folder_id: newFolder.parent_folder_id,
-          name: newFolder.name,
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
         },
-      })
+      },
+      schema: selectFolderSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: newFolder } = transaction.mutations[0]
+        const result = await client.api.folders.$post({
+          json: {
+            project_id: newFolder.project_id,
+            parent_folder_id: newFolder.parent_folder_id,
+            name: newFolder.name,
+          },
+        })
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onUpdate: async ({ transaction }) => {
-      const { modified: updatedFolder } = transaction.mutations[0]
-      const result = await client.api.folders[":id"].$put({
-        param: {
-          id: updatedFolder.id.toString(),
-        },
-        json: {
-          project_id: updatedFolder.project_id,
-          parent_folder_id: updatedFolder.parent_folder_id,
-          name: updatedFolder.name,
-        },
-      })
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onDelete: async ({ transaction }) => {
-      const { original: deletedFolder } = transaction.mutations[0]
-      const result = await client.api.folders[":id"].$delete({
-        param: { id: deletedFolder.id.toString() },
-      })
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onUpdate: async ({ transaction }) => {
+        const { modified: updatedFolder } = transaction.mutations[0]
+        const result = await client.api.folders[":id"].$put({
+          param: {
+            id: updatedFolder.id.toString(),
+          },
+          json: {
+            project_id: updatedFolder.project_id,
+            parent_folder_id: updatedFolder.parent_folder_id,
+            name: updatedFolder.name,
+          },
+        })
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onDelete: async ({ transaction }) => {
+        const { original: deletedFolder } = transaction.mutations[0]
+        const result = await client.api.folders[":id"].$delete({
+          param: { id: deletedFolder.id.toString() },
+        })
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-  })
-)
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
 
 // Helper functions for bytea handling
 const serializeBytea = (data: Uint8Array | null): string | null => {
   if (!data) return null
-  // Convert Uint8Array to base64 for JSON transport
-  return btoa(String.fromCharCode(...data))
+  // Convert Uint8Array to base64 for JSON transport, a slice at a time as
+  // spreading a large array into one call overflows the stack
+  let binary = ``
+  for (let offset = 0; offset < data.length; offset += 0x8000) {
+    binary += String.fromCharCode.apply(
+      null,
+      Array.from(data.subarray(offset, offset + 0x8000))
+    )
+  }
+  return btoa(binary)
 }
 
-const deserializeBytea = (data: string | null): Uint8Array | null => {
+const deserializeBytea = (
+  data: string | null
+): Uint8Array<ArrayBuffer> | null => {
   if (!data) return null
-  // Convert base64 back to Uint8Array
-  const binaryString = atob(data)
-  return new Uint8Array(binaryString.length).map((_, i) =>
-    binaryString.charCodeAt(i)
-  )
+  // Electric sends bytea columns in Postgres hex format, e.g. "\\x0a1b"
+  const hex = data.startsWith(`\\x`) ? data.slice(2) : data
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
 }
 
-export const filesCollection = createCollection(
-  electricCollectionOptions({
-    id: "files",
-    shapeOptions: {
-      url: new URL(
-        `/api/files`,
-        typeof window !== `undefined`
-          ? window.location.origin
-          : `http://localhost:5173`
-      ).toString(),
-      params: {
-        table: "files",
-        user_id: async () =>
-          authClient
-            .getSession()
-            .then((session) => session.data?.user.id ?? ``),
+const createFilesCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `files-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/files`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "files",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
+        },
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+          // Handle bytea field parsing from Electric
+          bytea: (data: string | null) => deserializeBytea(data),
+        },
       },
-      parser: {
-        timestamptz: (date: string) => {
-          return new Date(date)
+      schema: selectFileSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: newFile } = transaction.mutations[0]
+        const result = await client.api.files.$post({
+          json: {
+            project_id: newFile.project_id,
+            folder_id: newFile.folder_id,
+            name: newFile.name,
+            // Handle bytea serialization for API transport
+            loro_snapshot: serializeBytea(newFile.loro_snapshot),
+            language: newFile.language,
+          },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onUpdate: async ({ transaction }) => {
+        const { modified: updatedFile, changes } = transaction.mutations[0]
+        const result = await client.api.files[":id"].$put({
+          param: {
+            id: updatedFile.id.toString(),
+          },
+          json: {
+            folder_id: updatedFile.folder_id,
+            name: updatedFile.name,
+            language: updatedFile.language,
+            // Content edits go through fileUpdatesCollection, so only resend
+            // the snapshot when it was replaced explicitly
+            ...(`loro_snapshot` in changes && {
+              loro_snapshot: serializeBytea(updatedFile.loro_snapshot),
+            }),
+          },
+        })
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onDelete: async ({ transaction }) => {
+        const { original: deletedFile } = transaction.mutations[0]
+        const result = await client.api.files[":id"].$delete({
+          param: { id: deletedFile.id.toString() },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
+
+const createFileUpdatesCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `file_updates-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/file-updates`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "file_updates",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
+        },
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+          bytea: (data: string | null) => deserializeBytea(data),
         },
-        // Handle bytea field parsing from Electric
-        loro_snapshot: (data: string | null) => deserializeBytea(data),
       },
-    },
-    schema: selectFileSchema,
-    getKey: (item) => item.id,
-    onInsert: async ({ transaction }) => {
-      const { modified: newFile } = transaction.mutations[0]
-      const result = await client.api.files.$post({
-        json: {
-          project_id: newFile.project_id,
-          folder_id: newFile.folder_id,
-          name: newFile.name,
-          // Handle bytea serialization for API transport
-          loro_snapshot: serializeBytea(newFile.loro_snapshot),
+      schema: selectFileUpdateSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: newUpdate } = transaction.mutations[0]
+        const result = await client.api["file-updates"].$post({
+          json: {
+            file_id: newUpdate.file_id,
+            project_id: newUpdate.project_id,
+            author_id: newUpdate.author_id,
+            loro_update: serializeBytea(newUpdate.loro_update)!,
+          },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
+
+const createFileVersionsCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `file_versions-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/file-versions`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "file_versions",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
         },
-      })
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+          bytea: (data: string | null) => deserializeBytea(data),
+        },
+      },
+      schema: selectFileVersionSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: newVersion } = transaction.mutations[0]
+        const result = await client.api["file-versions"].$post({
+          json: {
+            file_id: newVersion.file_id,
+            project_id: newVersion.project_id,
+            name: newVersion.name,
+            author_id: newVersion.author_id,
+            loro_snapshot: serializeBytea(newVersion.loro_snapshot)!,
+          },
+        })
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onUpdate: async ({ transaction }) => {
-      const { modified: updatedFile } = transaction.mutations[0]
-      const result = await client.api.files[":id"].$put({
-        param: {
-          id: updatedFile.id.toString(),
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onUpdate: async ({ transaction }) => {
+        const { modified: updatedVersion } = transaction.mutations[0]
+        const result = await client.api["file-versions"][":id"].$put({
+          param: {
+            id: updatedVersion.id.toString(),
+          },
+          json: {
+            name: updatedVersion.name,
+          },
+        })
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onDelete: async ({ transaction }) => {
+        const { original: deletedVersion } = transaction.mutations[0]
+        const result = await client.api["file-versions"][":id"].$delete({
+          param: { id: deletedVersion.id.toString() },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
+
+const createPresenceCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `presence-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/presence`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "presence",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
         },
-        json: {
-          project_id: updatedFile.project_id,
-          folder_id: updatedFile.folder_id,
-          name: updatedFile.name,
-          loro_snapshot: serializeBytea(updatedFile.loro_snapshot),
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+          bytea: (data: string | null) => deserializeBytea(data),
         },
-      })
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-    onDelete: async ({ transaction }) => {
-      const { original: deletedFile } = transaction.mutations[0]
-      const result = await client.api.files[":id"].$delete({
-        param: { id: deletedFile.id.toString() },
-      })
+      },
+      schema: selectPresenceSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: newPresence } = transaction.mutations[0]
+        const result = await client.api.presence.$post({
+          json: {
+            id: newPresence.id,
+            project_id: newPresence.project_id,
+            file_id: newPresence.file_id,
+            user_id: newPresence.user_id,
+            ephemeral: serializeBytea(newPresence.ephemeral),
+          },
+        })
 
-      if (result.ok) {
-        const data = await result.json()
-        return { txid: data.txid }
-      } else {
-        const errorData = await result.json()
-        throw new Error(JSON.stringify(errorData))
-      }
-    },
-  })
-)
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onUpdate: async ({ transaction }) => {
+        const { modified: updatedPresence } = transaction.mutations[0]
+        const result = await client.api.presence[":id"].$put({
+          param: {
+            id: updatedPresence.id.toString(),
+          },
+          json: {
+            file_id: updatedPresence.file_id,
+            ephemeral: serializeBytea(updatedPresence.ephemeral),
+          },
+        })
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onDelete: async ({ transaction }) => {
+        const { original: deletedPresence } = transaction.mutations[0]
+        const result = await client.api.presence[":id"].$delete({
+          param: { id: deletedPresence.id.toString() },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
+
+const createProjectMembersCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `project_members-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/project-members`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "project_members",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
+        },
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+        },
+      },
+      schema: selectProjectMemberSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: newMember } = transaction.mutations[0]
+        const result = await client.api["project-members"].$post({
+          json: {
+            project_id: newMember.project_id,
+            user_id: newMember.user_id,
+            role: newMember.role,
+          },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onUpdate: async ({ transaction }) => {
+        const { modified: updatedMember } = transaction.mutations[0]
+        const result = await client.api["project-members"][":id"].$put({
+          param: {
+            id: updatedMember.id.toString(),
+          },
+          json: {
+            role: updatedMember.role,
+          },
+        })
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onDelete: async ({ transaction }) => {
+        const { original: deletedMember } = transaction.mutations[0]
+        const result = await client.api["project-members"][":id"].$delete({
+          param: { id: deletedMember.id.toString() },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
+
+const createProjectInvitationsCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `project_invitations-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/project-invitations`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "project_invitations",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
+        },
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+        },
+      },
+      schema: selectSentInvitationSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: newInvitation } = transaction.mutations[0]
+        const result = await client.api["project-invitations"].$post({
+          json: {
+            project_id: newInvitation.project_id,
+            email: newInvitation.email,
+            role: newInvitation.role,
+            invited_by: newInvitation.invited_by,
+          },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onDelete: async ({ transaction }) => {
+        const { original: deletedInvitation } = transaction.mutations[0]
+        const result = await client.api["project-invitations"][":id"].$delete({
+          param: { id: deletedInvitation.id.toString() },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
+
+// Only owners can sync share links, so the collection is only queried or
+// preloaded by owners
+const createShareLinksCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `share_links-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/share-links`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "share_links",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
+        },
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+        },
+      },
+      schema: selectShareLinkSchema,
+      getKey: (item) => item.id,
+      // The password isn't part of the row, so it is passed as metadata of
+      // the insert
+      onInsert: async ({ transaction }) => {
+        const { modified: newLink, metadata } = transaction.mutations[0]
+        const { password } = (metadata ?? {}) as { password?: string }
+        const result = await client.api["share-links"].$post({
+          json: {
+            project_id: newLink.project_id,
+            scope: newLink.scope,
+            folder_id: newLink.folder_id,
+            file_id: newLink.file_id,
+            created_by: newLink.created_by,
+            expires_at: newLink.expires_at,
+            password: password || undefined,
+          },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+      onDelete: async ({ transaction }) => {
+        const { original: deletedLink } = transaction.mutations[0]
+        const result = await client.api["share-links"][":id"].$delete({
+          param: { id: deletedLink.id.toString() },
+        })
+
+        if (result.ok) {
+          const data = await result.json()
+          return { txid: data.txid }
+        } else {
+          const errorData = await result.json()
+          throw new Error(JSON.stringify(errorData))
+        }
+      },
+    })
+  )
+
+// Read-only: events are recorded by the server along with each change
+const createActivityEventsCollection = (projectId: number) =>
+  createCollection(
+    electricCollectionOptions({
+      id: `activity_events-${projectId}`,
+      shapeOptions: {
+        url: new URL(
+          `/api/activity-events`,
+          typeof window !== `undefined`
+            ? window.location.origin
+            : `http://localhost:5173`
+        ).toString(),
+        params: {
+          table: "activity_events",
+          project_id: projectId.toString(),
+          user_id: async () =>
+            authClient
+              .getSession()
+              .then((session) => session.data?.user.id ?? ``),
+        },
+        parser: {
+          timestamptz: (date: string) => {
+            return new Date(date)
+          },
+        },
+      },
+      schema: selectActivityEventSchema,
+      getKey: (item) => item.id,
+    })
+  )
+
+const createProjectCollections = (projectId: number) => ({
+  projectMembersCollection: createProjectMembersCollection(projectId),
+  projectInvitationsCollection: createProjectInvitationsCollection(projectId),
+  shareLinksCollection: createShareLinksCollection(projectId),
+  foldersCollection: createFoldersCollection(projectId),
+  filesCollection: createFilesCollection(projectId),
+  fileUpdatesCollection: createFileUpdatesCollection(projectId),
+  fileVersionsCollection: createFileVersionsCollection(projectId),
+  presenceCollection: createPresenceCollection(projectId),
+  activityEventsCollection: createActivityEventsCollection(projectId),
+})
+
+export type ProjectCollections = ReturnType<typeof createProjectCollections>
+
+const projectCollections = new Map<number, ProjectCollections>()
+
+/**
+ * Returns the collections holding the members, folders, files and other
+ * rows of a project. Each project syncs its own Electric shapes, which are created
+ * the first time the project is opened and start syncing once queried or
+ * preloaded, so users only download the projects they look at.
+ * @param projectId - Project whose rows are needed
+ */
+export function getProjectCollections(projectId: number): ProjectCollections {
+  let collections = projectCollections.get(projectId)
+  if (!collections) {
+    collections = createProjectCollections(projectId)
+    projectCollections.set(projectId, collections)
+  }
+  return collections
+}
@@ -0,0 +1,79 @@
+import type { ComponentType } from "react"
+
+/** An entry of the command palette */
+export interface PaletteCommand {
+  /** Unique across all entries; recently used entries are remembered by it */
+  id: string
+  title: string
+  /** Heading the entry is listed under */
+  group: string
+  /** Extra words the entry is found by, e.g. the path of a file */
+  keywords?: string[]
+  icon?: ComponentType<{ className?: string }>
+  /** Secondary text shown after the title */
+  description?: string
+  /** Keyboard shortcut shown next to the entry, e.g. "F2" */
+  shortcut?: string
+  disabled?: boolean
+  /** Only listed once something is typed, for large sets such as files */
+  searchOnly?: boolean
+  run: () => void
+}
+
+// Most entries remembered as recently used
+const MAX_RECENT_COMMANDS = 8
+// Score multiplier of recently used entries when searching
+const RECENT_BOOST = 1.5
+
+const recentStorageKey = (userId: string) => `command-palette-recent:${userId}`
+
+/**
+ * Loads the ids of the entries a user ran most recently, newest first
+ */
+export function loadRecentCommandIds(userId: string | undefined): string[] {
+  if (typeof window === `undefined` || !userId) return []
+  try {
+    const stored = window.localStorage.getItem(recentStorageKey(userId))
+    return stored ? (JSON.parse(stored) as string[]) : []
+  } catch (_error) {
+    return []
+  }
+}
+
+/**
+ * Remembers an entry as the one a user ran most recently
+ * @returns The updated ids, newest first
+ */
+export function recordRecentCommand(
+  userId: string | undefined,
+  commandId: string
+): string[] {
+  const recent = [
+    commandId,
+    ...loadRecentCommandIds(userId).filter((id) => id !== commandId),
+  ].slice(0, MAX_RECENT_COMMANDS)
+  if (userId) {
+    window.localStorage.setItem(
+      recentStorageKey(userId),
+      JSON.stringify(recent)
+    )
+  }
+  return recent
+}
+
+/**
+ * Raises the match score of a recently used entry so it ranks above equally
+ * good matches, more so the more recently it was used
+ * @param score - Match score between 0 and 1
+ * @param commandId - Entry that matched
+ * @param recentIds - Recently used ids, newest first
+ */
+export function boostRecentScore(
+  score: number,
+  commandId: string,
+  recentIds: string[]
+): number {
+  const index = recentIds.indexOf(commandId)
+  if (score === 0 || index === -1) return score
+  return score * (1 + (RECENT_BOOST - 1) * (1 - index / recentIds.length))
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { todosTable } from "@/db/schema"
+import { applySyncFilter, createCRUDRoutes } from "@/lib/createCRUDRoutes"
+
+const session = {
+  user: { id: `user-42`, email: `ada@example.com` },
+}
+
+vi.mock(`@/lib/auth`, () => ({
+  auth: { api: { getSession: async () => session } },
+}))
+
+const shapeUrl = () => new URL(`http://localhost:3000/v1/shape`)
+
+describe(`applySyncFilter`, () => {
+  it(`sends values as positional params`, () => {
+    const url = shapeUrl()
+    applySyncFilter(
+      url,
+      { where: `user_id = $1 AND project_id = $2`, params: [`user-42`, 7] },
+      session
+    )
+    expect(url.searchParams.get(`where`)).toBe(
+      `user_id = $1 AND project_id = $2`
+    )
+    expect(url.searchParams.get(`params[1]`)).toBe(`user-42`)
+    expect(url.searchParams.get(`params[2]`)).toBe(`7`)
+  })
+
+  it(`accepts a filter without params`, () => {
+    const url = shapeUrl()
+    applySyncFilter(url, { where: `deleted_at IS NULL` }, session)
+    expect(url.searchParams.get(`where`)).toBe(`deleted_at IS NULL`)
+  })
+
+  it(`rejects a plain string filter`, () => {
+    expect(() =>
+      applySyncFilter(shapeUrl(), `user_id = 'user-42'` as never, session)
+    ).toThrow(`syncFilter must return { where, params }`)
+  })
+
+  it(`rejects placeholders that don't match the params`, () => {
+    expect(() =>
+      applySyncFilter(
+        shapeUrl(),
+        { where: `user_id = $1`, params: [] },
+        session
+      )
+    ).toThrow(`exactly the placeholders (none)`)
+    expect(() =>
+      applySyncFilter(
+        shapeUrl(),
+        { where: `user_id = $2`, params: [`user-42`] },
+        session
+      )
+    ).toThrow(`exactly the placeholders $1`)
+  })
+
+  it(`rejects session values interpolated into the where clause`, () => {
+    expect(() =>
+      applySyncFilter(
+        shapeUrl(),
+        { where: `user_id = 'user-42' OR $1 = ''`, params: [``] },
+        session
+      )
+    ).toThrow(`contains a session value`)
+    expect(() =>
+      applySyncFilter(
+        shapeUrl(),
+        { where: `email = 'ada@example.com'` },
+        session
+      )
+    ).toThrow(`contains a session value`)
+  })
+})
+
+describe(`shape route`, () => {
+  const fetchMock = vi.fn(async (_url: URL) => new Response(`[]`))
+
+  beforeEach(() => {
+    vi.stubGlobal(`fetch`, fetchMock)
+  })
+
+  afterEach(() => {
+    fetchMock.mockClear()
+    vi.unstubAllGlobals()
+  })
+
+  const requestShape = async (
+    query: string,
+    columns: { privateColumns?: string[]; shapePrivateColumns?: string[] } = {}
+  ) => {
+    const app = createCRUDRoutes({
+      table: todosTable,
+      basePath: `/api/todos`,
+      syncFilter: (session) => ({
+        where: `user_id = $1`,
+        params: [session.user.id],
+        privateColumns: columns.shapePrivateColumns,
+      }),
+      privateColumns: columns.privateColumns,
+      softDelete: true,
+    })
+    const response = await app.request(`http://localhost/api/todos?${query}`)
+    expect(response.status).toBe(200)
+    return fetchMock.mock.calls[0][0]
+  }
+
+  it(`filters the route's own table for the caller`, async () => {
+    const origin = await requestShape(`offset=-1&table=users&live=true`)
+    expect(origin.searchParams.get(`table`)).toBe(`todos`)
+    expect(origin.searchParams.get(`where`)).toBe(
+      `(user_id = $1) AND deleted_at IS NULL`
+    )
+    expect(origin.searchParams.get(`params[1]`)).toBe(`user-42`)
+    expect(origin.searchParams.get(`offset`)).toBe(`-1`)
+    expect(origin.searchParams.get(`live`)).toBe(`true`)
+  })
+
+  it(`ignores filters and columns sent by the client`, async () => {
+    const origin = await requestShape(
+      `offset=-1&where=true&params[1]=someone-else&columns=id`
+    )
+    expect(origin.searchParams.get(`where`)).toBe(
+      `(user_id = $1) AND deleted_at IS NULL`
+    )
+    expect(origin.searchParams.get(`params[1]`)).toBe(`user-42`)
+    expect(origin.searchParams.has(`columns`)).toBe(false)
+  })
+
+  it(`leaves the private columns out of the shape`, async () => {
+    const origin = await requestShape(`offset=-1`, {
+      privateColumns: [`user_ids`],
+    })
+    const columns = origin.searchParams.get(`columns`)!.split(`,`)
+    expect(columns).toContain(`text`)
+    expect(columns).not.toContain(`user_ids`)
+  })
+
+  it(`syncs the private columns a filter allows`, async () => {
+    const origin = await requestShape(`offset=-1`, {
+      privateColumns: [`user_ids`],
+      shapePrivateColumns: [],
+    })
+    expect(origin.searchParams.has(`columns`)).toBe(false)
+  })
+})
@@ -1,6 +1,16 @@
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import type { Env } from "hono"
+import type { JSONParsed } from "hono/utils/types"
 import { db } from "@/db/connection"
-import { eq, sql, and } from "drizzle-orm"
+import {
+  eq,
+  sql,
+  and,
+  isNull,
+  getTableColumns,
+  getTableName,
+  type Column,
+} from "drizzle-orm"
 import * as HttpStatusCodes from "stoker/http-status-codes"
 import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
 import createMessageObjectSchema from "stoker/openapi/schemas/create-message-object"
@@ -8,19 +18,199 @@ import * as HttpStatusPhrases from "stoker/http-status-phrases"
 import { createErrorSchema } from "stoker/openapi/schemas"
 import IdParamsSchema from "stoker/openapi/schemas/id-params"
 import { auth } from "@/lib/auth"
+import { recordActivity } from "@/lib/activity"
+import type { ActivityAction, ActivityTarget } from "@/db/schema"
+
+/** Database transaction handle passed to transaction callbacks */
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
 
 /**
  * Generates a unique transaction ID for database operations
  * @param tx - Database transaction object
  * @returns Promise resolving to transaction ID string
  */
-async function generateTxId(
-  tx: Parameters<Parameters<typeof db.transaction>[0]>[0]
-): Promise<number> {
+export async function generateTxId(tx: Transaction): Promise<number> {
   const txidResult = await tx.execute(sql`SELECT txid_current() as txid`)
   return parseInt(txidResult.rows[0].txid as unknown as string)
 }
 
+/**
+ * Error thrown from a hook to reject a write whose data is invalid in the
+ * context of the database, e.g. a reference to a row that can't be used.
+ * The route responds with a 422 and the error message.
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ValidationError"
+  }
+}
+
+/**
+ * Error thrown from an access callback or hook to deny a request. The route
+ * responds with a 403 and the error message. Any other error thrown by an
+ * access callback is treated the same way.
+ */
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AccessDeniedError"
+  }
+}
+
+/**
+ * Runs an access callback, turning whatever it throws into an
+ * AccessDeniedError unless it is a ValidationError
+ */
+async function checkAccess<T>(check: () => T | Promise<T>): Promise<T> {
+  try {
+    return await check()
+  } catch (error) {
+    if (
+      error instanceof ValidationError ||
+      error instanceof AccessDeniedError
+    ) {
+      throw error
+    }
+    throw new AccessDeniedError(
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+/**
+ * Electric shape filter. Values are sent separately as positional params and
+ * referenced as `$1`, `$2`, ... in `where`, so they are never spliced into
+ * the SQL Electric evaluates.
+ */
+export interface SyncFilter {
+  where: string
+  params?: (string | number)[]
+  /**
+   * Private columns of this shape, in place of the route's privateColumns,
+   * for filters that only match rows the caller may see in full
+   */
+  privateColumns?: string[]
+}
+
+/**
+ * Adds a sync filter to an Electric shape request
+ * @param url - Electric shape URL being proxied to
+ * @param filter - Filter returned by the route's syncFilter
+ * @param session - Session of the caller, used to detect interpolated values
+ * @throws Error if the filter is a plain string, its placeholders don't
+ *   match its params, or its where clause contains values from the session
+ */
+export function applySyncFilter(url: URL, filter: SyncFilter, session: any) {
+  if (typeof filter?.where !== "string") {
+    throw new Error(
+      "syncFilter must return { where, params } with values in params"
+    )
+  }
+
+  const params = filter.params ?? []
+  const placeholders = new Set(filter.where.match(/\$\d+/g) ?? [])
+  const expected = params.map((_, i) => `$${i + 1}`)
+  if (
+    placeholders.size !== params.length ||
+    !expected.every((placeholder) => placeholders.has(placeholder))
+  ) {
+    throw new Error(
+      `syncFilter where clause must use exactly the placeholders ${expected.join(", ") || "(none)"}`
+    )
+  }
+
+  // Session values belong in params; finding one in the where clause means
+  // it was interpolated into the SQL
+  const sessionValues = [session.user?.id, session.user?.email].filter(
+    (value): value is string => typeof value === "string" && value.length > 0
+  )
+  if (sessionValues.some((value) => filter.where.includes(value))) {
+    throw new Error(
+      "syncFilter where clause contains a session value; pass it in params"
+    )
+  }
+
+  url.searchParams.set("where", filter.where)
+  params.forEach((value, i) => {
+    url.searchParams.set(`params[${i + 1}]`, String(value))
+  })
+}
+
+/**
+ * Returns the name of the unique constraint a failed query violated, if any
+ * @param error - Error thrown by a query; drizzle wraps the driver error in `cause`
+ */
+export function getUniqueViolation(error: any): string | undefined {
+  const pgError = error?.code ? error : error?.cause
+  if (pgError?.code === "23505") {
+    return pgError.constraint ?? ""
+  }
+  return undefined
+}
+
+/** Zod schemas of the rows of a CRUD table and of the writes to it */
+interface CRUDSchemas {
+  select: z.ZodSchema
+  create: z.ZodSchema
+  update: z.ZodSchema
+}
+
+/** Endpoint of a CRUD write, with its success and error responses */
+type CRUDWriteEndpoint<TInput, TItem> =
+  | {
+      input: TInput
+      output: JSONParsed<{ txid: number; item: TItem }>
+      outputFormat: "json"
+      status: 200
+    }
+  | {
+      input: TInput
+      output: { error: string }
+      outputFormat: "json"
+      status: 401 | 403 | 422
+    }
+  | {
+      input: TInput
+      output: { error: string; constraint: string }
+      outputFormat: "json"
+      status: 409
+    }
+  | {
+      input: TInput
+      output: { error?: string; message?: string }
+      outputFormat: "json"
+      status: 404
+    }
+
+/**
+ * The write routes of createCRUDRoutes in the shape the typed client reads
+ * them. The handlers are built from loosely typed config, so their types
+ * can't be inferred from the routes themselves.
+ */
+type CRUDRoutesSchema<
+  TBasePath extends string,
+  TSchemas extends CRUDSchemas,
+> = {
+  [P in TBasePath]: {
+    $post: CRUDWriteEndpoint<
+      { json: z.input<TSchemas["create"]> },
+      z.output<TSchemas["select"]>
+    >
+  }
+} & {
+  [P in `${TBasePath}/:id`]: {
+    $put: CRUDWriteEndpoint<
+      { param: { id: number | string }; json: z.input<TSchemas["update"]> },
+      z.output<TSchemas["select"]>
+    >
+    $delete: CRUDWriteEndpoint<
+      { param: { id: number | string } },
+      z.output<TSchemas["select"]>
+    >
+  }
+}
+
 /**
  * Configuration for CRUD route generation
  *
@@ -31,7 +221,10 @@ async function generateTxId(
  *   table: todosTable,
  *   schema: { select: selectTodoSchema, create: createTodoSchema, update: updateTodoSchema },
  *   basePath: "/api/todos",
- *   syncFilter: (session) => `user_id = '${session.user.id}'`,
+ *   syncFilter: (session) => ({
+ *     where: "user_id = $1",
+ *     params: [session.user.id],
+ *   }),
  *   access: {
  *     create: (_session, _data) => true,
  *     update: (session, _id, _data) => eq(todosTable.user_id, session.user.id),
@@ -44,7 +237,10 @@ async function generateTxId(
  *   table: projectsTable,
  *   schema: { select: selectProjectSchema, create: createProjectSchema, update: updateProjectSchema },
  *   basePath: "/api/projects",
- *   syncFilter: (session) => `org_id = '${session.user.org_id}'`,
+ *   syncFilter: (session) => ({
+ *     where: "org_id = $1",
+ *     params: [session.user.org_id],
+ *   }),
  *   access: {
  *     create: (session, data) => {
  *       if (session.user.org_id !== data.org_id) {
@@ -66,32 +262,46 @@ async function generateTxId(
  * })
  * ```
  */
-interface CRUDConfig {
+interface CRUDConfig<
+  TBasePath extends string = string,
+  TSchemas extends CRUDSchemas = CRUDSchemas,
+> {
   /** Database table to perform operations on */
   table: any
   /** Zod schemas for validation */
-  schema?: {
-    select: z.ZodSchema
-    create: z.ZodSchema
-    update: z.ZodSchema
-  }
+  schema?: TSchemas
   /** Base path for the API routes (e.g., "/api/todos") */
-  basePath: string
+  basePath: TBasePath
   /**
-   * Function to generate Electric sync filter for user-specific data
-   * @example `(session) => \`user_id = '\${session.user.id}'\``
+   * Function to generate Electric sync filter for user-specific data. It
+   * receives the query params of the shape request, may look up data
+   * asynchronously, and throws to deny the shape with a 403. Values go in
+   * `params`; filters with session values in `where` are rejected.
+   * @example `(session) => ({ where: "user_id = $1", params: [session.user.id] })`
    */
-  syncFilter?: (session: any) => string
+  syncFilter?: (
+    session: any,
+    params: URLSearchParams
+  ) => SyncFilter | Promise<SyncFilter>
   /** Access control configuration for CRUD operations */
   access?: {
     /**
-     * Create access control - return true to allow, throw error to deny
+     * Create access control - return true to allow, throw error or return false to deny.
+     * Runs inside the write transaction and may be async, so it can check
+     * the data against the database.
      * @param session - Better-auth session object
      * @param data - Data being created
+     * @param tx - Database transaction the insert runs in
      * @returns true to allow creation
      * @throws Error to deny with custom message
+     * @throws ValidationError to reject the data with a 422
      * @example
      * ```typescript
+     * create: async (session, data, tx) => {
+     *   await assertProjectRole(tx, data.project_id, session.user.id, "editor")
+     *   return true
+     * }
+     * // or synchronously
      * create: (session, data) => {
      *   if (session.user.org_id !== data.org_id) {
      *     throw new Error("Can only create items in your organization")
@@ -100,12 +310,18 @@ interface CRUDConfig {
      * }
      * ```
      */
-    create?: (session: any, data: any) => true | never
+    create?: (
+      session: any,
+      data: any,
+      tx: Transaction
+    ) => boolean | Promise<boolean>
     /**
-     * Update access control - return true to allow, drizzle condition to filter, throw error to deny
+     * Update access control - return true to allow, drizzle condition to filter, throw error to deny.
+     * Runs inside the write transaction and may be async.
      * @param session - Better-auth session object
      * @param id - ID of item being updated
      * @param data - Data being updated
+     * @param tx - Database transaction the update runs in
      * @returns true to allow, drizzle where condition to filter, or throws error to deny
      * @example
      * ```typescript
@@ -117,11 +333,13 @@ interface CRUDConfig {
      * )
      * ```
      */
-    update?: (session: any, id: string, data: any) => true | any
+    update?: (session: any, id: number, data: any, tx: Transaction) => any
     /**
-     * Delete access control - return true to allow, drizzle condition to filter, throw error to deny
+     * Delete access control - return true to allow, drizzle condition to filter, throw error to deny.
+     * Runs inside the delete transaction and may be async.
      * @param session - Better-auth session object
      * @param id - ID of item being deleted
+     * @param tx - Database transaction the delete runs in
      * @returns true to allow, drizzle where condition to filter, or throws error to deny
      * @example
      * ```typescript
@@ -133,7 +351,92 @@ interface CRUDConfig {
      * }
      * ```
      */
-    delete?: (session: any, id: string) => true | any
+    delete?: (session: any, id: number, tx: Transaction) => any
+  }
+  /**
+   * Messages returned with a 409 when a write violates a unique constraint,
+   * keyed by constraint name
+   * @example `{ files_folder_name_unique: "A file with this name already exists in this folder" }`
+   */
+  conflictMessages?: Record<string, string>
+  /**
+   * Columns that stay on the server: they are left out of the synced shape,
+   * unless the sync filter says otherwise, and of the items returned by writes
+   * @example `["password_hash"]`
+   */
+  privateColumns?: string[]
+  /**
+   * Moves deleted items to the trash instead of removing them: DELETE sets
+   * the table's deleted_at and deleted_by columns, and trashed rows are left
+   * out of the shape and can't be updated or deleted again. afterDelete
+   * receives the trashed row.
+   */
+  softDelete?: boolean
+  /**
+   * Records every create, update and delete in the activity feed of the
+   * item's project, in the write transaction
+   */
+  activity?: {
+    /** What the rows are, e.g. `file` */
+    targetType: ActivityTarget
+    /** Project a row belongs to */
+    getProjectId: (item: any) => number
+    /** Name a row is listed with */
+    getName: (item: any) => string
+    /** Writes that are recorded, all of them by default */
+    actions?: ActivityAction[]
+  }
+  /** Hooks that run inside the write transaction, unless noted otherwise */
+  hooks?: {
+    /**
+     * Runs before an item is inserted, after access control has passed
+     * @param tx - Database transaction the insert runs in
+     * @param data - Data being created
+     * @returns Data to insert in place of the request body
+     * @throws ValidationError to reject the request with a 422
+     */
+    beforeCreate?: (tx: Transaction, data: any) => Promise<any>
+    /**
+     * Runs after an item is inserted, in the same transaction
+     * @param tx - Database transaction the insert ran in
+     * @param item - The inserted row
+     */
+    afterCreate?: (tx: Transaction, item: any) => Promise<void>
+    /**
+     * Runs once the insert is committed, outside the transaction, for side
+     * effects that can't be rolled back such as sending an email. A failure
+     * is logged and doesn't fail the request, as the item is already stored.
+     * @param item - The inserted row
+     */
+    afterCreateCommit?: (item: any) => Promise<void>
+    /**
+     * Runs before an update is written, after access control has passed
+     * @param tx - Database transaction the update runs in
+     * @param id - ID of item being updated
+     * @param data - Data being updated
+     * @returns Data to write in place of the request body
+     * @throws ValidationError to reject the request with a 422
+     * @example
+     * ```typescript
+     * beforeUpdate: async (tx, id, data) => {
+     *   const [current] = await tx.select().from(table).where(eq(table.id, id))
+     *   return { ...data, revision: current.revision + 1 }
+     * }
+     * ```
+     */
+    beforeUpdate?: (tx: Transaction, id: number, data: any) => Promise<any>
+    /**
+     * Runs after an item is updated, in the same transaction
+     * @param tx - Database transaction the update ran in
+     * @param item - The updated row
+     */
+    afterUpdate?: (tx: Transaction, item: any) => Promise<void>
+    /**
+     * Runs after an item is deleted, in the same transaction
+     * @param tx - Database transaction the delete ran in
+     * @param item - The deleted row, or the trashed row with softDelete
+     */
+    afterDelete?: (tx: Transaction, item: any) => Promise<void>
   }
 }
 
@@ -142,8 +445,77 @@ interface CRUDConfig {
  * @param config - Configuration object for the CRUD routes
  * @returns OpenAPIHono router with GET, POST, PUT, DELETE routes
  */
-export function createCRUDRoutes(config: CRUDConfig) {
-  const { table, schema, basePath, syncFilter, access } = config
+export function createCRUDRoutes<
+  TBasePath extends string,
+  TSchemas extends CRUDSchemas = CRUDSchemas,
+>(
+  config: CRUDConfig<TBasePath, TSchemas>
+): OpenAPIHono<Env, CRUDRoutesSchema<TBasePath, TSchemas>> {
+  const {
+    table,
+    schema,
+    basePath,
+    syncFilter,
+    access,
+    hooks,
+    conflictMessages,
+    privateColumns = [],
+    softDelete = false,
+    activity,
+  } = config
+
+  const columnNames = Object.values(
+    getTableColumns(table) as Record<string, Column>
+  ).map((column) => column.name)
+  /**
+   * Removes the private columns from a row before it is sent to the client
+   */
+  const toClientItem = <T extends Record<string, unknown> | undefined>(
+    item: T
+  ): T => {
+    if (!item || privateColumns.length === 0) return item
+    return Object.fromEntries(
+      Object.entries(item).filter(([key]) => !privateColumns.includes(key))
+    ) as T
+  }
+
+  /**
+   * Turns a unique constraint violation into a 409 response body, rethrowing
+   * any other error
+   */
+  const toConflict = (error: unknown) => {
+    const constraint = getUniqueViolation(error)
+    if (constraint === undefined) {
+      throw error
+    }
+    return {
+      error:
+        conflictMessages?.[constraint] ??
+        "An item with the same unique values already exists",
+      constraint,
+    }
+  }
+
+  /**
+   * Adds a write to the activity feed, if the table records it
+   */
+  const logActivity = async (
+    tx: Transaction,
+    actorId: string,
+    action: ActivityAction,
+    item: any
+  ) => {
+    if (!activity) return
+    if (activity.actions && !activity.actions.includes(action)) return
+    await recordActivity(tx, {
+      project_id: activity.getProjectId(item),
+      actor_id: actorId,
+      action,
+      target_type: activity.targetType,
+      target_id: item.id,
+      target_name: activity.getName(item),
+    })
+  }
 
   return new OpenAPIHono()
     .openapi(
@@ -167,15 +539,41 @@ export function createCRUDRoutes(config: CRUDConfig) {
         const url = new URL(c.req.raw.url)
         const originUrl = new URL(`http://localhost:3000/v1/shape`)
 
+        // The table always comes from the route, never from the client, so
+        // a shape can't be requested for a table under another route's filter
+        originUrl.searchParams.set(`table`, getTableName(table))
         url.searchParams.forEach((value, key) => {
-          if ([`live`, `table`, `handle`, `offset`, `cursor`].includes(key)) {
+          if ([`live`, `handle`, `offset`, `cursor`].includes(key)) {
             originUrl.searchParams.set(key, value)
           }
         })
 
+        let hiddenColumns = privateColumns
         if (syncFilter) {
-          const filter = syncFilter(session)
-          originUrl.searchParams.set("where", filter)
+          let filter: SyncFilter
+          try {
+            filter = await syncFilter(session, url.searchParams)
+          } catch (error) {
+            return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          // A malformed filter is a bug in the route, so let it surface as a 500
+          applySyncFilter(originUrl, filter, session)
+          hiddenColumns = filter.privateColumns ?? privateColumns
+        }
+        if (softDelete) {
+          const where = originUrl.searchParams.get(`where`)
+          originUrl.searchParams.set(
+            `where`,
+            where ? `(${where}) AND deleted_at IS NULL` : `deleted_at IS NULL`
+          )
+        }
+        if (hiddenColumns.length > 0) {
+          originUrl.searchParams.set(
+            `columns`,
+            columnNames
+              .filter((name) => !hiddenColumns.includes(name))
+              .join(`,`)
+          )
         }
 
         const response = await fetch(originUrl)
@@ -209,6 +607,9 @@ export function createCRUDRoutes(config: CRUDConfig) {
             createErrorSchema(schema?.create ?? z.string()),
             "The validation error(s)"
           ),
+          [HttpStatusCodes.CONFLICT]: {
+            description: "A unique constraint was violated",
+          },
         },
       }),
       async (c) => {
@@ -219,19 +620,48 @@ export function createCRUDRoutes(config: CRUDConfig) {
 
         const body = c.req.valid("json")
 
+        let result
+        let createdItem
         try {
-          if (access?.create) {
-            access.create(session, body)
-          }
+          result = await db.transaction(async (tx) => {
+            if (
+              access?.create &&
+              !(await checkAccess(() => access.create!(session, body, tx)))
+            ) {
+              throw new AccessDeniedError("You can't create this item")
+            }
+            const txid = await generateTxId(tx)
+            const data = hooks?.beforeCreate
+              ? await hooks.beforeCreate(tx, body)
+              : body
+            const [newItem] = await tx.insert(table).values(data).returning()
+            if (hooks?.afterCreate) {
+              await hooks.afterCreate(tx, newItem)
+            }
+            await logActivity(tx, session.user.id, `create`, newItem)
+            createdItem = newItem
+            return { item: toClientItem(newItem), txid }
+          })
         } catch (error) {
-          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+          if (error instanceof AccessDeniedError) {
+            return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof ValidationError) {
+            return c.json(
+              { error: error.message },
+              HttpStatusCodes.UNPROCESSABLE_ENTITY
+            )
+          }
+          return c.json(toConflict(error), HttpStatusCodes.CONFLICT)
         }
 
-        const result = await db.transaction(async (tx) => {
-          const txid = await generateTxId(tx)
-          const [newItem] = await tx.insert(table).values(body).returning()
-          return { item: newItem, txid }
-        })
+        if (hooks?.afterCreateCommit) {
+          try {
+            await hooks.afterCreateCommit(createdItem)
+          } catch (error) {
+            console.error(`afterCreateCommit failed for ${basePath}:`, error)
+          }
+        }
 
         return c.json(result, HttpStatusCodes.OK)
       }
@@ -260,6 +690,9 @@ export function createCRUDRoutes(config: CRUDConfig) {
             createErrorSchema(schema?.update ?? z.string()),
             "The validation error(s)"
           ),
+          [HttpStatusCodes.CONFLICT]: {
+            description: "A unique constraint was violated",
+          },
         },
       }),
       async (c) => {
@@ -271,29 +704,48 @@ export function createCRUDRoutes(config: CRUDConfig) {
         const { id } = c.req.valid("param")
         const body = c.req.valid("json")
 
-        let whereCondition = eq(table.id, id)
-
+        let result
         try {
-          if (access?.update) {
-            const accessResult = access.update(session, id, body)
-            if (accessResult !== true) {
-              whereCondition = and(whereCondition, accessResult)
+          result = await db.transaction(async (tx) => {
+            let whereCondition = softDelete
+              ? and(eq(table.id, id), isNull(table.deleted_at))
+              : eq(table.id, id)
+            if (access?.update) {
+              const accessResult = await checkAccess(() =>
+                access.update!(session, id, body, tx)
+              )
+              if (accessResult !== true) {
+                whereCondition = and(whereCondition, accessResult)
+              }
             }
-          }
+            const txid = await generateTxId(tx)
+            const data = hooks?.beforeUpdate
+              ? await hooks.beforeUpdate(tx, id, body)
+              : body
+            const [updatedItem] = await tx
+              .update(table)
+              .set(data)
+              .where(whereCondition)
+              .returning()
+            if (updatedItem) {
+              await hooks?.afterUpdate?.(tx, updatedItem)
+              await logActivity(tx, session.user.id, `update`, updatedItem)
+            }
+            return { item: toClientItem(updatedItem), txid }
+          })
         } catch (error) {
-          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+          if (error instanceof AccessDeniedError) {
+            return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof ValidationError) {
+            return c.json(
+              { error: error.message },
+              HttpStatusCodes.UNPROCESSABLE_ENTITY
+            )
+          }
+          return c.json(toConflict(error), HttpStatusCodes.CONFLICT)
         }
 
-        const result = await db.transaction(async (tx) => {
-          const txid = await generateTxId(tx)
-          const [updatedItem] = await tx
-            .update(table)
-            .set(body)
-            .where(whereCondition)
-            .returning()
-          return { item: updatedItem, txid }
-        })
-
         if (!result.item) {
           return c.json(
             { message: "Item not found" },
@@ -332,33 +784,52 @@ export function createCRUDRoutes(config: CRUDConfig) {
 
         const { id } = c.req.valid("param")
 
-        let whereCondition = eq(table.id, id)
-
+        let result
         try {
-          if (access?.delete) {
-            const accessResult = access.delete(session, id)
-            if (accessResult !== true) {
-              whereCondition = and(whereCondition, accessResult)
+          result = await db.transaction(async (tx) => {
+            let whereCondition = softDelete
+              ? and(eq(table.id, id), isNull(table.deleted_at))
+              : eq(table.id, id)
+            if (access?.delete) {
+              const accessResult = await checkAccess(() =>
+                access.delete!(session, id, tx)
+              )
+              if (accessResult !== true) {
+                whereCondition = and(whereCondition, accessResult)
+              }
             }
-          }
+            const txid = await generateTxId(tx)
+            const [deletedItem] = softDelete
+              ? await tx
+                  .update(table)
+                  .set({ deleted_at: sql`now()`, deleted_by: session.user.id })
+                  .where(whereCondition)
+                  .returning()
+              : await tx.delete(table).where(whereCondition).returning()
+            if (deletedItem) {
+              await hooks?.afterDelete?.(tx, deletedItem)
+              await logActivity(tx, session.user.id, `delete`, deletedItem)
+            }
+            return { item: toClientItem(deletedItem), txid }
+          })
         } catch (error) {
-          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+          if (error instanceof AccessDeniedError) {
+            return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+          }
+          if (error instanceof ValidationError) {
+            return c.json(
+              { error: error.message },
+              HttpStatusCodes.UNPROCESSABLE_ENTITY
+            )
+          }
+          throw error
         }
 
-        const result = await db.transaction(async (tx) => {
-          const txid = await generateTxId(tx)
-          const [deletedItem] = await tx
-            .delete(table)
-            .where(whereCondition)
-            .returning()
-          return { item: deletedItem, txid }
-        })
-
         if (!result.item) {
           return c.json({ error: "Item not found" }, HttpStatusCodes.NOT_FOUND)
         }
 
         return c.json(result, HttpStatusCodes.OK)
       }
-    )
+    ) as unknown as OpenAPIHono<Env, CRUDRoutesSchema<TBasePath, TSchemas>>
 }
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { compareCsvCells, parseCsv } from "@/lib/csv"
+
+describe(`parseCsv`, () => {
+  it(`splits rows and cells`, () => {
+    expect(parseCsv(`a,b\n1,2`)).toEqual([
+      [`a`, `b`],
+      [`1`, `2`],
+    ])
+  })
+
+  it(`keeps delimiters, line breaks and doubled quotes inside quoted cells`, () => {
+    expect(parseCsv(`"a,b","line\nbreak","say ""hi"""`)).toEqual([
+      [`a,b`, `line\nbreak`, `say "hi"`],
+    ])
+  })
+
+  it(`handles CRLF line breaks and ignores a trailing one`, () => {
+    expect(parseCsv(`a,b\r\n1,2\r\n`)).toEqual([
+      [`a`, `b`],
+      [`1`, `2`],
+    ])
+  })
+
+  it(`keeps empty cells`, () => {
+    expect(parseCsv(`a,,c\n,`)).toEqual([
+      [`a`, ``, `c`],
+      [``, ``],
+    ])
+  })
+
+  it(`uses the given delimiter`, () => {
+    expect(parseCsv(`a\tb,c`, `\t`)).toEqual([[`a`, `b,c`]])
+  })
+
+  it(`returns no rows for empty text`, () => {
+    expect(parseCsv(``)).toEqual([])
+  })
+})
+
+describe(`compareCsvCells`, () => {
+  it(`compares numbers numerically`, () => {
+    expect([`10`, `9`, `-1.5`].sort(compareCsvCells)).toEqual([
+      `-1.5`,
+      `9`,
+      `10`,
+    ])
+  })
+
+  it(`compares text in natural order`, () => {
+    expect([`item 10`, `item 2`, `apple`].sort(compareCsvCells)).toEqual([
+      `apple`,
+      `item 2`,
+      `item 10`,
+    ])
+  })
+
+  it(`doesn't treat empty cells as zero`, () => {
+    expect(compareCsvCells(``, `0`)).toBeLessThan(0)
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain the
+ * delimiter, line breaks and doubled quotes; a trailing line break doesn't
+ * add an empty row.
+ * @param text - The CSV text
+ * @param delimiter - Cell separator, e.g. "\t" for TSV files
+ */
+export function parseCsv(text: string, delimiter = `,`): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ``
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === `"` && text[i + 1] === `"`) {
+        cell += `"`
+        i++
+      } else if (char === `"`) {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === `"` && cell === ``) {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ``
+    } else if (char === `\n` || char === `\r`) {
+      if (char === `\r` && text[i + 1] === `\n`) i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ``
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== `` || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Compares two cells for sorting: numerically when both are numbers,
+ * otherwise as text in natural order
+ */
+export function compareCsvCells(a: string, b: string): number {
+  const x = Number(a)
+  const y = Number(b)
+  if (a.trim() !== `` && b.trim() !== `` && !isNaN(x) && !isNaN(y)) {
+    return x - y
+  }
+  return a.localeCompare(b, undefined, { numeric: true })
+}
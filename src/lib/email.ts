@@ -0,0 +1,68 @@
+import { mkdir, writeFile } from "fs/promises"
+import { join } from "path"
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+/** Delivers emails, e.g. through an SMTP server or an email API */
+export interface EmailTransport {
+  send: (message: EmailMessage) => Promise<void>
+}
+
+/**
+ * Transport for development that prints emails to the server console
+ */
+export const consoleTransport: EmailTransport = {
+  send: async (message) => {
+    console.log(
+      [
+        `----- email -----`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        ``,
+        message.text,
+        `-----------------`,
+      ].join(`\n`)
+    )
+  },
+}
+
+/**
+ * Transport for development that writes each email to a file in a folder,
+ * where it can be opened instead of being delivered
+ * @param directory - Folder the emails are written to
+ */
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    send: async (message) => {
+      await mkdir(directory, { recursive: true })
+      const name = `${new Date().toISOString().replace(/[:.]/g, `-`)}-${message.to.replace(/[^\w.@-]/g, `_`)}.eml`
+      await writeFile(
+        join(directory, name),
+        `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+      )
+    },
+  }
+}
+
+// Emails go to files when EMAIL_OUTBOX_DIR is set, otherwise to the console
+let transport: EmailTransport = process.env.EMAIL_OUTBOX_DIR
+  ? createFileTransport(process.env.EMAIL_OUTBOX_DIR)
+  : consoleTransport
+
+/**
+ * Replaces the transport emails are delivered with
+ */
+export function setEmailTransport(next: EmailTransport) {
+  transport = next
+}
+
+/**
+ * Sends an email through the configured transport
+ */
+export async function sendEmail(message: EmailMessage) {
+  await transport.send(message)
+}
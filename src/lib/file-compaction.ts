@@ -0,0 +1,132 @@
+import { asc, eq, lte, and, sql } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { filesTable, fileUpdatesTable } from "@/db/schema"
+import type { Transaction } from "@/lib/createCRUDRoutes"
+import { mergeFileSnapshots, toFileSnapshot } from "@/lib/loro"
+
+// Number of pending updates a file may accumulate before they are folded
+// into its snapshot
+export const COMPACTION_THRESHOLD = 50
+
+/**
+ * Locks a file row and returns the sequence number for its next update
+ * @param tx - Transaction the update will be appended in
+ * @param fileId - File the update belongs to
+ * @returns Next free seq for the file
+ */
+export async function nextFileUpdateSeq(
+  tx: Transaction,
+  fileId: number
+): Promise<number> {
+  // Serialize appends per file so two writers never pick the same seq
+  await tx
+    .select({ id: filesTable.id })
+    .from(filesTable)
+    .where(eq(filesTable.id, fileId))
+    .for("update")
+
+  const [{ maxSeq }] = await tx
+    .select({
+      maxSeq: sql<number>`coalesce(max(${fileUpdatesTable.seq}), 0)`,
+    })
+    .from(fileUpdatesTable)
+    .where(eq(fileUpdatesTable.file_id, fileId))
+  return Number(maxSeq) + 1
+}
+
+/**
+ * Folds a file's pending updates into files.loro_snapshot and deletes them
+ * @param tx - Transaction to compact in; the caller must hold the file lock
+ * @param fileId - File to compact
+ * @returns Number of updates that were folded
+ */
+export async function compactFileUpdates(
+  tx: Transaction,
+  fileId: number
+): Promise<number> {
+  const [file] = await tx
+    .select({ loro_snapshot: filesTable.loro_snapshot })
+    .from(filesTable)
+    .where(eq(filesTable.id, fileId))
+  if (!file) return 0
+
+  const updates = await tx
+    .select({
+      seq: fileUpdatesTable.seq,
+      loro_update: fileUpdatesTable.loro_update,
+    })
+    .from(fileUpdatesTable)
+    .where(eq(fileUpdatesTable.file_id, fileId))
+    .orderBy(asc(fileUpdatesTable.seq))
+  if (updates.length === 0) return 0
+
+  const snapshot = mergeFileSnapshots(
+    file.loro_snapshot,
+    ...updates.map((update) => update.loro_update)
+  )
+  const lastSeq = updates[updates.length - 1].seq
+
+  await tx
+    .update(filesTable)
+    .set({ loro_snapshot: snapshot, updated_at: new Date() })
+    .where(eq(filesTable.id, fileId))
+  await tx
+    .delete(fileUpdatesTable)
+    .where(
+      and(
+        eq(fileUpdatesTable.file_id, fileId),
+        lte(fileUpdatesTable.seq, lastSeq)
+      )
+    )
+
+  return updates.length
+}
+
+/**
+ * Compacts a file once its pending updates reach COMPACTION_THRESHOLD
+ * @param tx - Transaction an update was just appended in
+ * @param fileId - File that received the update
+ * @returns Whether the file was compacted
+ */
+export async function maybeCompactFileUpdates(
+  tx: Transaction,
+  fileId: number
+): Promise<boolean> {
+  const [{ pending }] = await tx
+    .select({ pending: sql<number>`count(*)` })
+    .from(fileUpdatesTable)
+    .where(eq(fileUpdatesTable.file_id, fileId))
+  if (Number(pending) < COMPACTION_THRESHOLD) return false
+  await compactFileUpdates(tx, fileId)
+  return true
+}
+
+/**
+ * Converts the snapshots of text files still holding their raw text, from
+ * before files were backed by Loro, into Loro snapshots. Runs as a
+ * maintenance task, so once at startup and then finding nothing to do.
+ * @returns Number of files converted
+ */
+export async function convertLegacyFileSnapshots(): Promise<number> {
+  return db.transaction(async (tx) => {
+    const legacy = await tx
+      .select({ id: filesTable.id, loro_snapshot: filesTable.loro_snapshot })
+      .from(filesTable)
+      .where(
+        and(
+          eq(filesTable.kind, `text`),
+          sql`length(${filesTable.loro_snapshot}) > 0`,
+          sql`substring(${filesTable.loro_snapshot} from 1 for 4) <> 'loro'::bytea`
+        )
+      )
+      .for(`update`, { skipLocked: true })
+
+    for (const file of legacy) {
+      await tx
+        .update(filesTable)
+        .set({ loro_snapshot: toFileSnapshot(file.loro_snapshot!) })
+        .where(eq(filesTable.id, file.id))
+    }
+    return legacy.length
+  })
+}
@@ -0,0 +1,158 @@
+import { and, desc, eq, isNull, or, sql } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { fileSearchTable, fileUpdatesTable, filesTable } from "@/db/schema"
+import type { Transaction } from "@/lib/createCRUDRoutes"
+import { readFileSnapshot } from "@/lib/file-versions"
+import { readFileContent } from "@/lib/loro"
+import { getSearchTerms, type SearchLineMatch } from "@/lib/search"
+
+// Most files returned for one search
+const MAX_SEARCH_RESULTS = 50
+// Most matching lines returned for each file
+const MAX_LINE_MATCHES = 5
+// Longest line text returned; longer lines are cut around the first match
+const MAX_LINE_LENGTH = 200
+
+/**
+ * Rewrites the search index entry of a file from its current content
+ * @param tx - Transaction the content changed in
+ * @param fileId - File whose content changed
+ */
+export async function indexFileContent(tx: Transaction, fileId: number) {
+  const [file] = await tx
+    .select({ project_id: filesTable.project_id, kind: filesTable.kind })
+    .from(filesTable)
+    .where(eq(filesTable.id, fileId))
+  // Assets have no text to search
+  if (!file || file.kind === "asset") return
+
+  // Read before the content, so an update appended in between is indexed
+  // again rather than missed
+  const [{ lastUpdateId }] = await tx
+    .select({ lastUpdateId: sql<number | null>`max(${fileUpdatesTable.id})` })
+    .from(fileUpdatesTable)
+    .where(eq(fileUpdatesTable.file_id, fileId))
+  const content = readFileContent(await readFileSnapshot(tx, fileId))
+  const entry = {
+    project_id: file.project_id,
+    content,
+    indexed_update_id: lastUpdateId,
+    updated_at: new Date(),
+  }
+  await tx
+    .insert(fileSearchTable)
+    .values({ file_id: fileId, ...entry })
+    .onConflictDoUpdate({ target: fileSearchTable.file_id, set: entry })
+}
+
+/**
+ * Indexes the text files that have no search entry yet, such as files
+ * created before search existed, or that received updates not yet folded
+ * into their entry. Runs as a maintenance task, as files are otherwise only
+ * indexed when their snapshot changes.
+ * @returns Number of files indexed
+ */
+export async function indexStaleFiles(): Promise<number> {
+  return db.transaction(async (tx) => {
+    const stale = await tx
+      .select({ id: filesTable.id })
+      .from(filesTable)
+      .leftJoin(fileSearchTable, eq(fileSearchTable.file_id, filesTable.id))
+      .where(
+        and(
+          eq(filesTable.kind, "text"),
+          isNull(filesTable.deleted_at),
+          or(
+            isNull(fileSearchTable.file_id),
+            sql`EXISTS (SELECT 1 FROM ${fileUpdatesTable} WHERE ${fileUpdatesTable.file_id} = ${filesTable.id} AND ${fileUpdatesTable.id} > coalesce(${fileSearchTable.indexed_update_id}, 0))`
+          )
+        )
+      )
+    for (const file of stale) {
+      await indexFileContent(tx, file.id)
+    }
+    return stale.length
+  })
+}
+
+/**
+ * Finds the lines of a file containing any of the search terms
+ * @returns Up to MAX_LINE_MATCHES lines, and how many lines matched
+ */
+function findLineMatches(content: string, terms: string[]) {
+  const matches: SearchLineMatch[] = []
+  let total = 0
+  content.split(`\n`).forEach((text, index) => {
+    const lower = text.toLowerCase()
+    const ranges: [number, number][] = []
+    for (const term of terms) {
+      for (
+        let start = lower.indexOf(term);
+        start !== -1;
+        start = lower.indexOf(term, start + term.length)
+      ) {
+        ranges.push([start, start + term.length])
+      }
+    }
+    if (ranges.length === 0) return
+    total++
+    if (matches.length >= MAX_LINE_MATCHES) return
+
+    ranges.sort((a, b) => a[0] - b[0])
+    // Long lines are cut around the first match
+    const offset = Math.max(
+      0,
+      Math.min(ranges[0][0] - 40, text.length - MAX_LINE_LENGTH)
+    )
+    matches.push({
+      line: index + 1,
+      text: text.slice(offset, offset + MAX_LINE_LENGTH),
+      ranges: ranges
+        .map(([start, end]): [number, number] => [start - offset, end - offset])
+        .filter(([, end]) => end <= MAX_LINE_LENGTH),
+    })
+  })
+  return { matches, total }
+}
+
+/**
+ * Searches the text of every file in a project, best matches first. Edits
+ * not yet compacted are found once indexStaleFiles has run.
+ * @param tx - Transaction to read in
+ * @param projectId - Project to search
+ * @param query - Search in web search syntax: words, "quoted phrases",
+ *   OR and -excluded words
+ */
+export async function searchProjectFiles(
+  tx: Transaction,
+  projectId: number,
+  query: string
+) {
+  const tsQuery = sql`websearch_to_tsquery('simple', ${query})`
+  const rank = sql<number>`ts_rank(${fileSearchTable.search_vector}, ${tsQuery})`
+  const rows = await tx
+    .select({
+      file_id: fileSearchTable.file_id,
+      name: filesTable.name,
+      folder_id: filesTable.folder_id,
+      content: fileSearchTable.content,
+      rank,
+    })
+    .from(fileSearchTable)
+    .innerJoin(filesTable, eq(filesTable.id, fileSearchTable.file_id))
+    .where(
+      and(
+        eq(fileSearchTable.project_id, projectId),
+        isNull(filesTable.deleted_at),
+        sql`${fileSearchTable.search_vector} @@ ${tsQuery}`
+      )
+    )
+    .orderBy(desc(rank), filesTable.name)
+    .limit(MAX_SEARCH_RESULTS)
+
+  const terms = getSearchTerms(query)
+  return rows.map(({ content, ...row }) => {
+    const { matches, total } = findLineMatches(content, terms)
+    return { ...row, rank: Number(row.rank), matches, match_count: total }
+  })
+}
@@ -0,0 +1,276 @@
+import { getProjectCollections } from "@/lib/collections"
+import { type File, type Folder } from "@/db/schema"
+
+// MIME type used to carry a dragged tree item between drag and drop events
+export const TREE_ITEM_MIME = "application/x-project-tree-item"
+
+/** A file or folder being moved in the project tree */
+export type TreeItemRef = { type: "file" | "folder"; id: number }
+
+/**
+ * Whether a folder is the given ancestor or nested anywhere below it
+ * @param folders - All folders of the project
+ * @param folderId - Folder to check
+ * @param ancestorId - Folder that may contain it
+ */
+export function isFolderWithin(
+  folders: Folder[],
+  folderId: number | null,
+  ancestorId: number
+): boolean {
+  const visited = new Set<number>()
+  let current = folderId
+  while (current !== null && !visited.has(current)) {
+    if (current === ancestorId) return true
+    visited.add(current)
+    current = folders.find((f) => f.id === current)?.parent_folder_id ?? null
+  }
+  return false
+}
+
+/**
+ * Whether a sibling with the same name already exists in a folder
+ * @param type - Kind of item being named
+ * @param name - Proposed name
+ * @param folderId - Folder the item will live in, or null for the root
+ * @param folders - All folders of the project
+ * @param files - All files of the project
+ * @param excludeId - Item being renamed or moved, which doesn't conflict with itself
+ */
+export function hasNameConflict(
+  type: TreeItemRef["type"],
+  name: string,
+  folderId: number | null,
+  folders: Folder[],
+  files: File[],
+  excludeId?: number
+): boolean {
+  if (type === "folder") {
+    return folders.some(
+      (f) =>
+        f.id !== excludeId && f.parent_folder_id === folderId && f.name === name
+    )
+  }
+  return files.some(
+    (f) => f.id !== excludeId && f.folder_id === folderId && f.name === name
+  )
+}
+
+/**
+ * Describes a folder for use in messages
+ */
+export function describeFolder(
+  folderId: number | null,
+  folders: Folder[]
+): string {
+  return folderId === null
+    ? "the project root"
+    : `"${folders.find((f) => f.id === folderId)?.name ?? "Unknown"}"`
+}
+
+/**
+ * Checks whether a file or folder can be moved into a folder
+ * @param item - Item being moved
+ * @param targetFolderId - Destination folder, or null for the project root
+ * @param folders - All folders of the project
+ * @param files - All files of the project
+ * @returns A message explaining why the move is not allowed, or null
+ */
+export function getMoveError(
+  item: TreeItemRef,
+  targetFolderId: number | null,
+  folders: Folder[],
+  files: File[]
+): string | null {
+  if (item.type === "folder") {
+    const folder = folders.find((f) => f.id === item.id)
+    if (!folder) return "This folder no longer exists"
+    if (isFolderWithin(folders, targetFolderId, folder.id)) {
+      return `Can't move "${folder.name}" into itself`
+    }
+    return hasNameConflict(
+      "folder",
+      folder.name,
+      targetFolderId,
+      folders,
+      files,
+      folder.id
+    )
+      ? `A folder named "${folder.name}" already exists in ${describeFolder(targetFolderId, folders)}`
+      : null
+  }
+
+  const file = files.find((f) => f.id === item.id)
+  if (!file) return "This file no longer exists"
+  return hasNameConflict(
+    "file",
+    file.name,
+    targetFolderId,
+    folders,
+    files,
+    file.id
+  )
+    ? `A file named "${file.name}" already exists in ${describeFolder(targetFolderId, folders)}`
+    : null
+}
+
+/**
+ * Picks a name for a copy of an item that doesn't clash with its siblings,
+ * e.g. "main copy.ts", then "main copy 2.ts"
+ * @param name - Name of the original
+ * @param isTaken - Whether a candidate name is already used
+ */
+export function getCopyName(
+  name: string,
+  isTaken: (candidate: string) => boolean
+): string {
+  const dot = name.lastIndexOf(".")
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const extension = dot > 0 ? name.slice(dot) : ""
+
+  let candidate = `${base} copy${extension}`
+  for (let n = 2; isTaken(candidate); n++) {
+    candidate = `${base} copy ${n}${extension}`
+  }
+  return candidate
+}
+
+/** A visible row of the project tree, in display order */
+export interface TreeRow extends TreeItemRef {
+  /** Unique across files and folders, see getTreeItemKey */
+  key: string
+  name: string
+  level: number
+  parentFolderId: number | null
+  hasChildren: boolean
+}
+
+/**
+ * Returns a key identifying a file or folder across both kinds
+ */
+export function getTreeItemKey(item: TreeItemRef): string {
+  return `${item.type}:${item.id}`
+}
+
+/**
+ * Flattens the project tree into the rows currently visible, with folders
+ * before files at every level and both sorted by name
+ * @param folders - All folders of the project
+ * @param files - All files of the project
+ * @param expanded - Ids of the folders whose contents are shown
+ */
+export function flattenTree(
+  folders: Pick<Folder, "id" | "name" | "parent_folder_id">[],
+  files: Pick<File, "id" | "name" | "folder_id">[],
+  expanded: Set<number>
+): TreeRow[] {
+  const byName = (a: { name: string }, b: { name: string }) =>
+    a.name.localeCompare(b.name)
+  const rows: TreeRow[] = []
+
+  const visit = (parentId: number | null, level: number) => {
+    const childFolders = folders
+      .filter((f) => f.parent_folder_id === parentId)
+      .sort(byName)
+    const childFiles = files
+      .filter((f) => f.folder_id === parentId)
+      .sort(byName)
+
+    for (const folder of childFolders) {
+      rows.push({
+        key: getTreeItemKey({ type: "folder", id: folder.id }),
+        type: "folder",
+        id: folder.id,
+        name: folder.name,
+        level,
+        parentFolderId: parentId,
+        hasChildren:
+          folders.some((f) => f.parent_folder_id === folder.id) ||
+          files.some((f) => f.folder_id === folder.id),
+      })
+      if (expanded.has(folder.id)) {
+        visit(folder.id, level + 1)
+      }
+    }
+    for (const file of childFiles) {
+      rows.push({
+        key: getTreeItemKey({ type: "file", id: file.id }),
+        type: "file",
+        id: file.id,
+        name: file.name,
+        level,
+        parentFolderId: parentId,
+        hasChildren: false,
+      })
+    }
+  }
+
+  visit(null, 0)
+  return rows
+}
+
+/**
+ * Optimistically moves a file or folder into another folder
+ * @param projectId - Project the item belongs to
+ * @param item - Item being moved
+ * @param targetFolderId - Destination folder, or null for the project root
+ * @returns The collection transaction, or null if the item is already there
+ */
+export function moveTreeItem(
+  projectId: number,
+  item: TreeItemRef,
+  targetFolderId: number | null
+) {
+  const { foldersCollection, filesCollection } =
+    getProjectCollections(projectId)
+  if (item.type === "folder") {
+    const folder = foldersCollection.get(item.id)
+    if (!folder || folder.parent_folder_id === targetFolderId) return null
+    return foldersCollection.update(item.id, (draft) => {
+      draft.parent_folder_id = targetFolderId
+      draft.updated_at = new Date()
+    })
+  }
+
+  const file = filesCollection.get(item.id)
+  if (!file || file.folder_id === targetFolderId) return null
+  return filesCollection.update(item.id, (draft) => {
+    draft.folder_id = targetFolderId
+    draft.updated_at = new Date()
+  })
+}
+
+/**
+ * Extracts a readable message from a failed collection mutation. API
+ * handlers throw the JSON error body returned by the server.
+ */
+export function getMutationErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error)
+  try {
+    const body = JSON.parse(message)
+    if (typeof body.error === "string") return body.error
+    if (typeof body.message === "string") return body.message
+    return message
+  } catch (_error) {
+    return message
+  }
+}
+
+/**
+ * Returns a folder and its ancestors, outermost first
+ * @param folders - All folders of the project
+ * @param folderId - Folder to start from, or null for the project root
+ */
+export function getFolderChain<
+  T extends Pick<Folder, "id" | "parent_folder_id">,
+>(folders: T[], folderId: number | null): T[] {
+  const chain: T[] = []
+  let current = folderId
+  while (current !== null && !chain.some((f) => f.id === current)) {
+    const folder = folders.find((f) => f.id === current)
+    if (!folder) break
+    chain.unshift(folder)
+    current = folder.parent_folder_id
+  }
+  return chain
+}
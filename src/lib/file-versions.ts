@@ -0,0 +1,76 @@
+import { asc, desc, eq } from "drizzle-orm"
+import { filesTable, fileUpdatesTable, fileVersionsTable } from "@/db/schema"
+import type { Transaction } from "@/lib/createCRUDRoutes"
+import { mergeFileSnapshots } from "@/lib/loro"
+
+// Minimum time between two automatic versions of the same file
+export const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000
+
+/**
+ * Reads the current state of a file, including updates not yet compacted
+ * @param tx - Transaction to read in
+ * @param fileId - File to read
+ * @returns Snapshot of the file, or null if it does not exist
+ */
+export async function readFileSnapshot(
+  tx: Transaction,
+  fileId: number
+): Promise<Uint8Array | null> {
+  const [file] = await tx
+    .select({ loro_snapshot: filesTable.loro_snapshot })
+    .from(filesTable)
+    .where(eq(filesTable.id, fileId))
+  if (!file) return null
+
+  const updates = await tx
+    .select({ loro_update: fileUpdatesTable.loro_update })
+    .from(fileUpdatesTable)
+    .where(eq(fileUpdatesTable.file_id, fileId))
+    .orderBy(asc(fileUpdatesTable.seq))
+
+  return mergeFileSnapshots(
+    file.loro_snapshot,
+    ...updates.map((update) => update.loro_update)
+  )
+}
+
+/**
+ * Records an automatic version of a file unless one was recorded within
+ * AUTO_VERSION_INTERVAL_MS
+ * @param tx - Transaction an update was just appended in
+ * @param fileId - File that received the update
+ * @param authorId - User the version is attributed to
+ */
+export async function maybeRecordAutoVersion(
+  tx: Transaction,
+  fileId: number,
+  authorId: string
+) {
+  const [latest] = await tx
+    .select({ created_at: fileVersionsTable.created_at })
+    .from(fileVersionsTable)
+    .where(eq(fileVersionsTable.file_id, fileId))
+    .orderBy(desc(fileVersionsTable.created_at))
+    .limit(1)
+  if (
+    latest &&
+    Date.now() - latest.created_at.getTime() < AUTO_VERSION_INTERVAL_MS
+  ) {
+    return
+  }
+
+  const [file] = await tx
+    .select({ project_id: filesTable.project_id })
+    .from(filesTable)
+    .where(eq(filesTable.id, fileId))
+  const snapshot = await readFileSnapshot(tx, fileId)
+  if (!file || !snapshot) return
+
+  await tx.insert(fileVersionsTable).values({
+    file_id: fileId,
+    project_id: file.project_id,
+    name: null,
+    loro_snapshot: snapshot,
+    author_id: authorId,
+  })
+}
@@ -0,0 +1,128 @@
+import { and, eq, inArray, isNull } from "drizzle-orm"
+import { filesTable, foldersTable } from "@/db/schema"
+import { ValidationError, type Transaction } from "@/lib/createCRUDRoutes"
+import { recordActivity } from "@/lib/activity"
+import { indexFileContent } from "@/lib/file-search"
+import { readFileSnapshot } from "@/lib/file-versions"
+
+/**
+ * Copies a folder with everything in it that isn't in the trash, next to
+ * the original. Text files are copied with their current content, including
+ * updates not yet compacted, and assets share the stored blob of the
+ * original.
+ * @param tx - Transaction to write in
+ * @param folderId - Folder to copy
+ * @param name - Name of the copy, unique among the siblings of the original
+ * @param actorId - User making the copy, for the activity feed
+ * @throws ValidationError if the folder is gone or the name is taken
+ * @returns Id of the copy and how many folders and files were created
+ */
+export async function duplicateFolder(
+  tx: Transaction,
+  folderId: number,
+  name: string,
+  actorId: string
+) {
+  const [folder] = await tx
+    .select({
+      project_id: foldersTable.project_id,
+      parent_folder_id: foldersTable.parent_folder_id,
+    })
+    .from(foldersTable)
+    .where(and(eq(foldersTable.id, folderId), isNull(foldersTable.deleted_at)))
+  if (!folder) {
+    throw new ValidationError(`This folder no longer exists`)
+  }
+  const projectId = folder.project_id
+
+  const folders = await tx
+    .select({
+      id: foldersTable.id,
+      parent_folder_id: foldersTable.parent_folder_id,
+      name: foldersTable.name,
+    })
+    .from(foldersTable)
+    .where(
+      and(
+        eq(foldersTable.project_id, projectId),
+        isNull(foldersTable.deleted_at)
+      )
+    )
+  if (
+    folders.some(
+      (f) => f.parent_folder_id === folder.parent_folder_id && f.name === name
+    )
+  ) {
+    throw new ValidationError(`A folder named "${name}" already exists here`)
+  }
+
+  const [copy] = await tx
+    .insert(foldersTable)
+    .values({
+      project_id: projectId,
+      parent_folder_id: folder.parent_folder_id,
+      name,
+    })
+    .returning({ id: foldersTable.id })
+  await recordActivity(tx, {
+    project_id: projectId,
+    actor_id: actorId,
+    action: `create`,
+    target_type: `folder`,
+    target_id: copy.id,
+    target_name: name,
+  })
+
+  // Ids of the copies by id of the original, filled in parents first so
+  // each copy can be created inside the copy of its parent
+  const copies = new Map([[folderId, copy.id]])
+  const queue = [folderId]
+  while (queue.length > 0) {
+    const parentId = queue.shift()!
+    for (const child of folders) {
+      if (child.parent_folder_id !== parentId || copies.has(child.id)) continue
+      const [created] = await tx
+        .insert(foldersTable)
+        .values({
+          project_id: projectId,
+          parent_folder_id: copies.get(parentId)!,
+          name: child.name,
+        })
+        .returning({ id: foldersTable.id })
+      copies.set(child.id, created.id)
+      queue.push(child.id)
+    }
+  }
+
+  const files = await tx
+    .select()
+    .from(filesTable)
+    .where(
+      and(
+        inArray(filesTable.folder_id, [...copies.keys()]),
+        isNull(filesTable.deleted_at)
+      )
+    )
+  for (const file of files) {
+    const [created] = await tx
+      .insert(filesTable)
+      .values({
+        project_id: projectId,
+        folder_id: copies.get(file.folder_id!)!,
+        name: file.name,
+        kind: file.kind,
+        loro_snapshot:
+          file.kind === `text`
+            ? await readFileSnapshot(tx, file.id)
+            : file.loro_snapshot,
+        language: file.language,
+        mime_type: file.mime_type,
+        size: file.size,
+        blob_hash: file.blob_hash,
+      })
+      .returning({ id: filesTable.id })
+    await indexFileContent(tx, created.id)
+  }
+
+  return { id: copy.id, folders: copies.size, files: files.length }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import { ValidationError, type Transaction } from "@/lib/createCRUDRoutes"
+import {
+  assertFolderInProject,
+  assertValidFolderParent,
+} from "@/lib/folder-hierarchy"
+
+/**
+ * Transaction stand-in that answers every select with the given parent
+ * folder and the recursive ancestor query with whether it found a match
+ */
+const createTx = ({
+  parent,
+  withinFolder = false,
+}: {
+  parent?: { project_id: number }
+  withinFolder?: boolean
+}) => {
+  const executed: unknown[] = []
+  const query = {
+    from: () => query,
+    where: () => query,
+    for: () => query,
+    then: (resolve: (rows: unknown[]) => void) =>
+      resolve(parent ? [parent] : []),
+  }
+  const tx = {
+    select: () => query,
+    execute: async (statement: unknown) => {
+      executed.push(statement)
+      return { rows: withinFolder ? [{ "?column?": 1 }] : [] }
+    },
+  } as unknown as Transaction
+  return { tx, executed }
+}
+
+describe(`assertFolderInProject`, () => {
+  it(`allows the project root`, async () => {
+    const { tx } = createTx({})
+    await expect(assertFolderInProject(tx, null, 1)).resolves.toBeUndefined()
+  })
+
+  it(`allows a folder of the same project`, async () => {
+    const { tx } = createTx({ parent: { project_id: 1 } })
+    await expect(assertFolderInProject(tx, 5, 1)).resolves.toBeUndefined()
+  })
+
+  it(`rejects a missing or trashed folder`, async () => {
+    const { tx } = createTx({})
+    await expect(assertFolderInProject(tx, 5, 1)).rejects.toThrow(
+      `The destination folder does not exist`
+    )
+  })
+
+  it(`rejects a folder of another project`, async () => {
+    const { tx } = createTx({ parent: { project_id: 2 } })
+    await expect(assertFolderInProject(tx, 5, 1)).rejects.toBeInstanceOf(
+      ValidationError
+    )
+  })
+})
+
+describe(`assertValidFolderParent`, () => {
+  it(`rejects moving a folder into one of its descendants`, async () => {
+    const { tx } = createTx({ parent: { project_id: 1 }, withinFolder: true })
+    await expect(
+      assertValidFolderParent(tx, { id: 3, project_id: 1, parent_folder_id: 7 })
+    ).rejects.toThrow(
+      `A folder can't be moved into itself or one of its subfolders`
+    )
+  })
+
+  it(`allows moving a folder outside its subtree`, async () => {
+    const { tx, executed } = createTx({ parent: { project_id: 1 } })
+    await expect(
+      assertValidFolderParent(tx, { id: 3, project_id: 1, parent_folder_id: 7 })
+    ).resolves.toBeUndefined()
+    expect(executed).toHaveLength(1)
+  })
+
+  it(`skips the cycle check for new folders and moves to the root`, async () => {
+    const { tx, executed } = createTx({
+      parent: { project_id: 1 },
+      withinFolder: true,
+    })
+    await assertValidFolderParent(tx, { project_id: 1, parent_folder_id: 7 })
+    await assertValidFolderParent(tx, {
+      id: 3,
+      project_id: 1,
+      parent_folder_id: null,
+    })
+    expect(executed).toHaveLength(0)
+  })
+
+  it(`rejects a cross-project parent before looking for cycles`, async () => {
+    const { tx, executed } = createTx({ parent: { project_id: 2 } })
+    await expect(
+      assertValidFolderParent(tx, { id: 3, project_id: 1, parent_folder_id: 7 })
+    ).rejects.toThrow(`The destination folder belongs to a different project`)
+    expect(executed).toHaveLength(0)
+  })
+})
@@ -0,0 +1,114 @@
+import { and, eq, isNull, sql } from "drizzle-orm"
+import { foldersTable, projectsTable } from "@/db/schema"
+import { ValidationError, type Transaction } from "@/lib/createCRUDRoutes"
+
+/**
+ * Checks that a folder can be used as the parent of an item in a project
+ * @param tx - Transaction the write runs in
+ * @param parentFolderId - Proposed parent folder, or null for the root
+ * @param projectId - Project the item belongs to
+ * @throws ValidationError if the folder is missing, in the trash or in
+ *   another project
+ */
+export async function assertFolderInProject(
+  tx: Transaction,
+  parentFolderId: number | null,
+  projectId: number
+) {
+  if (parentFolderId === null) return
+
+  const [parent] = await tx
+    .select({ project_id: foldersTable.project_id })
+    .from(foldersTable)
+    .where(
+      and(eq(foldersTable.id, parentFolderId), isNull(foldersTable.deleted_at))
+    )
+  if (!parent) {
+    throw new ValidationError(`The destination folder does not exist`)
+  }
+  if (parent.project_id !== projectId) {
+    throw new ValidationError(
+      `The destination folder belongs to a different project`
+    )
+  }
+}
+
+/**
+ * Whether a folder is the given folder or one of its descendants, found by
+ * walking up the ancestors of the candidate with a recursive query
+ * @param tx - Transaction to read in
+ * @param candidateId - Folder that may be nested inside
+ * @param folderId - Folder whose subtree is checked
+ */
+export async function isWithinFolder(
+  tx: Transaction,
+  candidateId: number,
+  folderId: number
+): Promise<boolean> {
+  // UNION rather than UNION ALL so a loop already in the data terminates
+  const result = await tx.execute(sql`
+    WITH RECURSIVE ancestors(id, parent_folder_id) AS (
+      SELECT id, parent_folder_id FROM ${foldersTable}
+      WHERE id = ${candidateId}
+      UNION
+      SELECT f.id, f.parent_folder_id FROM ${foldersTable} f
+      JOIN ancestors a ON f.id = a.parent_folder_id
+    )
+    SELECT 1 FROM ancestors WHERE id = ${folderId} LIMIT 1
+  `)
+  return result.rows.length > 0
+}
+
+/**
+ * Returns the ids of a folder and all of its descendants, found by walking
+ * down the children of the folder with a recursive query
+ * @param tx - Transaction to read in
+ * @param folderId - Folder at the top of the subtree
+ */
+export async function getFolderSubtreeIds(
+  tx: Transaction,
+  folderId: number
+): Promise<number[]> {
+  const result = await tx.execute<{ id: number }>(sql`
+    WITH RECURSIVE subtree(id) AS (
+      SELECT id FROM ${foldersTable}
+      WHERE id = ${folderId}
+      UNION
+      SELECT f.id FROM ${foldersTable} f
+      JOIN subtree s ON f.parent_folder_id = s.id
+    )
+    SELECT id FROM subtree
+  `)
+  return result.rows.map((row) => Number(row.id))
+}
+
+/**
+ * Validates the parent of a folder before it is created or moved
+ * @param tx - Transaction the write runs in
+ * @param folder - The folder being written; id is omitted on create
+ * @throws ValidationError for a cross-project parent or a cycle
+ */
+export async function assertValidFolderParent(
+  tx: Transaction,
+  folder: { id?: number; project_id: number; parent_folder_id: number | null }
+) {
+  await assertFolderInProject(tx, folder.parent_folder_id, folder.project_id)
+
+  // Serialize moves within a project so two concurrent moves can't form a
+  // cycle together, e.g. A into B and B into A
+  await tx
+    .select({ id: projectsTable.id })
+    .from(projectsTable)
+    .where(eq(projectsTable.id, folder.project_id))
+    .for("update")
+
+  if (
+    folder.id !== undefined &&
+    folder.parent_folder_id !== null &&
+    (await isWithinFolder(tx, folder.parent_folder_id, folder.id))
+  ) {
+    throw new ValidationError(
+      `A folder can't be moved into itself or one of its subfolders`
+    )
+  }
+}
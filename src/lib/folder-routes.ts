@@ -0,0 +1,87 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import { foldersTable } from "@/db/schema"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  ValidationError,
+  generateTxId,
+} from "@/lib/createCRUDRoutes"
+import { duplicateFolder } from "@/lib/folder-copy"
+import { assertRowProjectRole } from "@/lib/project-access"
+
+/**
+ * Folder operations that span a whole subtree, for editors of the folder's
+ * project
+ */
+export const folderRoutes = new OpenAPIHono().openapi(
+  createRoute({
+    path: `/api/folders/{id}/duplicate`,
+    method: "post",
+    request: {
+      params: z.object({ id: z.coerce.number().int() }),
+      body: jsonContentRequired(
+        z.object({ name: z.string().trim().min(1) }),
+        "Name of the copy"
+      ),
+    },
+    responses: {
+      [HttpStatusCodes.OK]: jsonContent(
+        z.object({
+          txid: z.number(),
+          id: z.number(),
+          folders: z.number(),
+          files: z.number(),
+        }),
+        "The copy, with how many folders and files were created"
+      ),
+      [HttpStatusCodes.FORBIDDEN]: {
+        description: "Not an editor of the project",
+      },
+      [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+        description: "The folder is gone, or the name is taken",
+      },
+    },
+  }),
+  async (c) => {
+    const session = await auth.api.getSession({ headers: c.req.header() })
+    if (!session) {
+      return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+    }
+
+    const { id } = c.req.valid("param")
+    try {
+      const result = await db.transaction(async (tx) => {
+        await assertRowProjectRole(
+          tx,
+          foldersTable,
+          id,
+          session.user.id,
+          "editor"
+        )
+        const txid = await generateTxId(tx)
+        const copied = await duplicateFolder(
+          tx,
+          id,
+          c.req.valid("json").name,
+          session.user.id
+        )
+        return { txid, ...copied }
+      })
+      return c.json(result, HttpStatusCodes.OK)
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+      }
+      if (error instanceof ValidationError) {
+        return c.json(
+          { error: error.message },
+          HttpStatusCodes.UNPROCESSABLE_ENTITY
+        )
+      }
+      throw error
+    }
+  }
+)
@@ -0,0 +1,178 @@
+import { eq } from "drizzle-orm"
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/db/connection"
+import { users } from "@/db/auth-schema"
+import { projectInvitationsTable, projectMembersTable } from "@/db/schema"
+import { createTestProject, createTestUser } from "@/db/test-database"
+import { ValidationError } from "@/lib/createCRUDRoutes"
+import { invitationRoutes, prepareInvitation } from "@/lib/invitation-routes"
+import { claimProjectInvitations } from "@/lib/project-invitations"
+
+vi.mock(`@/db/connection`, async () => {
+  const { createTestDatabase } = await import(`@/db/test-database`)
+  return { db: await createTestDatabase() }
+})
+
+let session: { user: { id: string; email: string } }
+
+vi.mock(`@/lib/auth`, () => ({
+  auth: { api: { getSession: async () => session } },
+}))
+
+const signIn = (id: string) => {
+  session = { user: { id, email: `${id}@example.com` } }
+}
+
+let projectId: number
+
+beforeAll(async () => {
+  await createTestUser(db, `owner`)
+  await createTestUser(db, `member`)
+  projectId = await createTestProject(db, {
+    owner: `owner`,
+    member: `editor`,
+  })
+})
+
+beforeEach(() => signIn(`owner`))
+
+/** Creates an invitation the way the CRUD route does */
+const invite = async (email: string) => {
+  const [invitation] = await db.transaction(async (tx) =>
+    tx
+      .insert(projectInvitationsTable)
+      .values(
+        await prepareInvitation(tx, {
+          project_id: projectId,
+          email,
+          role: `viewer`,
+          invited_by: `owner`,
+        })
+      )
+      .returning()
+  )
+  return invitation
+}
+
+const post = (path: string) =>
+  invitationRoutes.request(`/api/invitations/${path}`, { method: `POST` })
+
+const isMember = async (userId: string) =>
+  (
+    await db
+      .select()
+      .from(projectMembersTable)
+      .where(eq(projectMembersTable.user_id, userId))
+  ).some((member) => member.project_id === projectId)
+
+describe(`prepareInvitation`, () => {
+  it(`links the invitation to a verified account with the email`, async () => {
+    await createTestUser(db, `verified`)
+    const invitation = await invite(`Verified@Example.com`)
+    expect(invitation).toMatchObject({
+      email: `verified@example.com`,
+      invitee_id: `verified`,
+      project_name: `Project`,
+      inviter_name: `owner`,
+    })
+    expect(invitation.token).toEqual(expect.any(String))
+  })
+
+  it(`leaves an unverified account to claim the invitation`, async () => {
+    await createTestUser(db, `unverified`)
+    await db
+      .update(users)
+      .set({ emailVerified: false })
+      .where(eq(users.id, `unverified`))
+    const invitation = await invite(`unverified@example.com`)
+    expect(invitation.invitee_id).toBeNull()
+  })
+
+  it(`rejects inviting a member`, async () => {
+    await expect(invite(`member@example.com`)).rejects.toThrow(ValidationError)
+  })
+})
+
+describe(`claimProjectInvitations`, () => {
+  it(`links the open invitations sent to the email`, async () => {
+    const invitation = await invite(`newcomer@example.com`)
+    await createTestUser(db, `newcomer`)
+    await claimProjectInvitations(db, {
+      id: `newcomer`,
+      email: `newcomer@example.com`,
+    })
+    const [claimed] = await db
+      .select()
+      .from(projectInvitationsTable)
+      .where(eq(projectInvitationsTable.id, invitation.id))
+    expect(claimed.invitee_id).toBe(`newcomer`)
+  })
+})
+
+describe(`claiming an invitation by token`, () => {
+  it(`links it to the signed in user with the email`, async () => {
+    const invitation = await invite(`claimer@example.com`)
+    await createTestUser(db, `claimer`)
+    signIn(`claimer`)
+
+    const response = await post(`${invitation.token}/claim`)
+    expect(response.status).toBe(200)
+    const { item } = await response.json()
+    expect(item.invitee_id).toBe(`claimer`)
+  })
+
+  it(`refuses a user with another email`, async () => {
+    const invitation = await invite(`someone@example.com`)
+    signIn(`member`)
+    expect((await post(`${invitation.token}/claim`)).status).toBe(403)
+  })
+
+  it(`answers an unknown token with a 404`, async () => {
+    expect((await post(`no-such-token/claim`)).status).toBe(404)
+  })
+})
+
+describe(`answering an invitation`, () => {
+  it(`adds the invitee to the project on accept`, async () => {
+    await createTestUser(db, `accepter`)
+    const invitation = await invite(`accepter@example.com`)
+    signIn(`accepter`)
+
+    const response = await post(`${invitation.token}/accept`)
+    expect(response.status).toBe(200)
+    expect((await response.json()).item.status).toBe(`accepted`)
+    expect(await isMember(`accepter`)).toBe(true)
+
+    // An invitation is only answered once
+    expect((await post(`${invitation.token}/decline`)).status).toBe(422)
+  })
+
+  it(`doesn't add the invitee on decline`, async () => {
+    await createTestUser(db, `decliner`)
+    const invitation = await invite(`decliner@example.com`)
+    signIn(`decliner`)
+
+    const response = await post(`${invitation.token}/decline`)
+    expect((await response.json()).item.status).toBe(`declined`)
+    expect(await isMember(`decliner`)).toBe(false)
+  })
+
+  it(`refuses to accept an expired invitation`, async () => {
+    await createTestUser(db, `late`)
+    const invitation = await invite(`late@example.com`)
+    await db
+      .update(projectInvitationsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(projectInvitationsTable.id, invitation.id))
+    signIn(`late`)
+
+    expect((await post(`${invitation.token}/accept`)).status).toBe(422)
+    expect(await isMember(`late`)).toBe(false)
+  })
+
+  it(`refuses someone the invitation wasn't sent to`, async () => {
+    const invitation = await invite(`intended@example.com`)
+    signIn(`member`)
+    expect((await post(`${invitation.token}/accept`)).status).toBe(403)
+  })
+})
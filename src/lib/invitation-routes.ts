@@ -0,0 +1,334 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import { and, eq, lte } from "drizzle-orm"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import {
+  projectInvitationsTable,
+  projectMembersTable,
+  projectsTable,
+  selectProjectInvitationSchema,
+  type ProjectInvitation,
+} from "@/db/schema"
+import { users } from "@/db/auth-schema"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  ValidationError,
+  generateTxId,
+  type Transaction,
+} from "@/lib/createCRUDRoutes"
+import {
+  INVITATION_TTL_MS,
+  isInvitationExpired,
+  normalizeEmail,
+} from "@/lib/invitations"
+import {
+  createInvitationToken,
+  findUserByEmail,
+} from "@/lib/project-invitations"
+import { isProjectMember, syncProjectMemberIds } from "@/lib/project-access"
+
+/**
+ * Fills in the server-side fields of an invitation about to be created:
+ * the token, expiry, names shown to the invitee, and the invitee's account
+ * if the email is already registered and verified
+ * @param tx - Transaction the insert runs in
+ * @param data - Project, email, role and inviter sent by the client
+ * @throws ValidationError if the email already belongs to a member
+ */
+export async function prepareInvitation(
+  tx: Transaction,
+  data: Pick<ProjectInvitation, "project_id" | "email" | "role" | "invited_by">
+) {
+  const email = normalizeEmail(data.email)
+  const invitee = await findUserByEmail(tx, email)
+  if (invitee && (await isProjectMember(tx, data.project_id, invitee.id))) {
+    throw new ValidationError(`${email} is already a member of this project`)
+  }
+
+  // Expired invitations no longer count as open, so they don't block a new one
+  await tx
+    .delete(projectInvitationsTable)
+    .where(
+      and(
+        eq(projectInvitationsTable.project_id, data.project_id),
+        eq(projectInvitationsTable.email, email),
+        eq(projectInvitationsTable.status, `pending`),
+        lte(projectInvitationsTable.expires_at, new Date())
+      )
+    )
+
+  const [project] = await tx
+    .select({ name: projectsTable.name })
+    .from(projectsTable)
+    .where(eq(projectsTable.id, data.project_id))
+  const [inviter] = await tx
+    .select({ name: users.name })
+    .from(users)
+    .where(eq(users.id, data.invited_by))
+
+  return {
+    ...data,
+    email,
+    project_name: project.name,
+    inviter_name: inviter.name,
+    // An unverified account may not own the address, so it has to claim
+    // the invitation with the token from the email
+    invitee_id: invitee?.emailVerified ? invitee.id : null,
+    token: createInvitationToken(),
+    expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+  }
+}
+
+/**
+ * Links an open invitation to the signed in user, so it shows up in their
+ * inbox. Holding the token proves the user received the invitation email.
+ * @param tx - Transaction to write in
+ * @param token - Token of the invitation
+ * @param user - User claiming the invitation
+ * @returns The claimed invitation, or undefined if the token is unknown
+ * @throws AccessDeniedError if the invitation was sent to another email or
+ *   was already claimed by someone else
+ * @throws ValidationError if it was already answered
+ */
+async function claimInvitation(
+  tx: Transaction,
+  token: string,
+  user: { id: string; email: string }
+) {
+  const [invitation] = await tx
+    .select()
+    .from(projectInvitationsTable)
+    .where(eq(projectInvitationsTable.token, token))
+    .for("update")
+  if (!invitation) return undefined
+
+  if (
+    invitation.email !== normalizeEmail(user.email) ||
+    (invitation.invitee_id !== null && invitation.invitee_id !== user.id)
+  ) {
+    throw new AccessDeniedError(`This invitation was sent to someone else`)
+  }
+  if (invitation.status !== `pending`) {
+    throw new ValidationError(
+      `This invitation was already ${invitation.status}`
+    )
+  }
+
+  const [updated] = await tx
+    .update(projectInvitationsTable)
+    .set({ invitee_id: user.id })
+    .where(eq(projectInvitationsTable.id, invitation.id))
+    .returning()
+  return updated
+}
+
+/**
+ * Accepts or declines an invitation on behalf of the signed in user.
+ * Accepting adds them to the project with the invited role; if they are
+ * already a member their current role is kept.
+ * @param tx - Transaction to write in
+ * @param token - Token of the invitation
+ * @param user - User answering the invitation
+ * @param response - Whether the invitation is accepted or declined
+ * @returns The updated invitation, or undefined if the token is unknown
+ * @throws AccessDeniedError if the invitation was sent to another email
+ * @throws ValidationError if it was already answered, or is accepted
+ *   after it expired
+ */
+async function respondToInvitation(
+  tx: Transaction,
+  token: string,
+  user: { id: string; email: string },
+  response: "accept" | "decline"
+) {
+  const [invitation] = await tx
+    .select()
+    .from(projectInvitationsTable)
+    .where(eq(projectInvitationsTable.token, token))
+    .for("update")
+  if (!invitation) return undefined
+
+  if (
+    invitation.invitee_id !== user.id &&
+    invitation.email !== normalizeEmail(user.email)
+  ) {
+    throw new AccessDeniedError(`This invitation was sent to someone else`)
+  }
+  if (invitation.status !== `pending`) {
+    throw new ValidationError(
+      `This invitation was already ${invitation.status}`
+    )
+  }
+  // Expired invitations can still be declined to clear them from the inbox
+  if (response === `accept` && isInvitationExpired(invitation)) {
+    throw new ValidationError(`This invitation has expired`)
+  }
+
+  const [updated] = await tx
+    .update(projectInvitationsTable)
+    .set({
+      status: response === `accept` ? `accepted` : `declined`,
+      invitee_id: user.id,
+      responded_at: new Date(),
+    })
+    .where(eq(projectInvitationsTable.id, invitation.id))
+    .returning()
+
+  if (response === `accept`) {
+    await tx
+      .insert(projectMembersTable)
+      .values({
+        project_id: invitation.project_id,
+        user_id: user.id,
+        role: invitation.role,
+      })
+      .onConflictDoNothing()
+    await syncProjectMemberIds(tx, invitation.project_id)
+  }
+  return updated
+}
+
+/**
+ * Routes for claiming and answering project invitations. Creating and
+ * revoking them goes through the CRUD routes of project_invitations.
+ */
+export const invitationRoutes = new OpenAPIHono()
+  // Registered before the answer route, whose {response} would match "claim"
+  .openapi(
+    createRoute({
+      path: `/api/invitations/{token}/claim`,
+      method: "post",
+      request: {
+        params: z.object({ token: z.string() }),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            txid: z.number(),
+            item: selectProjectInvitationSchema,
+          }),
+          "The claimed invitation"
+        ),
+        [HttpStatusCodes.NOT_FOUND]: {
+          description: "Invitation not found",
+        },
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "The invitation was sent to someone else",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "The invitation was already answered",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      let result
+      try {
+        result = await db.transaction(async (tx) => {
+          const txid = await generateTxId(tx)
+          const item = await claimInvitation(
+            tx,
+            c.req.valid("param").token,
+            session.user
+          )
+          return { item, txid }
+        })
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        throw error
+      }
+
+      if (!result.item) {
+        return c.json(
+          { error: "Invitation not found" },
+          HttpStatusCodes.NOT_FOUND
+        )
+      }
+      return c.json(result, HttpStatusCodes.OK)
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/invitations/{token}/{response}`,
+      method: "post",
+      request: {
+        params: z.object({
+          token: z.string(),
+          response: z.enum([`accept`, `decline`]),
+        }),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            txid: z.number(),
+            item: selectProjectInvitationSchema,
+          }),
+          "The answered invitation"
+        ),
+        [HttpStatusCodes.NOT_FOUND]: {
+          description: "Invitation not found",
+        },
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "The invitation was sent to someone else",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "The invitation was already answered or has expired",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { token, response } = c.req.valid("param")
+
+      let result
+      try {
+        result = await db.transaction(async (tx) => {
+          const txid = await generateTxId(tx)
+          const item = await respondToInvitation(
+            tx,
+            token,
+            session.user,
+            response
+          )
+          return { item, txid }
+        })
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        throw error
+      }
+
+      if (!result.item) {
+        return c.json(
+          { error: "Invitation not found" },
+          HttpStatusCodes.NOT_FOUND
+        )
+      }
+      return c.json(result, HttpStatusCodes.OK)
+    }
+  )
@@ -0,0 +1,30 @@
+import { type ProjectInvitation } from "@/db/schema"
+
+// How long an invitation can be accepted after it was sent
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Normalizes an email address so invitations match accounts regardless of
+ * how the address was typed
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Whether an invitation has passed its expiry date
+ */
+export function isInvitationExpired(
+  invitation: Pick<ProjectInvitation, "expires_at">,
+  now = Date.now()
+): boolean {
+  return invitation.expires_at.getTime() <= now
+}
+
+/**
+ * Returns the path of the invitations inbox, highlighting one invitation
+ * @param token - Token of the invitation to highlight
+ */
+export function getInvitationPath(token: string): string {
+  return `/invitations?token=${encodeURIComponent(token)}`
+}
@@ -0,0 +1,41 @@
+import { LanguageDescription } from "@codemirror/language"
+import { languages } from "@codemirror/language-data"
+
+// Stored as the language of a file to turn detection off and show it as
+// plain text
+export const PLAIN_TEXT = "Plain Text"
+
+/** Languages a file can be edited as, by name */
+export const editorLanguages = [...languages].sort((a, b) =>
+  a.name.localeCompare(b.name)
+)
+
+/**
+ * Detects the language of a file from its name, e.g. TypeScript for
+ * "index.ts" or Dockerfile for "Dockerfile"
+ * @returns The language, or null if the name doesn't suggest one
+ */
+export function detectLanguage(fileName: string): LanguageDescription | null {
+  return LanguageDescription.matchFilename(languages, fileName)
+}
+
+/**
+ * Language a file is edited as: the one chosen for it, or else the one its
+ * name suggests
+ * @returns The language, or null for plain text
+ */
+export function getFileLanguage(file: {
+  name: string
+  language: string | null
+}): LanguageDescription | null {
+  if (file.language === PLAIN_TEXT) return null
+  if (file.language) {
+    const chosen = LanguageDescription.matchLanguageName(
+      languages,
+      file.language,
+      false
+    )
+    if (chosen) return chosen
+  }
+  return detectLanguage(file.name)
+}
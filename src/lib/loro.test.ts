@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest"
+import {
+  createFileDoc,
+  exportFileSnapshot,
+  exportFileUpdate,
+  exportLocalChanges,
+  getFileText,
+  getLocalCounter,
+  importFileSnapshot,
+  loadFileDoc,
+  mergeFileSnapshots,
+  readFileContent,
+  setFileText,
+} from "@/lib/loro"
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+/** Two peers editing copies of the same file, without syncing */
+const fork = (content: string) => {
+  const base = exportFileSnapshot(createFileDoc(content))
+  return [loadFileDoc(base), loadFileDoc(base)]
+}
+
+describe(`mergeFileSnapshots`, () => {
+  it(`keeps concurrent edits of both peers`, () => {
+    const [alice, bob] = fork(`hello world`)
+    setFileText(alice, `hello brave world`)
+    setFileText(bob, `hello world!`)
+
+    const merged = mergeFileSnapshots(
+      exportFileSnapshot(alice),
+      exportFileSnapshot(bob)
+    )
+    expect(readFileContent(merged)).toBe(`hello brave world!`)
+  })
+
+  it(`gives the same result in any order`, () => {
+    const [alice, bob] = fork(`a`)
+    setFileText(alice, `ab`)
+    setFileText(bob, `ca`)
+    const a = exportFileSnapshot(alice)
+    const b = exportFileSnapshot(bob)
+
+    expect(readFileContent(mergeFileSnapshots(a, b))).toBe(
+      readFileContent(mergeFileSnapshots(b, a))
+    )
+  })
+
+  it(`converts a legacy plain-text row once, however often it is merged`, () => {
+    const legacy = encode(`legacy text`)
+    const merged = mergeFileSnapshots(null, legacy, mergeFileSnapshots(legacy))
+    expect(readFileContent(merged)).toBe(`legacy text`)
+  })
+
+  it(`skips data that can't be imported`, () => {
+    const snapshot = exportFileSnapshot(createFileDoc(`kept`))
+    const merged = mergeFileSnapshots(encode(`loro, but corrupt`), snapshot)
+    expect(readFileContent(merged)).toBe(`kept`)
+  })
+})
+
+describe(`loadFileDoc`, () => {
+  it(`applies pending updates on top of the snapshot`, () => {
+    const doc = createFileDoc(`one`)
+    const snapshot = exportFileSnapshot(doc)
+    const from = doc.oplogVersion()
+    setFileText(doc, `one two`)
+    const update = exportFileUpdate(doc, from)
+
+    expect(readFileContent(snapshot, [update])).toBe(`one two`)
+  })
+
+  it(`compacts a snapshot and its updates into one with the same text`, () => {
+    const doc = createFileDoc(`draft`)
+    const snapshot = exportFileSnapshot(doc)
+    const updates = [`draft 1`, `draft 12`, `final`].map((text) => {
+      const from = doc.oplogVersion()
+      setFileText(doc, text)
+      return exportFileUpdate(doc, from)
+    })
+
+    const compacted = exportFileSnapshot(loadFileDoc(snapshot, updates))
+    expect(readFileContent(compacted)).toBe(`final`)
+    expect(readFileContent(compacted, updates)).toBe(`final`)
+  })
+
+  it(`reads a legacy plain-text row as its text`, () => {
+    expect(getFileText(loadFileDoc(encode(`plain text`)))).toBe(`plain text`)
+  })
+
+  it(`returns an empty document without a snapshot`, () => {
+    expect(getFileText(loadFileDoc(null))).toBe(``)
+  })
+})
+
+describe(`importFileSnapshot`, () => {
+  it(`leaves legacy plain-text rows to the server`, () => {
+    const doc = createFileDoc()
+    importFileSnapshot(doc, encode(`plain text`))
+    expect(getFileText(doc)).toBe(``)
+    expect(getLocalCounter(doc)).toBe(0)
+  })
+})
+
+describe(`exportLocalChanges`, () => {
+  it(`exports only this peer's operations in the counter range`, () => {
+    const [editor, other] = fork(`abc`)
+    setFileText(other, `abcdef`)
+    editor.import(exportFileSnapshot(other))
+
+    const start = getLocalCounter(editor)
+    setFileText(editor, `xabcdef`)
+    const middle = getLocalCounter(editor)
+    setFileText(editor, `xabcdefy`)
+    const end = getLocalCounter(editor)
+
+    // The server already has the base and the other peer's edit
+    const server = loadFileDoc(exportFileSnapshot(other))
+    server.import(exportLocalChanges(editor, start, middle))
+    expect(getFileText(server)).toBe(`xabcdef`)
+    server.import(exportLocalChanges(editor, middle, end))
+    expect(getFileText(server)).toBe(`xabcdefy`)
+  })
+})
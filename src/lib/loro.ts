@@ -0,0 +1,192 @@
+import { LoroDoc, type LoroText, type VersionVector } from "loro-crdt"
+
+// Every file is backed by a LoroDoc with a single text container holding
+// its contents. The exported snapshot is what gets stored in
+// files.loro_snapshot.
+export const FILE_TEXT_CONTAINER = "content"
+
+/**
+ * Creates a new Loro document seeded with the given text
+ * @param content - Initial file contents
+ * @returns LoroDoc with the content committed
+ */
+export function createFileDoc(content = ""): LoroDoc {
+  const doc = new LoroDoc()
+  if (content) {
+    doc.getText(FILE_TEXT_CONTAINER).insert(0, content)
+    doc.commit()
+  }
+  return doc
+}
+
+// Peer that legacy plain-text rows are converted under. Converting the same
+// text always gives the same operations, so two conversions of a row merge
+// into a single copy of its text.
+const LEGACY_PEER_ID = 0
+
+// Every Loro export starts with these bytes
+const LORO_MAGIC = new TextEncoder().encode("loro")
+
+/**
+ * Tells whether stored bytes are a Loro export rather than a legacy row
+ * holding the raw UTF-8 text of the file, from before files were backed by
+ * Loro
+ */
+export function isLoroData(data: Uint8Array): boolean {
+  return LORO_MAGIC.every((byte, index) => data[index] === byte)
+}
+
+/**
+ * Returns stored bytes as a Loro snapshot, converting a legacy plain-text
+ * row into a document holding its text
+ *
+ * The conversion is deterministic, so the server can convert the same row
+ * more than once without duplicating its text.
+ * @param data - Bytes from files.loro_snapshot
+ * @returns Loro snapshot or update
+ */
+export function toFileSnapshot(data: Uint8Array): Uint8Array {
+  if (isLoroData(data)) return data
+  const doc = new LoroDoc()
+  doc.setPeerId(LEGACY_PEER_ID)
+  setFileText(doc, new TextDecoder().decode(data))
+  return exportFileSnapshot(doc)
+}
+
+/**
+ * Imports a stored snapshot into an existing file document
+ *
+ * Legacy plain-text rows are converted by the server (see
+ * convertLegacyFileSnapshots) and skipped here until they are, as text
+ * written into the document would be uploaded as this peer's own edit.
+ * @param doc - File document to import into
+ * @param snapshot - Bytes from files.loro_snapshot
+ */
+export function importFileSnapshot(doc: LoroDoc, snapshot: Uint8Array) {
+  if (!isLoroData(snapshot)) return
+  doc.import(snapshot)
+}
+
+/**
+ * Loads a Loro document from a stored snapshot and its pending updates, for
+ * reading. Legacy plain-text rows are converted with toFileSnapshot.
+ * @param snapshot - Bytes from files.loro_snapshot
+ * @param updates - Not yet compacted rows from file_updates, in seq order
+ * @returns LoroDoc for the file
+ */
+export function loadFileDoc(
+  snapshot: Uint8Array | null,
+  updates: Uint8Array[] = []
+): LoroDoc {
+  const doc = new LoroDoc()
+  if (snapshot && snapshot.length > 0) {
+    doc.import(toFileSnapshot(snapshot))
+  }
+  if (updates.length > 0) {
+    doc.importBatch(updates)
+  }
+  return doc
+}
+
+/**
+ * Returns the text container holding a file document's contents
+ */
+export function getFileTextContainer(doc: LoroDoc): LoroText {
+  return doc.getText(FILE_TEXT_CONTAINER)
+}
+
+/**
+ * Reads the current text of a file document
+ */
+export function getFileText(doc: LoroDoc): string {
+  return getFileTextContainer(doc).toString()
+}
+
+/**
+ * Replaces the text of a file document, recording the minimal diff as
+ * Loro operations so it merges cleanly with concurrent edits
+ */
+export function setFileText(doc: LoroDoc, content: string) {
+  doc.getText(FILE_TEXT_CONTAINER).update(content)
+  doc.commit()
+}
+
+/**
+ * Exports the full snapshot of a file document for storage
+ */
+export function exportFileSnapshot(doc: LoroDoc): Uint8Array {
+  return doc.export({ mode: "snapshot" })
+}
+
+/**
+ * Exports the operations made since a version, for appending to file_updates
+ * @param doc - File document
+ * @param from - Version to export from, usually `doc.oplogVersion()` taken
+ *   before the local edit
+ */
+export function exportFileUpdate(
+  doc: LoroDoc,
+  from: VersionVector
+): Uint8Array {
+  return doc.export({ mode: "update", from })
+}
+
+/**
+ * Returns the number of operations this peer has made on the document.
+ * Together with exportLocalChanges this lets an editor upload exactly its
+ * own edits, without echoing back remote operations it has imported.
+ */
+export function getLocalCounter(doc: LoroDoc): number {
+  return doc.oplogVersion().get(doc.peerIdStr) ?? 0
+}
+
+/**
+ * Exports this peer's operations in the counter range [from, to)
+ * @param doc - File document
+ * @param from - Local counter at the last upload
+ * @param to - Current local counter, from getLocalCounter
+ */
+export function exportLocalChanges(
+  doc: LoroDoc,
+  from: number,
+  to: number
+): Uint8Array {
+  return doc.export({
+    mode: "updates-in-range",
+    spans: [{ id: { peer: doc.peerIdStr, counter: from }, len: to - from }],
+  })
+}
+
+/**
+ * Decodes the text stored in a snapshot and its pending updates without
+ * keeping the document around
+ */
+export function readFileContent(
+  snapshot: Uint8Array | null,
+  updates: Uint8Array[] = []
+): string {
+  return getFileText(loadFileDoc(snapshot, updates))
+}
+
+/**
+ * Merges several snapshots (or updates) of the same file into one snapshot
+ *
+ * Legacy plain-text rows are converted with toFileSnapshot; other data that
+ * cannot be imported is skipped so the remaining histories still win.
+ * @param snapshots - Snapshots to merge, in any order
+ * @returns Snapshot containing the union of all histories
+ */
+export function mergeFileSnapshots(
+  ...snapshots: (Uint8Array | null)[]
+): Uint8Array {
+  const doc = new LoroDoc()
+  for (const snapshot of snapshots) {
+    if (!snapshot || snapshot.length === 0) continue
+    try {
+      doc.import(toFileSnapshot(snapshot))
+    } catch (_error) {
+      // Corrupt Loro data, nothing to merge
+    }
+  }
+  return exportFileSnapshot(doc)
+}
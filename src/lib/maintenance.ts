@@ -0,0 +1,51 @@
+import { sweepAssetStorage } from "@/lib/asset-storage"
+import { convertLegacyFileSnapshots } from "@/lib/file-compaction"
+import { indexStaleFiles } from "@/lib/file-search"
+import { purgeExpiredTrash } from "@/lib/trash"
+
+// How often the server runs its clean-up tasks
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000
+
+// Clean-up tasks that run on a schedule rather than on the request path,
+// by name for the logs
+const tasks: Record<string, () => Promise<unknown>> = {
+  "convert legacy file snapshots": convertLegacyFileSnapshots,
+  "index stale files": indexStaleFiles,
+  "purge expired trash": purgeExpiredTrash,
+  // After the purge, so blobs of purged assets go in the same run once
+  // their grace period is over
+  "sweep asset storage": sweepAssetStorage,
+}
+
+/**
+ * Runs every clean-up task once. A failing task is logged and doesn't stop
+ * the others.
+ */
+export async function runMaintenance() {
+  for (const [name, task] of Object.entries(tasks)) {
+    try {
+      await task()
+    } catch (error) {
+      console.error(`Maintenance task "${name}" failed:`, error)
+    }
+  }
+}
+
+/**
+ * Runs the clean-up tasks now and then every MAINTENANCE_INTERVAL_MS in this
+ * server process. Later calls do nothing, so reloading the API module in
+ * development doesn't start a second schedule.
+ */
+export function startMaintenance() {
+  const state = globalThis as {
+    maintenanceTimer?: ReturnType<typeof setInterval>
+  }
+  if (state.maintenanceTimer) return
+  state.maintenanceTimer = setInterval(
+    () => void runMaintenance(),
+    MAINTENANCE_INTERVAL_MS
+  )
+  // Don't keep the process alive just for maintenance
+  state.maintenanceTimer.unref?.()
+  void runMaintenance()
+}
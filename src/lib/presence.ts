@@ -0,0 +1,60 @@
+// A presence row that has not been refreshed for this long is treated as
+// gone; the tab was closed or lost its connection
+export const PRESENCE_TTL_MS = 30_000
+
+// How often an open tab refreshes its presence row
+export const PRESENCE_HEARTBEAT_MS = 10_000
+
+// Colors used for remote cursors, selections and avatars. Each user is
+// assigned one based on their id so it is stable across sessions.
+export const PRESENCE_COLORS = [
+  "#e11d48",
+  "#ea580c",
+  "#ca8a04",
+  "#16a34a",
+  "#0891b2",
+  "#2563eb",
+  "#7c3aed",
+  "#c026d3",
+] as const
+
+export interface PresenceColor {
+  /** CSS color value */
+  color: string
+  /** Class name the editor puts on the user's remote cursor and selection */
+  className: string
+}
+
+/**
+ * Returns the color assigned to a user
+ * @param userId - User to look up
+ */
+export function getPresenceColor(userId: string): PresenceColor {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  const index = Math.abs(hash) % PRESENCE_COLORS.length
+  return {
+    color: PRESENCE_COLORS[index],
+    className: `presence-color-${index}`,
+  }
+}
+
+/**
+ * Generates an id for a new presence row. Ids are picked by the client so
+ * the tab can refresh its row without waiting for the server.
+ */
+export function createPresenceId(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0] >>> 1 || 1
+}
+
+/**
+ * Whether a presence row has been refreshed within PRESENCE_TTL_MS
+ */
+export function isPresenceFresh(
+  presence: { updated_at: Date },
+  now = Date.now()
+): boolean {
+  return now - presence.updated_at.getTime() < PRESENCE_TTL_MS
+}
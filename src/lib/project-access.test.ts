@@ -0,0 +1,178 @@
+import { eq } from "drizzle-orm"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import { db } from "@/db/connection"
+import { users } from "@/db/auth-schema"
+import {
+  filesTable,
+  projectMembersTable,
+  projectsTable,
+  todosTable,
+} from "@/db/schema"
+import { createTestProject, createTestUser } from "@/db/test-database"
+import { AccessDeniedError, ValidationError } from "@/lib/createCRUDRoutes"
+import {
+  assertProjectHasOwner,
+  assertProjectRole,
+  assertRowProjectRole,
+  createProjectShapeFilter,
+  syncProjectMemberIds,
+} from "@/lib/project-access"
+
+vi.mock(`@/db/connection`, async () => {
+  const { createTestDatabase } = await import(`@/db/test-database`)
+  return { db: await createTestDatabase() }
+})
+
+let projectId: number
+
+beforeAll(async () => {
+  for (const id of [`owner`, `editor`, `commenter`, `viewer`, `outsider`]) {
+    await createTestUser(db, id)
+  }
+  projectId = await createTestProject(db, {
+    owner: `owner`,
+    editor: `editor`,
+    commenter: `commenter`,
+    viewer: `viewer`,
+  })
+})
+
+describe(`assertProjectRole`, () => {
+  it(`lets members with the role or a higher one through`, async () => {
+    await db.transaction(async (tx) => {
+      await assertProjectRole(tx, projectId, `editor`, `editor`)
+      await assertProjectRole(tx, projectId, `owner`, `editor`)
+      await assertProjectRole(tx, projectId, `viewer`, `viewer`)
+    })
+  })
+
+  it(`rejects members with a lower role`, async () => {
+    await expect(
+      db.transaction((tx) =>
+        assertProjectRole(tx, projectId, `commenter`, `editor`)
+      )
+    ).rejects.toThrow(`This requires the editor role, but you are a commenter`)
+  })
+
+  it(`rejects users who aren't members`, async () => {
+    await expect(
+      db.transaction((tx) =>
+        assertProjectRole(tx, projectId, `outsider`, `viewer`)
+      )
+    ).rejects.toThrow(AccessDeniedError)
+  })
+})
+
+describe(`assertRowProjectRole`, () => {
+  it(`checks the role in the project of the row`, async () => {
+    const [file] = await db
+      .insert(filesTable)
+      .values({ project_id: projectId, name: `row.txt` })
+      .returning({ id: filesTable.id })
+
+    await db.transaction((tx) =>
+      assertRowProjectRole(tx, filesTable, file.id, `editor`, `editor`)
+    )
+    await expect(
+      db.transaction((tx) =>
+        assertRowProjectRole(tx, filesTable, file.id, `viewer`, `editor`)
+      )
+    ).rejects.toThrow(AccessDeniedError)
+  })
+
+  it(`lets missing rows through for the route to answer`, async () => {
+    await db.transaction((tx) =>
+      assertRowProjectRole(tx, filesTable, 999999, `outsider`, `owner`)
+    )
+  })
+})
+
+describe(`syncProjectMemberIds`, () => {
+  it(`copies the members to the project, its todos and their peers`, async () => {
+    await createTestUser(db, `joiner`)
+    const otherProject = await createTestProject(db, { owner: `owner` })
+    const [todo] = await db
+      .insert(todosTable)
+      .values({ text: `Review`, user_id: `owner`, project_id: otherProject })
+      .returning({ id: todosTable.id })
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(projectMembersTable)
+        .values({ project_id: otherProject, user_id: `joiner`, role: `viewer` })
+      await syncProjectMemberIds(tx, otherProject)
+    })
+
+    const [project] = await db
+      .select({ member_ids: projectsTable.member_ids })
+      .from(projectsTable)
+      .where(eq(projectsTable.id, otherProject))
+    expect([...project.member_ids].sort()).toEqual([`joiner`, `owner`])
+    const [synced] = await db
+      .select({ user_ids: todosTable.user_ids })
+      .from(todosTable)
+      .where(eq(todosTable.id, todo.id))
+    expect([...synced.user_ids].sort()).toEqual([`joiner`, `owner`])
+    const [joiner] = await db
+      .select({ peer_ids: users.peer_ids })
+      .from(users)
+      .where(eq(users.id, `joiner`))
+    expect(joiner.peer_ids).toEqual([`owner`])
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(projectMembersTable)
+        .where(eq(projectMembersTable.user_id, `joiner`))
+      await syncProjectMemberIds(tx, otherProject)
+    })
+
+    const [left] = await db
+      .select({ peer_ids: users.peer_ids })
+      .from(users)
+      .where(eq(users.id, `joiner`))
+    expect(left.peer_ids).toEqual([])
+    const [removed] = await db
+      .select({ user_ids: todosTable.user_ids })
+      .from(todosTable)
+      .where(eq(todosTable.id, todo.id))
+    expect(removed.user_ids).toEqual([`owner`])
+  })
+})
+
+describe(`assertProjectHasOwner`, () => {
+  it(`rejects removing the last owner`, async () => {
+    const soloProject = await createTestProject(db, { owner: `owner` })
+    await expect(
+      db.transaction(async (tx) => {
+        await tx
+          .update(projectMembersTable)
+          .set({ role: `editor` })
+          .where(eq(projectMembersTable.project_id, soloProject))
+        await assertProjectHasOwner(tx, soloProject)
+      })
+    ).rejects.toThrow(ValidationError)
+  })
+})
+
+describe(`createProjectShapeFilter`, () => {
+  const session = (id: string) => ({ user: { id } })
+  const params = () => new URLSearchParams({ project_id: String(projectId) })
+
+  it(`filters the shape to the project for members with the role`, async () => {
+    const filter = createProjectShapeFilter(`owner`)
+    expect(await filter(session(`owner`), params())).toEqual({
+      where: `project_id = $1`,
+      params: [projectId],
+    })
+  })
+
+  it(`refuses members with a lower role and outsiders`, async () => {
+    const filter = createProjectShapeFilter(`owner`)
+    await expect(filter(session(`editor`), params())).rejects.toThrow(
+      `Syncing this requires the owner role`
+    )
+    await expect(filter(session(`outsider`), params())).rejects.toThrow(
+      `You are not a member of this project`
+    )
+  })
+})
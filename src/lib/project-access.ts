@@ -0,0 +1,270 @@
+import { and, count, eq, sql } from "drizzle-orm"
+import { db } from "@/db/connection"
+import {
+  filesTable,
+  foldersTable,
+  projectInvitationsTable,
+  projectMembersTable,
+  projectsTable,
+  shareLinksTable,
+  todosTable,
+  type ProjectRole,
+} from "@/db/schema"
+import { users } from "@/db/auth-schema"
+import {
+  AccessDeniedError,
+  ValidationError,
+  type SyncFilter,
+  type Transaction,
+} from "@/lib/createCRUDRoutes"
+import { assertFolderInProject } from "@/lib/folder-hierarchy"
+import { PROJECT_ROLE_LABELS, hasProjectRole } from "@/lib/project-roles"
+
+/**
+ * Returns the role of a user in a project
+ * @param tx - Transaction to read in, or the database outside of one
+ * @param projectId - Project to check
+ * @param userId - User whose role is looked up
+ * @returns The role, or null if the user is not a member
+ */
+export async function getProjectRole(
+  tx: Transaction | typeof db,
+  projectId: number,
+  userId: string
+): Promise<ProjectRole | null> {
+  const [member] = await tx
+    .select({ role: projectMembersTable.role })
+    .from(projectMembersTable)
+    .where(
+      and(
+        eq(projectMembersTable.project_id, projectId),
+        eq(projectMembersTable.user_id, userId)
+      )
+    )
+  return member?.role ?? null
+}
+
+/**
+ * Whether a user has any role in a project
+ * @param tx - Transaction to read in, or the database outside of one
+ * @param projectId - Project to check
+ * @param userId - User whose membership is checked
+ */
+export async function isProjectMember(
+  tx: Transaction | typeof db,
+  projectId: number,
+  userId: string
+): Promise<boolean> {
+  return (await getProjectRole(tx, projectId, userId)) !== null
+}
+
+/**
+ * Checks that a user has at least a given role in a project
+ * @param minimum - Least role the action needs; "viewer" for any member
+ * @throws AccessDeniedError if the user's role is lower or they are not a member
+ */
+export async function assertProjectRole(
+  tx: Transaction,
+  projectId: number,
+  userId: string,
+  minimum: ProjectRole
+) {
+  const role = await getProjectRole(tx, projectId, userId)
+  if (!role) {
+    throw new AccessDeniedError(`You are not a member of this project`)
+  }
+  if (!hasProjectRole(role, minimum)) {
+    throw new AccessDeniedError(
+      `This requires the ${PROJECT_ROLE_LABELS[minimum].toLowerCase()} role, but you are a ${PROJECT_ROLE_LABELS[role].toLowerCase()}`
+    )
+  }
+}
+
+// Tables whose rows belong to a project and are checked by id
+type ProjectRowTable =
+  | typeof foldersTable
+  | typeof filesTable
+  | typeof projectMembersTable
+  | typeof projectInvitationsTable
+  | typeof shareLinksTable
+
+/**
+ * Checks that a user has at least a given role in the project an existing
+ * row belongs to. Missing rows pass so the route can answer with a 404.
+ * @param table - Table of the row
+ * @param id - Id of the row
+ * @throws AccessDeniedError if the user's role is too low
+ */
+export async function assertRowProjectRole(
+  tx: Transaction,
+  table: ProjectRowTable,
+  id: number,
+  userId: string,
+  minimum: ProjectRole
+) {
+  const [row] = await tx
+    .select({ project_id: table.project_id })
+    .from(table)
+    .where(eq(table.id, id))
+  if (row) {
+    await assertProjectRole(tx, row.project_id, userId, minimum)
+  }
+}
+
+/**
+ * Checks that a file exists and belongs to a project
+ * @throws ValidationError if the file is missing or in another project
+ */
+export async function assertFileInProject(
+  tx: Transaction,
+  fileId: number,
+  projectId: number
+) {
+  const [file] = await tx
+    .select({ project_id: filesTable.project_id })
+    .from(filesTable)
+    .where(eq(filesTable.id, fileId))
+  if (!file) {
+    throw new ValidationError(`The file does not exist`)
+  }
+  if (file.project_id !== projectId) {
+    throw new ValidationError(`The file belongs to a different project`)
+  }
+}
+
+/**
+ * Verifies a row about to be written to a project: the user must have at
+ * least the given role, and the folder and file the row references, if
+ * any, must be part of the same project
+ * @param tx - Transaction the write runs in
+ * @param userId - User making the request
+ * @param row - The row being written
+ * @param minimum - Least role the write needs
+ * @throws AccessDeniedError if the user's role is too low
+ * @throws ValidationError if a referenced folder or file is elsewhere
+ */
+export async function verifyProjectRow(
+  tx: Transaction,
+  userId: string,
+  row: {
+    project_id: number
+    folder_id?: number | null
+    file_id?: number | null
+  },
+  minimum: ProjectRole
+) {
+  await assertProjectRole(tx, row.project_id, userId, minimum)
+  if (row.folder_id != null) {
+    await assertFolderInProject(tx, row.folder_id, row.project_id)
+  }
+  if (row.file_id != null) {
+    await assertFileInProject(tx, row.file_id, row.project_id)
+  }
+}
+
+/**
+ * Copies the members of a project to projects.member_ids and to the
+ * user_ids of its todos, which the projects and todos shapes are filtered
+ * on, and updates the peers of everyone who joined or left it
+ */
+export async function syncProjectMemberIds(tx: Transaction, projectId: number) {
+  const [project] = await tx
+    .select({ member_ids: projectsTable.member_ids })
+    .from(projectsTable)
+    .where(eq(projectsTable.id, projectId))
+  const members = await tx
+    .select({ user_id: projectMembersTable.user_id })
+    .from(projectMembersTable)
+    .where(eq(projectMembersTable.project_id, projectId))
+  const memberIds = members.map((member) => member.user_id)
+  await tx
+    .update(projectsTable)
+    .set({ member_ids: memberIds })
+    .where(eq(projectsTable.id, projectId))
+  await tx
+    .update(todosTable)
+    .set({ user_ids: memberIds })
+    .where(eq(todosTable.project_id, projectId))
+  await syncUserPeerIds(tx, [...(project?.member_ids ?? []), ...memberIds])
+}
+
+/**
+ * Recomputes users.peer_ids, the users sharing at least one project with
+ * each of the given users, which the users shape is filtered on
+ * @param tx - Transaction the membership change runs in
+ * @param userIds - Users whose projects changed
+ */
+export async function syncUserPeerIds(tx: Transaction, userIds: string[]) {
+  if (userIds.length === 0) return
+  await tx.execute(sql`
+    UPDATE ${users} u SET peer_ids = ARRAY(
+      SELECT DISTINCT other.user_id
+      FROM ${projectMembersTable} mine
+      JOIN ${projectMembersTable} other ON other.project_id = mine.project_id
+      WHERE mine.user_id = u.id AND other.user_id <> u.id
+    )
+    WHERE u.id IN ${[...new Set(userIds)]}
+  `)
+}
+
+/**
+ * Checks that a project still has an owner after its members changed
+ * @throws ValidationError if the last owner was removed or demoted
+ */
+export async function assertProjectHasOwner(
+  tx: Transaction,
+  projectId: number
+) {
+  const [{ owners }] = await tx
+    .select({ owners: count() })
+    .from(projectMembersTable)
+    .where(
+      and(
+        eq(projectMembersTable.project_id, projectId),
+        eq(projectMembersTable.role, "owner")
+      )
+    )
+  // A project that was deleted takes its members with it
+  const [project] = await tx
+    .select({ id: projectsTable.id })
+    .from(projectsTable)
+    .where(eq(projectsTable.id, projectId))
+  if (project && owners === 0) {
+    throw new ValidationError(`A project must keep at least one owner`)
+  }
+}
+
+/**
+ * Creates a sync filter for tables whose rows belong to a project. The
+ * client opens one shape per project by passing its id as the `project_id`
+ * shape param, and only members with at least the given role are given
+ * the shape.
+ *
+ * Electric doesn't support subqueries in shape filters, so membership is
+ * checked here on every shape request instead.
+ * @param minimum - Least role needed to sync the rows
+ */
+export function createProjectShapeFilter(minimum: ProjectRole) {
+  return async (
+    session: { user: { id: string } },
+    params: URLSearchParams
+  ): Promise<SyncFilter> => {
+    const projectId = Number(params.get(`project_id`))
+    if (!Number.isInteger(projectId)) {
+      throw new Error(`A project_id shape param is required`)
+    }
+    const role = await getProjectRole(db, projectId, session.user.id)
+    if (!role) {
+      throw new Error(`You are not a member of this project`)
+    }
+    if (!hasProjectRole(role, minimum)) {
+      throw new Error(
+        `Syncing this requires the ${PROJECT_ROLE_LABELS[minimum].toLowerCase()} role`
+      )
+    }
+    return { where: `project_id = $1`, params: [projectId] }
+  }
+}
+
+/** Sync filter giving every member of a project its rows */
+export const projectShapeFilter = createProjectShapeFilter(`viewer`)
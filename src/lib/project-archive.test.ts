@@ -0,0 +1,256 @@
+import { mkdtemp, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import { and, eq, isNull } from "drizzle-orm"
+import { strFromU8, unzipSync } from "fflate"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { db } from "@/db/connection"
+import { filesTable, foldersTable } from "@/db/schema"
+import { createTestProject, createTestUser } from "@/db/test-database"
+import {
+  completeAssetUpload,
+  startAssetUpload,
+  storeUploadChunk,
+} from "@/lib/asset-storage"
+import { createLocalBlobStore, setBlobStore } from "@/lib/blob-store"
+import { ValidationError } from "@/lib/createCRUDRoutes"
+import { readFileSnapshot } from "@/lib/file-versions"
+import { readFileContent } from "@/lib/loro"
+import {
+  ImportConflictError,
+  importProjectArchive,
+  streamProjectArchive,
+} from "@/lib/project-archive"
+
+vi.mock(`@/db/connection`, async () => {
+  const { createTestDatabase } = await import(`@/db/test-database`)
+  return { db: await createTestDatabase() }
+})
+
+let directory: string
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), `blobs-`))
+  setBlobStore(createLocalBlobStore(directory))
+  await createTestUser(db, `owner`)
+})
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+const importInto = (
+  projectId: number,
+  contents: { folders?: string[]; files?: { path: string; content: string }[] },
+  folderId: number | null = null
+) =>
+  db.transaction((tx) =>
+    importProjectArchive(tx, projectId, folderId, {
+      folders: contents.folders ?? [],
+      files: contents.files ?? [],
+    })
+  )
+
+/** Paths of the folders and files of a project, folders with a trailing / */
+const listPaths = async (projectId: number) => {
+  const folders = await db
+    .select()
+    .from(foldersTable)
+    .where(
+      and(
+        eq(foldersTable.project_id, projectId),
+        isNull(foldersTable.deleted_at)
+      )
+    )
+  const files = await db
+    .select()
+    .from(filesTable)
+    .where(
+      and(eq(filesTable.project_id, projectId), isNull(filesTable.deleted_at))
+    )
+  const pathOf = (folderId: number | null): string => {
+    const folder = folders.find((f) => f.id === folderId)
+    return folder ? `${pathOf(folder.parent_folder_id)}${folder.name}/` : ``
+  }
+  return [
+    ...folders.map((folder) => pathOf(folder.id)),
+    ...files.map((file) => `${pathOf(file.folder_id)}${file.name}`),
+  ].sort()
+}
+
+/** Expects an import to fail with conflicts at exactly the given paths */
+const expectConflicts = async (promise: Promise<unknown>, paths: string[]) => {
+  const error = await promise.catch((error: unknown) => error)
+  expect(error).toBeInstanceOf(ImportConflictError)
+  expect((error as ImportConflictError).conflicts.sort()).toEqual(paths)
+}
+
+describe(`importProjectArchive`, () => {
+  it(`creates the folders and files of the archive`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    const created = await importInto(projectId, {
+      folders: [`empty`],
+      files: [
+        { path: `src/index.ts`, content: `export {}` },
+        { path: `src/lib/util.ts`, content: `export const a = 1` },
+        { path: `README.md`, content: `# Readme` },
+      ],
+    })
+
+    expect(created).toEqual({ folders: 3, files: 3 })
+    expect(await listPaths(projectId)).toEqual([
+      `README.md`,
+      `empty/`,
+      `src/`,
+      `src/index.ts`,
+      `src/lib/`,
+      `src/lib/util.ts`,
+    ])
+    const [file] = await db
+      .select({ id: filesTable.id })
+      .from(filesTable)
+      .where(eq(filesTable.name, `util.ts`))
+    const content = await db.transaction(async (tx) =>
+      readFileContent(await readFileSnapshot(tx, file.id))
+    )
+    expect(content).toBe(`export const a = 1`)
+  })
+
+  it(`merges into folders that already exist`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    await importInto(projectId, { files: [{ path: `src/a.ts`, content: `` }] })
+    const created = await importInto(projectId, {
+      files: [{ path: `src/b.ts`, content: `` }],
+    })
+
+    expect(created).toEqual({ folders: 0, files: 1 })
+    expect(await listPaths(projectId)).toEqual([`src/`, `src/a.ts`, `src/b.ts`])
+  })
+
+  it(`imports into a folder`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    await importInto(projectId, { folders: [`target`] })
+    const [target] = await db
+      .select({ id: foldersTable.id })
+      .from(foldersTable)
+      .where(eq(foldersTable.project_id, projectId))
+
+    await importInto(
+      projectId,
+      { files: [{ path: `inner/a.ts`, content: `` }] },
+      target.id
+    )
+    expect(await listPaths(projectId)).toEqual([
+      `target/`,
+      `target/inner/`,
+      `target/inner/a.ts`,
+    ])
+  })
+
+  it(`rejects files whose names are taken, importing nothing`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    await importInto(projectId, { files: [{ path: `src/a.ts`, content: `` }] })
+
+    await expectConflicts(
+      importInto(projectId, {
+        files: [
+          { path: `src/a.ts`, content: `` },
+          { path: `src/new.ts`, content: `` },
+          { path: `twice.ts`, content: `` },
+          { path: `twice.ts`, content: `` },
+        ],
+      }),
+      [`src/a.ts`, `twice.ts`]
+    )
+    expect(await listPaths(projectId)).toEqual([`src/`, `src/a.ts`])
+  })
+
+  it(`rejects a file with the path of a folder`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    await importInto(projectId, { folders: [`docs`] })
+
+    // An existing folder
+    await expectConflicts(
+      importInto(projectId, { files: [{ path: `docs`, content: `` }] }),
+      [`docs`]
+    )
+    // A folder from the same archive, added by a later file
+    await expectConflicts(
+      importInto(projectId, {
+        files: [
+          { path: `lib`, content: `` },
+          { path: `lib/a.ts`, content: `` },
+        ],
+      }),
+      [`lib`]
+    )
+    expect(await listPaths(projectId)).toEqual([`docs/`])
+  })
+
+  it(`rejects a folder with the path of an existing file`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    await importInto(projectId, { files: [{ path: `notes`, content: `` }] })
+
+    await expectConflicts(
+      importInto(projectId, {
+        files: [{ path: `notes/today.md`, content: `` }],
+      }),
+      [`notes`]
+    )
+  })
+
+  it(`rejects paths that leave the folder`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    await expect(
+      importInto(projectId, { files: [{ path: `../escape.ts`, content: `` }] })
+    ).rejects.toThrow(ValidationError)
+  })
+})
+
+describe(`streamProjectArchive`, () => {
+  it(`zips the folders, the text of the files and the assets`, async () => {
+    const projectId = await createTestProject(db, { owner: `owner` })
+    await importInto(projectId, {
+      folders: [`empty`],
+      files: [
+        { path: `src/index.ts`, content: `export {}` },
+        { path: `gone.ts`, content: `` },
+      ],
+    })
+    await db
+      .update(filesTable)
+      .set({ deleted_at: new Date() })
+      .where(
+        and(
+          eq(filesTable.project_id, projectId),
+          eq(filesTable.name, `gone.ts`)
+        )
+      )
+    const { upload_id } = await db.transaction((tx) =>
+      startAssetUpload(tx, `owner`, {
+        project_id: projectId,
+        folder_id: null,
+        name: `image.png`,
+        mime_type: `image/png`,
+        size: 3,
+      })
+    )
+    await storeUploadChunk(upload_id, `owner`, 0, new Uint8Array([7, 8, 9]))
+    await completeAssetUpload(upload_id, `owner`)
+
+    const entries = unzipSync(
+      new Uint8Array(
+        await new Response(streamProjectArchive(projectId)).arrayBuffer()
+      )
+    )
+
+    expect(Object.keys(entries).sort()).toEqual([
+      `empty/`,
+      `image.png`,
+      `src/`,
+      `src/index.ts`,
+    ])
+    expect(strFromU8(entries[`src/index.ts`])).toBe(`export {}`)
+    expect(entries[`image.png`]).toEqual(new Uint8Array([7, 8, 9]))
+  })
+})
@@ -0,0 +1,292 @@
+import { and, asc, eq, isNull } from "drizzle-orm"
+import { Zip, ZipDeflate, ZipPassThrough, strToU8 } from "fflate"
+import { db } from "@/db/connection"
+import { filesTable, foldersTable } from "@/db/schema"
+import { ValidationError, type Transaction } from "@/lib/createCRUDRoutes"
+import { splitArchivePath, type ArchiveFile } from "@/lib/archive"
+import { readBlob } from "@/lib/asset-storage"
+import { indexFileContent } from "@/lib/file-search"
+import { readFileSnapshot } from "@/lib/file-versions"
+import { assertFolderInProject } from "@/lib/folder-hierarchy"
+import { createFileDoc, exportFileSnapshot, readFileContent } from "@/lib/loro"
+
+/**
+ * Error thrown when an import would create an item whose name is already
+ * taken. Nothing is imported; the route responds with a 409 listing the
+ * paths.
+ */
+export class ImportConflictError extends Error {
+  constructor(readonly conflicts: string[]) {
+    super(
+      conflicts.length === 1
+        ? `"${conflicts[0]}" already exists`
+        : `${conflicts.length} items already exist`
+    )
+    this.name = "ImportConflictError"
+  }
+}
+
+/**
+ * Streams a zip of the folders of a project with the text of each file and
+ * the content of each asset. Files are read one at a time from a single
+ * read-only snapshot, so the archive is consistent even while the project
+ * is being edited.
+ * @param projectId - Project to export
+ */
+export function streamProjectArchive(projectId: number) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const zip = new Zip((error, chunk, final) => {
+        if (error) return controller.error(error)
+        controller.enqueue(chunk)
+        if (final) controller.close()
+      })
+
+      db.transaction(
+        async (tx) => {
+          const folders = await tx
+            .select({
+              id: foldersTable.id,
+              parent_folder_id: foldersTable.parent_folder_id,
+              name: foldersTable.name,
+            })
+            .from(foldersTable)
+            .where(
+              and(
+                eq(foldersTable.project_id, projectId),
+                isNull(foldersTable.deleted_at)
+              )
+            )
+          const files = await tx
+            .select({
+              id: filesTable.id,
+              folder_id: filesTable.folder_id,
+              name: filesTable.name,
+              blob_hash: filesTable.blob_hash,
+            })
+            .from(filesTable)
+            .where(
+              and(
+                eq(filesTable.project_id, projectId),
+                isNull(filesTable.deleted_at)
+              )
+            )
+            .orderBy(asc(filesTable.id))
+
+          const paths = new Map<number, string>()
+          const getPath = (folderId: number): string => {
+            const known = paths.get(folderId)
+            if (known !== undefined) return known
+            // Mark the folder first so a loop in the data can't recurse
+            paths.set(folderId, ``)
+            const folder = folders.find((f) => f.id === folderId)
+            const path =
+              folder?.parent_folder_id == null
+                ? (folder?.name ?? ``)
+                : `${getPath(folder.parent_folder_id)}/${folder.name}`
+            paths.set(folderId, path)
+            return path
+          }
+
+          for (const folder of folders) {
+            const entry = new ZipPassThrough(`${getPath(folder.id)}/`)
+            zip.add(entry)
+            entry.push(new Uint8Array(0), true)
+          }
+          for (const file of files) {
+            const path =
+              file.folder_id === null
+                ? file.name
+                : `${getPath(file.folder_id)}/${file.name}`
+            if (file.blob_hash) {
+              // Assets are mostly compressed already, so they are stored
+              const entry = new ZipPassThrough(path)
+              zip.add(entry)
+              const reader = (await readBlob(file.blob_hash))?.getReader()
+              while (reader) {
+                const { done, value } = await reader.read()
+                if (done) break
+                entry.push(value)
+              }
+              entry.push(new Uint8Array(0), true)
+              continue
+            }
+            const content = readFileContent(await readFileSnapshot(tx, file.id))
+            const entry = new ZipDeflate(path, { level: 6 })
+            zip.add(entry)
+            entry.push(strToU8(content), true)
+          }
+          zip.end()
+        },
+        { isolationLevel: "repeatable read", accessMode: "read only" }
+      ).catch((error) => controller.error(error))
+    },
+  })
+}
+
+/**
+ * Recreates the folders and files of an archive inside a project. Folders
+ * that already exist are merged into; a file whose name is taken anywhere,
+ * by a file or a folder, fails the whole import before anything is written.
+ * @param tx - Transaction to write in
+ * @param projectId - Project to import into
+ * @param folderId - Folder to import into, or null for the project root
+ * @param contents - Folder paths and files, with paths relative to folderId
+ * @throws ValidationError if a path is invalid or the folder can't be used
+ * @throws ImportConflictError if names collide with existing items or each other
+ * @returns How many folders and files were created
+ */
+export async function importProjectArchive(
+  tx: Transaction,
+  projectId: number,
+  folderId: number | null,
+  contents: { folders: string[]; files: ArchiveFile[] }
+) {
+  await assertFolderInProject(tx, folderId, projectId)
+
+  const existingFolders = await tx
+    .select({
+      id: foldersTable.id,
+      parent_folder_id: foldersTable.parent_folder_id,
+      name: foldersTable.name,
+    })
+    .from(foldersTable)
+    .where(
+      and(
+        eq(foldersTable.project_id, projectId),
+        isNull(foldersTable.deleted_at)
+      )
+    )
+  const existingFiles = await tx
+    .select({ folder_id: filesTable.folder_id, name: filesTable.name })
+    .from(filesTable)
+    .where(
+      and(eq(filesTable.project_id, projectId), isNull(filesTable.deleted_at))
+    )
+
+  // Folders by path, either existing ones or ones to create
+  type PlannedFolder = {
+    path: string
+    name: string
+    parentPath: string | null
+    id?: number
+  }
+  const plannedFolders = new Map<string, PlannedFolder>()
+  const parentIdOf = (parentPath: string | null) =>
+    parentPath === null ? folderId : plannedFolders.get(parentPath)?.id
+
+  const planFolders = (names: string[]) => {
+    for (let depth = 1; depth <= names.length; depth++) {
+      const path = names.slice(0, depth).join(`/`)
+      if (plannedFolders.has(path)) continue
+      const parentPath =
+        depth === 1 ? null : names.slice(0, depth - 1).join(`/`)
+      const parentId = parentIdOf(parentPath)
+      const name = names[depth - 1]
+      const existing =
+        parentId === undefined
+          ? undefined
+          : existingFolders.find(
+              (f) => f.parent_folder_id === parentId && f.name === name
+            )
+      plannedFolders.set(path, { path, name, parentPath, id: existing?.id })
+    }
+  }
+
+  const splitPath = (path: string) => {
+    const names = splitArchivePath(path)
+    if (!names || names.length === 0) {
+      throw new ValidationError(`"${path}" is not a valid path`)
+    }
+    return names
+  }
+
+  for (const path of contents.folders) {
+    planFolders(splitPath(path))
+  }
+
+  const conflicts: string[] = []
+  const plannedFiles = new Map<
+    string,
+    { name: string; parentPath: string | null; content: string }
+  >()
+  for (const file of contents.files) {
+    const names = splitPath(file.path)
+    const path = names.join(`/`)
+    const parentPath = names.length > 1 ? names.slice(0, -1).join(`/`) : null
+    const name = names[names.length - 1]
+    planFolders(names.slice(0, -1))
+
+    const parentId = parentIdOf(parentPath)
+    const taken =
+      plannedFiles.has(path) ||
+      (parentId !== undefined &&
+        existingFiles.some((f) => f.folder_id === parentId && f.name === name))
+    if (taken) {
+      conflicts.push(path)
+    } else {
+      plannedFiles.set(path, { name, parentPath, content: file.content })
+    }
+  }
+  // A file can't have the path of a folder, whether the folder already
+  // exists or comes from the archive. Checked once every folder is planned,
+  // as later files can add folders.
+  for (const [path, file] of plannedFiles) {
+    const parentId = parentIdOf(file.parentPath)
+    if (
+      plannedFolders.has(path) ||
+      (parentId !== undefined &&
+        existingFolders.some(
+          (f) => f.parent_folder_id === parentId && f.name === file.name
+        ))
+    ) {
+      conflicts.push(path)
+    }
+  }
+  for (const folder of plannedFolders.values()) {
+    const parentId = parentIdOf(folder.parentPath)
+    if (
+      folder.id === undefined &&
+      parentId !== undefined &&
+      existingFiles.some(
+        (f) => f.folder_id === parentId && f.name === folder.name
+      )
+    ) {
+      conflicts.push(folder.path)
+    }
+  }
+  if (conflicts.length > 0) {
+    throw new ImportConflictError(conflicts)
+  }
+
+  // Parents are planned before their children, so their ids are known
+  let folderCount = 0
+  for (const folder of plannedFolders.values()) {
+    if (folder.id !== undefined) continue
+    const [created] = await tx
+      .insert(foldersTable)
+      .values({
+        project_id: projectId,
+        parent_folder_id: parentIdOf(folder.parentPath) ?? null,
+        name: folder.name,
+      })
+      .returning({ id: foldersTable.id })
+    folder.id = created.id
+    folderCount++
+  }
+
+  for (const file of plannedFiles.values()) {
+    const [created] = await tx
+      .insert(filesTable)
+      .values({
+        project_id: projectId,
+        folder_id: parentIdOf(file.parentPath) ?? null,
+        name: file.name,
+        loro_snapshot: exportFileSnapshot(createFileDoc(file.content)),
+      })
+      .returning({ id: filesTable.id })
+    await indexFileContent(tx, created.id)
+  }
+
+  return { folders: folderCount, files: plannedFiles.size }
+}
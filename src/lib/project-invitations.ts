@@ -0,0 +1,82 @@
+import { randomBytes } from "crypto"
+import { and, eq, isNull, sql } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { projectInvitationsTable, type ProjectInvitation } from "@/db/schema"
+import { users } from "@/db/auth-schema"
+import type { Transaction } from "@/lib/createCRUDRoutes"
+import { sendEmail } from "@/lib/email"
+import { PROJECT_ROLE_LABELS } from "@/lib/project-roles"
+import { getInvitationPath, normalizeEmail } from "@/lib/invitations"
+
+// Base URL of the app used in links sent by email
+const APP_URL = process.env.APP_URL ?? `http://localhost:5173`
+
+/**
+ * Returns a random token identifying an invitation in links
+ */
+export function createInvitationToken(): string {
+  return randomBytes(24).toString(`base64url`)
+}
+
+/**
+ * Looks up the account registered with an email address
+ * @returns The user, or undefined if nobody signed up with it yet
+ */
+export async function findUserByEmail(
+  tx: Transaction | typeof db,
+  email: string
+) {
+  const [user] = await tx
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      emailVerified: users.emailVerified,
+    })
+    .from(users)
+    .where(eq(sql`lower(${users.email})`, normalizeEmail(email)))
+  return user
+}
+
+/**
+ * Links the pending invitations sent to an email address before it had an
+ * account to the user who signed up with it. Only call this once the user
+ * has verified the address.
+ * @param tx - Transaction to write in, or the database outside of one
+ * @param user - The user owning the address
+ */
+export async function claimProjectInvitations(
+  tx: Transaction | typeof db,
+  user: { id: string; email: string }
+) {
+  await tx
+    .update(projectInvitationsTable)
+    .set({ invitee_id: user.id })
+    .where(
+      and(
+        eq(projectInvitationsTable.email, normalizeEmail(user.email)),
+        eq(projectInvitationsTable.status, `pending`),
+        isNull(projectInvitationsTable.invitee_id)
+      )
+    )
+}
+
+/**
+ * Emails an invitation to its recipient with a link to accept it
+ */
+export async function sendInvitationEmail(invitation: ProjectInvitation) {
+  const role = PROJECT_ROLE_LABELS[invitation.role].toLowerCase()
+  await sendEmail({
+    to: invitation.email,
+    subject: `${invitation.inviter_name} invited you to ${invitation.project_name}`,
+    text: [
+      `${invitation.inviter_name} invited you to join the project "${invitation.project_name}" as ${role === `owner` ? `an` : `a`} ${role}.`,
+      ``,
+      `Accept or decline the invitation here:`,
+      new URL(getInvitationPath(invitation.token), APP_URL).toString(),
+      ``,
+      `If you don't have an account yet, sign up with ${invitation.email}, then open the link again.`,
+      `The invitation expires on ${invitation.expires_at.toUTCString()}.`,
+    ].join(`\n`),
+  })
+}
@@ -0,0 +1,42 @@
+import { type ProjectRole } from "@/db/schema"
+
+/** Project roles, from most to least access */
+export const PROJECT_ROLES: ProjectRole[] = [
+  "owner",
+  "editor",
+  "commenter",
+  "viewer",
+]
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  commenter: "Commenter",
+  viewer: "Viewer",
+}
+
+export const PROJECT_ROLE_DESCRIPTIONS: Record<ProjectRole, string> = {
+  owner: "Can manage members and the project itself",
+  editor: "Can create, edit, move and delete files and folders",
+  commenter: "Can read files and add todos",
+  viewer: "Can read files",
+}
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 0,
+  commenter: 1,
+  editor: 2,
+  owner: 3,
+}
+
+/**
+ * Whether a role grants at least the access of another role
+ * @param role - Role of the user, or null if they are not a member
+ * @param minimum - Least role the action needs
+ */
+export function hasProjectRole(
+  role: ProjectRole | null | undefined,
+  minimum: ProjectRole
+): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum]
+}
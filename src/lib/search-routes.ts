@@ -0,0 +1,71 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import { auth } from "@/lib/auth"
+import { AccessDeniedError } from "@/lib/createCRUDRoutes"
+import { searchProjectFiles } from "@/lib/file-search"
+import { assertProjectRole } from "@/lib/project-access"
+
+const lineMatchSchema = z.object({
+  line: z.number(),
+  text: z.string(),
+  ranges: z.array(z.tuple([z.number(), z.number()])),
+})
+
+/**
+ * Full-text search over the content of the files in a project, for any
+ * member of the project
+ */
+export const searchRoutes = new OpenAPIHono().openapi(
+  createRoute({
+    path: `/api/projects/{id}/search`,
+    method: "get",
+    request: {
+      params: z.object({ id: z.coerce.number().int() }),
+      query: z.object({ q: z.string().trim().min(1).max(500) }),
+    },
+    responses: {
+      [HttpStatusCodes.OK]: jsonContent(
+        z.object({
+          results: z.array(
+            z.object({
+              file_id: z.number(),
+              name: z.string(),
+              folder_id: z.number().nullable(),
+              rank: z.number(),
+              matches: z.array(lineMatchSchema),
+              match_count: z.number(),
+            })
+          ),
+        }),
+        "Matching files, best first"
+      ),
+      [HttpStatusCodes.FORBIDDEN]: {
+        description: "Not a member of the project",
+      },
+    },
+  }),
+  async (c) => {
+    const session = await auth.api.getSession({ headers: c.req.header() })
+    if (!session) {
+      return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+    }
+
+    const { id } = c.req.valid("param")
+    const { q } = c.req.valid("query")
+
+    try {
+      const results = await db.transaction(async (tx) => {
+        await assertProjectRole(tx, id, session.user.id, "viewer")
+        return searchProjectFiles(tx, id, q)
+      })
+      return c.json({ results }, HttpStatusCodes.OK)
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+      }
+      throw error
+    }
+  }
+)
@@ -0,0 +1,59 @@
+/** A line of a file that matched a search */
+export interface SearchLineMatch {
+  /** 1-based line number */
+  line: number
+  /** Text of the line, cut around the first match if it is long */
+  text: string
+  /** Start and end offsets of the matched terms within text */
+  ranges: [number, number][]
+}
+
+/** A file that matched a search, with its best lines */
+export interface FileSearchResult {
+  file_id: number
+  name: string
+  folder_id: number | null
+  rank: number
+  matches: SearchLineMatch[]
+  /** Number of matching lines, including those not returned */
+  match_count: number
+}
+
+/**
+ * Returns the lowercased words of a search to highlight, leaving out
+ * excluded words and the OR operator
+ * @param query - Search in web search syntax
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .split(/\s+/)
+    .filter((word) => !word.startsWith(`-`) && word.toLowerCase() !== `or`)
+    .flatMap((word) => word.toLowerCase().split(/[^\p{L}\p{N}]+/u))
+    .filter((term) => term.length > 0)
+  return [...new Set(terms)]
+}
+
+/**
+ * Splits a line into plain and highlighted parts for display
+ * @param match - Matching line from a search
+ */
+export function splitHighlights(
+  match: SearchLineMatch
+): { text: string; highlighted: boolean }[] {
+  const parts: { text: string; highlighted: boolean }[] = []
+  let position = 0
+  for (const [start, end] of match.ranges) {
+    // Ranges of overlapping terms are merged into the previous highlight
+    if (end <= position) continue
+    const from = Math.max(start, position)
+    if (from > position) {
+      parts.push({ text: match.text.slice(position, from), highlighted: false })
+    }
+    parts.push({ text: match.text.slice(from, end), highlighted: true })
+    position = end
+  }
+  if (position < match.text.length) {
+    parts.push({ text: match.text.slice(position), highlighted: false })
+  }
+  return parts
+}
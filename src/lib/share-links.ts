@@ -0,0 +1,24 @@
+import type { ShareScope } from "@/db/schema"
+
+export const SHARE_SCOPE_LABELS: Record<ShareScope, string> = {
+  project: "Whole project",
+  folder: "Folder",
+  file: "File",
+}
+
+// Expiry choices offered when creating a link, in days; null never expires
+export const SHARE_LINK_EXPIRY_DAYS = [1, 7, 30, null] as const
+
+/**
+ * Returns the path of the public page a share link opens
+ */
+export function getSharePath(token: string): string {
+  return `/share/${token}`
+}
+
+/**
+ * Whether a share link can no longer be opened
+ */
+export function isShareLinkExpired(link: { expires_at: Date | null }) {
+  return link.expires_at !== null && link.expires_at.getTime() <= Date.now()
+}
@@ -0,0 +1,226 @@
+import { mkdtemp, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import { eq } from "drizzle-orm"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { db } from "@/db/connection"
+import { filesTable, foldersTable, shareLinksTable } from "@/db/schema"
+import { createTestProject, createTestUser } from "@/db/test-database"
+import {
+  completeAssetUpload,
+  startAssetUpload,
+  storeUploadChunk,
+} from "@/lib/asset-storage"
+import { createLocalBlobStore, setBlobStore } from "@/lib/blob-store"
+import { ValidationError } from "@/lib/createCRUDRoutes"
+import { createFileDoc, exportFileSnapshot } from "@/lib/loro"
+import { prepareShareLink, shareRoutes } from "@/lib/share-routes"
+
+vi.mock(`@/db/connection`, async () => {
+  const { createTestDatabase } = await import(`@/db/test-database`)
+  return { db: await createTestDatabase() }
+})
+
+let directory: string
+let projectId: number
+let folderId: number
+let insideId: number
+let outsideId: number
+let assetId: number
+
+const insertTextFile = async (name: string, folder: number | null) => {
+  const [file] = await db
+    .insert(filesTable)
+    .values({
+      project_id: projectId,
+      folder_id: folder,
+      name,
+      loro_snapshot: exportFileSnapshot(createFileDoc(`text of ${name}`)),
+    })
+    .returning({ id: filesTable.id })
+  return file.id
+}
+
+beforeAll(async () => {
+  directory = await mkdtemp(join(tmpdir(), `blobs-`))
+  setBlobStore(createLocalBlobStore(directory))
+  await createTestUser(db, `owner`)
+  projectId = await createTestProject(db, { owner: `owner` })
+  const [folder] = await db
+    .insert(foldersTable)
+    .values({ project_id: projectId, name: `shared` })
+    .returning({ id: foldersTable.id })
+  folderId = folder.id
+  insideId = await insertTextFile(`inside.txt`, folderId)
+  outsideId = await insertTextFile(`outside.txt`, null)
+
+  const { upload_id } = await db.transaction((tx) =>
+    startAssetUpload(tx, `owner`, {
+      project_id: projectId,
+      folder_id: folderId,
+      name: `logo.png`,
+      mime_type: `image/png`,
+      size: 5,
+    })
+  )
+  await storeUploadChunk(upload_id, `owner`, 0, new Uint8Array([1, 2, 3, 4, 5]))
+  assetId = (await completeAssetUpload(upload_id, `owner`)).item.id
+})
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+/** Creates a share link the way the CRUD route does */
+const share = async (
+  link: {
+    scope: `project` | `folder` | `file`
+    folder_id?: number
+    file_id?: number
+    password?: string
+    expires_at?: Date
+  } = { scope: `project` }
+) => {
+  const [created] = await db.transaction(async (tx) =>
+    tx
+      .insert(shareLinksTable)
+      .values(
+        await prepareShareLink(tx, {
+          project_id: projectId,
+          created_by: `owner`,
+          ...link,
+        })
+      )
+      .returning()
+  )
+  return created
+}
+
+const post = (path: string, password?: string) =>
+  shareRoutes.request(`/api/share/${path}`, {
+    method: `POST`,
+    headers: { "content-type": `application/json` },
+    body: JSON.stringify({ password }),
+  })
+
+describe(`prepareShareLink`, () => {
+  it(`stores a salted hash of the password, not the password`, async () => {
+    const first = await share({ scope: `project`, password: `secret` })
+    const second = await share({ scope: `project`, password: `secret` })
+    expect(first.has_password).toBe(true)
+    expect(first.password_hash).not.toContain(`secret`)
+    expect(first.password_hash).not.toBe(second.password_hash)
+    expect(first.token).not.toBe(second.token)
+  })
+
+  it(`rejects a target that doesn't match the scope`, async () => {
+    await expect(share({ scope: `folder` })).rejects.toThrow(ValidationError)
+    await expect(
+      share({ scope: `project`, expires_at: new Date(Date.now() - 1000) })
+    ).rejects.toThrow(`The expiry date must be in the future`)
+  })
+})
+
+describe(`opening a share link`, () => {
+  it(`asks for the password and only opens with the right one`, async () => {
+    const link = await share({ scope: `project`, password: `secret` })
+
+    const missing = await post(link.token)
+    expect(missing.status).toBe(401)
+    expect(await missing.json()).toMatchObject({ passwordRequired: true })
+    expect((await post(link.token, `wrong`)).status).toBe(401)
+    expect((await post(link.token, `secret`)).status).toBe(200)
+  })
+
+  it(`counts the times it was opened`, async () => {
+    const link = await share()
+    await post(link.token)
+    await post(link.token)
+
+    const [counted] = await db
+      .select()
+      .from(shareLinksTable)
+      .where(eq(shareLinksTable.id, link.id))
+    expect(counted.access_count).toBe(2)
+    expect(counted.last_accessed_at).not.toBeNull()
+  })
+
+  it(`doesn't count attempts with a wrong password`, async () => {
+    const link = await share({ scope: `project`, password: `secret` })
+    await post(link.token, `wrong`)
+
+    const [counted] = await db
+      .select()
+      .from(shareLinksTable)
+      .where(eq(shareLinksTable.id, link.id))
+    expect(counted.access_count).toBe(0)
+  })
+
+  it(`answers an expired link like an unknown one`, async () => {
+    const link = await share()
+    await db
+      .update(shareLinksTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(shareLinksTable.id, link.id))
+    expect((await post(link.token)).status).toBe(404)
+    expect((await post(`no-such-token`)).status).toBe(404)
+  })
+
+  it(`roots the tree of a folder link at the folder`, async () => {
+    const link = await share({ scope: `folder`, folder_id: folderId })
+    const tree = await (await post(link.token)).json()
+    expect(tree.name).toBe(`shared`)
+    expect(
+      tree.files.map((file: { name: string }) => file.name).sort()
+    ).toEqual([`inside.txt`, `logo.png`])
+  })
+})
+
+describe(`reading shared files`, () => {
+  it(`returns the text of a file the link covers`, async () => {
+    const link = await share({ scope: `folder`, folder_id: folderId })
+    const response = await post(`${link.token}/files/${insideId}`)
+    expect(await response.json()).toMatchObject({
+      name: `inside.txt`,
+      kind: `text`,
+      content: `text of inside.txt`,
+    })
+  })
+
+  it(`hides files outside the link`, async () => {
+    const link = await share({ scope: `folder`, folder_id: folderId })
+    expect((await post(`${link.token}/files/${outsideId}`)).status).toBe(404)
+  })
+
+  it(`serves the content of a shared asset`, async () => {
+    const link = await share({ scope: `file`, file_id: assetId })
+    const file = await (await post(`${link.token}/files/${assetId}`)).json()
+    expect(file).toMatchObject({
+      kind: `asset`,
+      mime_type: `image/png`,
+      size: 5,
+      content: ``,
+    })
+
+    const response = await post(`${link.token}/files/${assetId}/content`)
+    expect(response.status).toBe(200)
+    expect(response.headers.get(`content-type`)).toBe(`image/png`)
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3, 4, 5])
+    )
+  })
+
+  it(`checks the password before serving asset content`, async () => {
+    const link = await share({
+      scope: `file`,
+      file_id: assetId,
+      password: `secret`,
+    })
+    expect((await post(`${link.token}/files/${assetId}/content`)).status).toBe(
+      401
+    )
+    expect(
+      (await post(`${link.token}/files/${assetId}/content`, `secret`)).status
+    ).toBe(200)
+  })
+})
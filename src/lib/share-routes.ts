@@ -0,0 +1,520 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import { randomBytes, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import { and, eq, inArray, isNull, sql } from "drizzle-orm"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import {
+  fileKindEnum,
+  filesTable,
+  foldersTable,
+  projectsTable,
+  shareLinksTable,
+  type ShareScope,
+} from "@/db/schema"
+import { getAssetHeaders } from "@/lib/asset-routes"
+import { readBlob } from "@/lib/asset-storage"
+import { ValidationError, type Transaction } from "@/lib/createCRUDRoutes"
+import {
+  assertFolderInProject,
+  getFolderSubtreeIds,
+  isWithinFolder,
+} from "@/lib/folder-hierarchy"
+import { assertFileInProject } from "@/lib/project-access"
+import { readFileSnapshot } from "@/lib/file-versions"
+import { readFileContent } from "@/lib/loro"
+import { isShareLinkExpired } from "@/lib/share-links"
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>
+
+const PASSWORD_KEY_LENGTH = 32
+
+/**
+ * Hashes the password of a share link with a random salt
+ * @returns The salt and hash, hex encoded and separated by a colon
+ */
+async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)
+  return `${salt.toString(`hex`)}:${hash.toString(`hex`)}`
+}
+
+/**
+ * Checks a password against the hash stored for a share link
+ */
+async function verifySharePassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [salt, hash] = stored.split(`:`)
+  const expected = Buffer.from(hash, `hex`)
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, `hex`),
+    expected.length
+  )
+  return timingSafeEqual(actual, expected)
+}
+
+/**
+ * Fills in the server-side fields of a share link about to be created: the
+ * token and the password hash. The plain password is never stored.
+ * @param tx - Transaction the insert runs in
+ * @param data - Scope, target, password and expiry sent by the client
+ * @throws ValidationError if the target doesn't match the scope or is in
+ *   another project
+ */
+export async function prepareShareLink(
+  tx: Transaction,
+  data: {
+    project_id: number
+    scope: ShareScope
+    folder_id?: number | null
+    file_id?: number | null
+    created_by: string
+    password?: string
+    expires_at?: Date | null
+  }
+) {
+  const { password, ...link } = data
+  const folderId = link.scope === `folder` ? (link.folder_id ?? null) : null
+  const fileId = link.scope === `file` ? (link.file_id ?? null) : null
+
+  if (link.scope === `folder`) {
+    if (folderId === null) {
+      throw new ValidationError(`Choose the folder to share`)
+    }
+    await assertFolderInProject(tx, folderId, link.project_id)
+  }
+  if (link.scope === `file`) {
+    if (fileId === null) {
+      throw new ValidationError(`Choose the file to share`)
+    }
+    await assertFileInProject(tx, fileId, link.project_id)
+  }
+  if (link.expires_at && link.expires_at.getTime() <= Date.now()) {
+    throw new ValidationError(`The expiry date must be in the future`)
+  }
+
+  return {
+    ...link,
+    folder_id: folderId,
+    file_id: fileId,
+    expires_at: link.expires_at ?? null,
+    token: randomBytes(24).toString(`base64url`),
+    password_hash: password ? await hashSharePassword(password) : null,
+    has_password: Boolean(password),
+  }
+}
+
+type ShareLinkRow = typeof shareLinksTable.$inferSelect
+
+/** Outcome of opening a share link that didn't give access */
+class ShareAccessError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 404
+  ) {
+    super(message)
+    this.name = "ShareAccessError"
+  }
+}
+
+/**
+ * Looks up a share link and checks that it can be opened
+ * @param tx - Transaction to read in
+ * @param token - Token from the link
+ * @param password - Password entered by the visitor, if any
+ * @throws ShareAccessError with a 404 if the link is unknown or expired, or
+ *   a 401 if the password is missing or wrong
+ */
+async function openShareLink(
+  tx: Transaction,
+  token: string,
+  password: string | undefined
+): Promise<ShareLinkRow> {
+  const [link] = await tx
+    .select()
+    .from(shareLinksTable)
+    .where(eq(shareLinksTable.token, token))
+  // Expired links look the same as revoked ones
+  if (!link || isShareLinkExpired(link)) {
+    throw new ShareAccessError(`This link doesn't exist or has expired`, 404)
+  }
+  if (link.password_hash) {
+    if (!password) {
+      throw new ShareAccessError(`This link is password protected`, 401)
+    }
+    if (!(await verifySharePassword(password, link.password_hash))) {
+      throw new ShareAccessError(`The password is incorrect`, 401)
+    }
+  }
+  return link
+}
+
+/**
+ * Reads the folders and files a share link gives access to. For a folder
+ * link the shared folder becomes the root of the returned tree.
+ */
+async function readSharedTree(tx: Transaction, link: ShareLinkRow) {
+  const [project] = await tx
+    .select({ name: projectsTable.name })
+    .from(projectsTable)
+    .where(eq(projectsTable.id, link.project_id))
+
+  if (link.scope === `file`) {
+    const files = await tx
+      .select({ id: filesTable.id, name: filesTable.name })
+      .from(filesTable)
+      .where(
+        and(eq(filesTable.id, link.file_id!), isNull(filesTable.deleted_at))
+      )
+    return {
+      name: files[0]?.name ?? ``,
+      project_name: project.name,
+      folders: [],
+      files: files.map((file) => ({ ...file, folder_id: null })),
+    }
+  }
+
+  const folderColumns = {
+    id: foldersTable.id,
+    name: foldersTable.name,
+    parent_folder_id: foldersTable.parent_folder_id,
+  }
+  const fileColumns = {
+    id: filesTable.id,
+    name: filesTable.name,
+    folder_id: filesTable.folder_id,
+  }
+
+  if (link.scope === `project`) {
+    return {
+      name: project.name,
+      project_name: project.name,
+      folders: await tx
+        .select(folderColumns)
+        .from(foldersTable)
+        .where(
+          and(
+            eq(foldersTable.project_id, link.project_id),
+            isNull(foldersTable.deleted_at)
+          )
+        ),
+      files: await tx
+        .select(fileColumns)
+        .from(filesTable)
+        .where(
+          and(
+            eq(filesTable.project_id, link.project_id),
+            isNull(filesTable.deleted_at)
+          )
+        ),
+    }
+  }
+
+  const rootId = link.folder_id!
+  const subtreeIds = await getFolderSubtreeIds(tx, rootId)
+  const folders = await tx
+    .select(folderColumns)
+    .from(foldersTable)
+    .where(
+      and(inArray(foldersTable.id, subtreeIds), isNull(foldersTable.deleted_at))
+    )
+  const files = await tx
+    .select(fileColumns)
+    .from(filesTable)
+    .where(
+      and(
+        inArray(filesTable.folder_id, subtreeIds),
+        isNull(filesTable.deleted_at)
+      )
+    )
+  const toSharedParent = (folderId: number | null) =>
+    folderId === rootId ? null : folderId
+
+  return {
+    name: folders.find((folder) => folder.id === rootId)?.name ?? ``,
+    project_name: project.name,
+    folders: folders
+      .filter((folder) => folder.id !== rootId)
+      .map((folder) => ({
+        ...folder,
+        parent_folder_id: toSharedParent(folder.parent_folder_id),
+      })),
+    files: files.map((file) => ({
+      ...file,
+      folder_id: toSharedParent(file.folder_id),
+    })),
+  }
+}
+
+/**
+ * Whether a file is covered by a share link
+ */
+async function isFileShared(
+  tx: Transaction,
+  link: ShareLinkRow,
+  file: { id: number; project_id: number; folder_id: number | null }
+): Promise<boolean> {
+  if (link.scope === `file`) return file.id === link.file_id
+  if (file.project_id !== link.project_id) return false
+  if (link.scope === `project`) return true
+  return (
+    file.folder_id !== null &&
+    (await isWithinFolder(tx, file.folder_id, link.folder_id!))
+  )
+}
+
+/**
+ * Looks up a file a share link covers
+ * @throws ShareAccessError with a 404 if there is no such file, it is in the
+ *   trash or the link doesn't cover it
+ */
+async function findSharedFile(
+  tx: Transaction,
+  link: ShareLinkRow,
+  fileId: number
+) {
+  const [file] = await tx
+    .select({
+      id: filesTable.id,
+      name: filesTable.name,
+      language: filesTable.language,
+      kind: filesTable.kind,
+      mime_type: filesTable.mime_type,
+      size: filesTable.size,
+      blob_hash: filesTable.blob_hash,
+      project_id: filesTable.project_id,
+      folder_id: filesTable.folder_id,
+    })
+    .from(filesTable)
+    .where(and(eq(filesTable.id, fileId), isNull(filesTable.deleted_at)))
+  if (!file || !(await isFileShared(tx, link, file))) {
+    throw new ShareAccessError(`This file isn't shared`, 404)
+  }
+  return file
+}
+
+const sharePasswordSchema = z.object({
+  password: z.string().optional(),
+})
+
+const shareErrorSchema = z.object({
+  error: z.string(),
+  passwordRequired: z.boolean().optional(),
+})
+
+/**
+ * Answers a failed share link lookup, rethrowing any other error
+ */
+function shareErrorResponse(error: unknown) {
+  if (!(error instanceof ShareAccessError)) throw error
+  return {
+    body: {
+      error: error.message,
+      ...(error.status === 401 && { passwordRequired: true }),
+    },
+    status: error.status,
+  }
+}
+
+/**
+ * Public routes behind share links. They don't need a session: the token,
+ * and the password if the link has one, give read-only access to what the
+ * link covers. Creating and revoking links goes through the CRUD routes of
+ * share_links.
+ */
+export const shareRoutes = new OpenAPIHono()
+  .openapi(
+    createRoute({
+      path: `/api/share/{token}`,
+      method: "post",
+      request: {
+        params: z.object({ token: z.string() }),
+        body: jsonContentRequired(sharePasswordSchema, "The link password"),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            scope: z.enum([`project`, `folder`, `file`]),
+            name: z.string(),
+            project_name: z.string(),
+            folders: z.array(
+              z.object({
+                id: z.number(),
+                name: z.string(),
+                parent_folder_id: z.number().nullable(),
+              })
+            ),
+            files: z.array(
+              z.object({
+                id: z.number(),
+                name: z.string(),
+                folder_id: z.number().nullable(),
+              })
+            ),
+          }),
+          "The shared folders and files"
+        ),
+        [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+          shareErrorSchema,
+          "The password is missing or incorrect"
+        ),
+        [HttpStatusCodes.NOT_FOUND]: jsonContent(
+          shareErrorSchema,
+          "The link doesn't exist or has expired"
+        ),
+      },
+    }),
+    async (c) => {
+      const { token } = c.req.valid("param")
+      const { password } = c.req.valid("json")
+
+      try {
+        const result = await db.transaction(async (tx) => {
+          const link = await openShareLink(tx, token, password)
+          await tx
+            .update(shareLinksTable)
+            .set({
+              access_count: sql`${shareLinksTable.access_count} + 1`,
+              last_accessed_at: new Date(),
+            })
+            .where(eq(shareLinksTable.id, link.id))
+          return { scope: link.scope, ...(await readSharedTree(tx, link)) }
+        })
+        return c.json(result, HttpStatusCodes.OK)
+      } catch (error) {
+        const { body, status } = shareErrorResponse(error)
+        return c.json(body, status)
+      }
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/share/{token}/files/{fileId}`,
+      method: "post",
+      request: {
+        params: z.object({
+          token: z.string(),
+          fileId: z.coerce.number().int(),
+        }),
+        body: jsonContentRequired(sharePasswordSchema, "The link password"),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            name: z.string(),
+            language: z.string().nullable(),
+            kind: z.enum(fileKindEnum.enumValues),
+            mime_type: z.string().nullable(),
+            size: z.number().nullable(),
+            content: z.string(),
+          }),
+          "The text of the file, or an empty string for an asset, whose content is read from /content"
+        ),
+        [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+          shareErrorSchema,
+          "The password is missing or incorrect"
+        ),
+        [HttpStatusCodes.NOT_FOUND]: jsonContent(
+          shareErrorSchema,
+          "The link or file doesn't exist, or the file isn't shared"
+        ),
+      },
+    }),
+    async (c) => {
+      const { token, fileId } = c.req.valid("param")
+      const { password } = c.req.valid("json")
+
+      try {
+        const result = await db.transaction(async (tx) => {
+          const link = await openShareLink(tx, token, password)
+          const file = await findSharedFile(tx, link, fileId)
+          return {
+            name: file.name,
+            language: file.language,
+            kind: file.kind,
+            mime_type: file.mime_type,
+            size: file.size,
+            content:
+              file.kind === `asset`
+                ? ``
+                : readFileContent(await readFileSnapshot(tx, file.id)),
+          }
+        })
+        return c.json(result, HttpStatusCodes.OK)
+      } catch (error) {
+        const { body, status } = shareErrorResponse(error)
+        return c.json(body, status)
+      }
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/share/{token}/files/{fileId}/content`,
+      method: "post",
+      request: {
+        params: z.object({
+          token: z.string(),
+          fileId: z.coerce.number().int(),
+        }),
+        body: jsonContentRequired(sharePasswordSchema, "The link password"),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: {
+          description: "The content of the asset",
+          content: { "application/octet-stream": { schema: z.any() } },
+        },
+        [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+          shareErrorSchema,
+          "The password is missing or incorrect"
+        ),
+        [HttpStatusCodes.NOT_FOUND]: jsonContent(
+          shareErrorSchema,
+          "The link or asset doesn't exist, or the asset isn't shared"
+        ),
+      },
+    }),
+    async (c) => {
+      const { token, fileId } = c.req.valid("param")
+      const { password } = c.req.valid("json")
+
+      let file
+      try {
+        file = await db.transaction(async (tx) =>
+          findSharedFile(tx, await openShareLink(tx, token, password), fileId)
+        )
+      } catch (error) {
+        const { body, status } = shareErrorResponse(error)
+        return c.json(body, status)
+      }
+      if (file.kind !== `asset` || !file.blob_hash || file.size === null) {
+        return c.json(
+          { error: `This file isn't an asset` },
+          HttpStatusCodes.NOT_FOUND
+        )
+      }
+
+      const stream = await readBlob(file.blob_hash)
+      if (!stream) {
+        return c.json(
+          { error: `The content of this asset is missing` },
+          HttpStatusCodes.NOT_FOUND
+        )
+      }
+      return c.body(stream, HttpStatusCodes.OK, {
+        ...getAssetHeaders(
+          { ...file, blob_hash: file.blob_hash, size: file.size },
+          false
+        ),
+        // Anyone with the link may read it, but it shouldn't outlive a revoke
+        "Cache-Control": `no-store`,
+      })
+    }
+  )
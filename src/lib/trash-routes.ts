@@ -0,0 +1,195 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import { auth } from "@/lib/auth"
+import {
+  AccessDeniedError,
+  ValidationError,
+  generateTxId,
+} from "@/lib/createCRUDRoutes"
+import { assertProjectRole } from "@/lib/project-access"
+import {
+  TRASH_RETENTION_DAYS,
+  deleteTrashItem,
+  listTrash,
+  restoreTrashItem,
+} from "@/lib/trash"
+
+const trashItemSchema = z.object({
+  type: z.enum([`folder`, `file`]),
+  id: z.number().int(),
+})
+
+/**
+ * The trash of a project: listing what was deleted, for any member, and
+ * restoring or permanently deleting it, for editors
+ */
+export const trashRoutes = new OpenAPIHono()
+  .openapi(
+    createRoute({
+      path: `/api/projects/{id}/trash`,
+      method: "get",
+      request: {
+        params: z.object({ id: z.coerce.number().int() }),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            retention_days: z.number(),
+            items: z.array(
+              trashItemSchema.extend({
+                name: z.string(),
+                path: z.string(),
+                deleted_at: z.string(),
+                deleted_by: z.string().nullable(),
+              })
+            ),
+          }),
+          "Trashed folders and files, most recently deleted first"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "Not a member of the project",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { id } = c.req.valid("param")
+      try {
+        const items = await db.transaction(async (tx) => {
+          await assertProjectRole(tx, id, session.user.id, "viewer")
+          return listTrash(tx, id)
+        })
+        return c.json(
+          {
+            retention_days: TRASH_RETENTION_DAYS,
+            items: items.map((item) => ({
+              ...item,
+              deleted_at: item.deleted_at.toISOString(),
+            })),
+          },
+          HttpStatusCodes.OK
+        )
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        throw error
+      }
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/projects/{id}/trash/restore`,
+      method: "post",
+      request: {
+        params: z.object({ id: z.coerce.number().int() }),
+        body: jsonContentRequired(trashItemSchema, "The item to restore"),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({
+            txid: z.number(),
+            folders: z.number(),
+            files: z.number(),
+          }),
+          "How many folders and files were restored"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "Not an editor of the project",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "The item isn't in the trash, or its name is taken",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { id } = c.req.valid("param")
+      try {
+        const result = await db.transaction(async (tx) => {
+          await assertProjectRole(tx, id, session.user.id, "editor")
+          const txid = await generateTxId(tx)
+          const restored = await restoreTrashItem(
+            tx,
+            id,
+            c.req.valid("json"),
+            session.user.id
+          )
+          return { txid, ...restored }
+        })
+        return c.json(result, HttpStatusCodes.OK)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        throw error
+      }
+    }
+  )
+  .openapi(
+    createRoute({
+      path: `/api/projects/{id}/trash/delete`,
+      method: "post",
+      request: {
+        params: z.object({ id: z.coerce.number().int() }),
+        body: jsonContentRequired(
+          trashItemSchema,
+          "The item to delete permanently"
+        ),
+      },
+      responses: {
+        [HttpStatusCodes.OK]: jsonContent(
+          z.object({ ok: z.boolean() }),
+          "The item was deleted"
+        ),
+        [HttpStatusCodes.FORBIDDEN]: {
+          description: "Not an editor of the project",
+        },
+        [HttpStatusCodes.UNPROCESSABLE_ENTITY]: {
+          description: "The item isn't in the trash",
+        },
+      },
+    }),
+    async (c) => {
+      const session = await auth.api.getSession({ headers: c.req.header() })
+      if (!session) {
+        return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+      }
+
+      const { id } = c.req.valid("param")
+      try {
+        await db.transaction(async (tx) => {
+          await assertProjectRole(tx, id, session.user.id, "editor")
+          await deleteTrashItem(tx, id, c.req.valid("json"))
+        })
+        return c.json({ ok: true }, HttpStatusCodes.OK)
+      } catch (error) {
+        if (error instanceof AccessDeniedError) {
+          return c.json({ error: error.message }, HttpStatusCodes.FORBIDDEN)
+        }
+        if (error instanceof ValidationError) {
+          return c.json(
+            { error: error.message },
+            HttpStatusCodes.UNPROCESSABLE_ENTITY
+          )
+        }
+        throw error
+      }
+    }
+  )
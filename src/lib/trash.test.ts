@@ -0,0 +1,222 @@
+import { eq, sql } from "drizzle-orm"
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/db/connection"
+import { activityEventsTable, filesTable, foldersTable } from "@/db/schema"
+import { createTestProject, createTestUser } from "@/db/test-database"
+import {
+  deleteTrashItem,
+  listTrash,
+  purgeExpiredTrash,
+  restoreTrashItem,
+  trashFolderContents,
+} from "@/lib/trash"
+
+vi.mock(`@/db/connection`, async () => {
+  const { createTestDatabase } = await import(`@/db/test-database`)
+  return { db: await createTestDatabase() }
+})
+
+let projectId: number
+
+beforeAll(async () => {
+  await createTestUser(db, `owner`)
+})
+
+beforeEach(async () => {
+  projectId = await createTestProject(db, { owner: `owner` })
+})
+
+const addFolder = async (name: string, parentId: number | null = null) => {
+  const [folder] = await db
+    .insert(foldersTable)
+    .values({ project_id: projectId, parent_folder_id: parentId, name })
+    .returning({ id: foldersTable.id })
+  return folder.id
+}
+
+const addFile = async (name: string, folderId: number | null = null) => {
+  const [file] = await db
+    .insert(filesTable)
+    .values({ project_id: projectId, folder_id: folderId, name })
+    .returning({ id: filesTable.id })
+  return file.id
+}
+
+/** Trashes a folder with its contents the way the folder route does */
+const trashFolder = (id: number) =>
+  db.transaction(async (tx) => {
+    await tx
+      .update(foldersTable)
+      .set({ deleted_at: sql`now()`, deleted_by: `owner` })
+      .where(eq(foldersTable.id, id))
+    await trashFolderContents(tx, { id, deleted_by: `owner` })
+  })
+
+const trashFile = (id: number) =>
+  db
+    .update(filesTable)
+    .set({ deleted_at: sql`now()`, deleted_by: `owner` })
+    .where(eq(filesTable.id, id))
+
+const isTrashed = async (
+  table: typeof filesTable | typeof foldersTable,
+  id: number
+) => {
+  const [row] = await db
+    .select({ deleted_at: table.deleted_at })
+    .from(table)
+    .where(eq(table.id, id))
+  return row ? row.deleted_at !== null : undefined
+}
+
+describe(`trashing a folder`, () => {
+  it(`takes its contents along and lists only the folder`, async () => {
+    const folder = await addFolder(`docs`)
+    const inner = await addFolder(`inner`, folder)
+    const file = await addFile(`a.md`, inner)
+    await trashFolder(folder)
+
+    expect(await isTrashed(foldersTable, inner)).toBe(true)
+    expect(await isTrashed(filesTable, file)).toBe(true)
+    const trash = await db.transaction((tx) => listTrash(tx, projectId))
+    expect(trash).toMatchObject([
+      { type: `folder`, id: folder, path: ``, deleted_by: `owner` },
+    ])
+  })
+
+  it(`lists what was trashed before it on its own`, async () => {
+    const folder = await addFolder(`docs`)
+    const earlier = await addFile(`earlier.md`, folder)
+    await trashFile(earlier)
+    await trashFolder(folder)
+
+    const trash = await db.transaction((tx) => listTrash(tx, projectId))
+    expect(trash.map((item) => [item.type, item.id, item.path])).toEqual([
+      [`folder`, folder, ``],
+      [`file`, earlier, `docs`],
+    ])
+  })
+})
+
+describe(`restoreTrashItem`, () => {
+  it(`restores a folder with what was trashed along with it`, async () => {
+    const folder = await addFolder(`docs`)
+    const earlier = await addFile(`earlier.md`, folder)
+    const along = await addFile(`along.md`, folder)
+    await trashFile(earlier)
+    await trashFolder(folder)
+
+    const counts = await db.transaction((tx) =>
+      restoreTrashItem(tx, projectId, { type: `folder`, id: folder }, `owner`)
+    )
+
+    expect(counts).toEqual({ folders: 1, files: 1 })
+    expect(await isTrashed(foldersTable, folder)).toBe(false)
+    expect(await isTrashed(filesTable, along)).toBe(false)
+    expect(await isTrashed(filesTable, earlier)).toBe(true)
+  })
+
+  it(`restores the trashed folder a file was in`, async () => {
+    const folder = await addFolder(`docs`)
+    const file = await addFile(`a.md`, folder)
+    await trashFolder(folder)
+
+    const counts = await db.transaction((tx) =>
+      restoreTrashItem(tx, projectId, { type: `file`, id: file }, `owner`)
+    )
+
+    expect(counts).toEqual({ folders: 1, files: 1 })
+    expect(await isTrashed(foldersTable, folder)).toBe(false)
+    expect(await isTrashed(filesTable, file)).toBe(false)
+  })
+
+  it(`refuses when the name was taken meanwhile`, async () => {
+    const file = await addFile(`a.md`)
+    await trashFile(file)
+    await addFile(`a.md`)
+
+    await expect(
+      db.transaction((tx) =>
+        restoreTrashItem(tx, projectId, { type: `file`, id: file }, `owner`)
+      )
+    ).rejects.toThrow(`A file named "a.md" already exists`)
+    expect(await isTrashed(filesTable, file)).toBe(true)
+  })
+
+  it(`refuses items that aren't in the trash`, async () => {
+    const file = await addFile(`a.md`)
+    await expect(
+      db.transaction((tx) =>
+        restoreTrashItem(tx, projectId, { type: `file`, id: file }, `owner`)
+      )
+    ).rejects.toThrow(`This item isn't in the trash`)
+  })
+
+  it(`records the restore in the activity feed`, async () => {
+    const file = await addFile(`logged.md`)
+    await trashFile(file)
+    await db.transaction((tx) =>
+      restoreTrashItem(tx, projectId, { type: `file`, id: file }, `owner`)
+    )
+
+    const events = await db
+      .select()
+      .from(activityEventsTable)
+      .where(eq(activityEventsTable.project_id, projectId))
+    expect(events).toMatchObject([
+      {
+        action: `restore`,
+        target_type: `file`,
+        target_id: file,
+        target_name: `logged.md`,
+        actor_name: `owner`,
+      },
+    ])
+  })
+})
+
+describe(`deleteTrashItem`, () => {
+  it(`deletes a trashed folder with everything below it`, async () => {
+    const folder = await addFolder(`docs`)
+    const inner = await addFolder(`inner`, folder)
+    const file = await addFile(`a.md`, inner)
+    await trashFolder(folder)
+
+    await db.transaction((tx) =>
+      deleteTrashItem(tx, projectId, { type: `folder`, id: folder })
+    )
+
+    expect(await isTrashed(foldersTable, folder)).toBeUndefined()
+    expect(await isTrashed(foldersTable, inner)).toBeUndefined()
+    expect(await isTrashed(filesTable, file)).toBeUndefined()
+  })
+
+  it(`refuses items that aren't in the trash`, async () => {
+    const file = await addFile(`a.md`)
+    await expect(
+      db.transaction((tx) =>
+        deleteTrashItem(tx, projectId, { type: `file`, id: file })
+      )
+    ).rejects.toThrow(`This item isn't in the trash`)
+    expect(await isTrashed(filesTable, file)).toBe(false)
+  })
+})
+
+describe(`purgeExpiredTrash`, () => {
+  it(`deletes only what has been in the trash for too long`, async () => {
+    const expired = await addFile(`expired.md`)
+    const recent = await addFile(`recent.md`)
+    const kept = await addFile(`kept.md`)
+    await trashFile(recent)
+    await db
+      .update(filesTable)
+      .set({ deleted_at: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000) })
+      .where(eq(filesTable.id, expired))
+
+    await purgeExpiredTrash()
+
+    expect(await isTrashed(filesTable, expired)).toBeUndefined()
+    expect(await isTrashed(filesTable, recent)).toBe(true)
+    expect(await isTrashed(filesTable, kept)).toBe(false)
+  })
+})
@@ -0,0 +1,385 @@
+import { and, eq, inArray, isNull, lt, sql } from "drizzle-orm"
+import { db } from "@/db/connection"
+import { filesTable, foldersTable } from "@/db/schema"
+import { users } from "@/db/auth-schema"
+import { ValidationError, type Transaction } from "@/lib/createCRUDRoutes"
+import { type TreeItemRef } from "@/lib/file-tree"
+import { recordActivity } from "@/lib/activity"
+import { getFolderSubtreeIds } from "@/lib/folder-hierarchy"
+
+// Days items stay in the trash before they are purged for good
+export const TRASH_RETENTION_DAYS = Number(
+  process.env.TRASH_RETENTION_DAYS ?? 30
+)
+
+// Items trashed together share the deleted_at of the transaction that
+// trashed them, now(), which is how the contents of a trashed folder are told
+// apart from items that were trashed on their own before it. It is compared
+// in SQL as JavaScript dates drop the microseconds.
+
+/**
+ * Moves the contents of a folder that was just trashed to the trash with it
+ * @param tx - Transaction the folder was trashed in
+ * @param folder - The trashed folder
+ */
+export async function trashFolderContents(
+  tx: Transaction,
+  folder: { id: number; deleted_by: string | null }
+) {
+  const subtree = await getSubtreeIds(tx, folder.id, null)
+  const trashed = { deleted_at: sql`now()`, deleted_by: folder.deleted_by }
+  if (subtree.length > 1) {
+    await tx
+      .update(foldersTable)
+      .set(trashed)
+      .where(
+        and(
+          inArray(
+            foldersTable.id,
+            subtree.filter((id) => id !== folder.id)
+          ),
+          isNull(foldersTable.deleted_at)
+        )
+      )
+  }
+  await tx
+    .update(filesTable)
+    .set(trashed)
+    .where(
+      and(inArray(filesTable.folder_id, subtree), isNull(filesTable.deleted_at))
+    )
+}
+
+/**
+ * Ids of a folder and the folders below it that are not in the trash, or
+ * with trashedAt, that were trashed at that time
+ */
+async function getSubtreeIds(
+  tx: Transaction,
+  folderId: number,
+  trashedAt: string | null
+): Promise<number[]> {
+  const matchesTrash =
+    trashedAt === null
+      ? sql`f.deleted_at IS NULL`
+      : sql`f.deleted_at = ${trashedAt}::timestamptz`
+  const result = await tx.execute<{ id: number }>(sql`
+    WITH RECURSIVE subtree(id) AS (
+      SELECT id FROM ${foldersTable}
+      WHERE id = ${folderId}
+      UNION
+      SELECT f.id FROM ${foldersTable} f
+      JOIN subtree s ON f.parent_folder_id = s.id
+      WHERE ${matchesTrash}
+    )
+    SELECT id FROM subtree
+  `)
+  return result.rows.map((row) => Number(row.id))
+}
+
+/**
+ * Lists what was trashed in a project. The contents of a trashed folder are
+ * not listed separately, as they are restored and purged with it.
+ * @returns The trashed items, most recently trashed first, with the path of
+ *   the folder each was trashed from
+ */
+export async function listTrash(tx: Transaction, projectId: number) {
+  const folders = await tx
+    .select({
+      id: foldersTable.id,
+      parent_folder_id: foldersTable.parent_folder_id,
+      name: foldersTable.name,
+      deleted_at: foldersTable.deleted_at,
+      deleted_by: users.name,
+    })
+    .from(foldersTable)
+    .leftJoin(users, eq(users.id, foldersTable.deleted_by))
+    .where(eq(foldersTable.project_id, projectId))
+  const files = await tx
+    .select({
+      id: filesTable.id,
+      folder_id: filesTable.folder_id,
+      name: filesTable.name,
+      deleted_at: filesTable.deleted_at,
+      deleted_by: users.name,
+    })
+    .from(filesTable)
+    .leftJoin(users, eq(users.id, filesTable.deleted_by))
+    .where(
+      and(
+        eq(filesTable.project_id, projectId),
+        sql`${filesTable.deleted_at} IS NOT NULL`
+      )
+    )
+
+  const byId = new Map(folders.map((folder) => [folder.id, folder]))
+  const getPath = (
+    folderId: number | null,
+    seen = new Set<number>()
+  ): string => {
+    const folder = folderId === null ? undefined : byId.get(folderId)
+    if (!folder || seen.has(folder.id)) return ``
+    seen.add(folder.id)
+    const parent = getPath(folder.parent_folder_id, seen)
+    return parent ? `${parent}/${folder.name}` : folder.name
+  }
+  // Whether an item went to the trash with its parent folder
+  const trashedWithParent = (parentId: number | null, deletedAt: Date) =>
+    parentId !== null &&
+    byId.get(parentId)?.deleted_at?.getTime() === deletedAt.getTime()
+
+  return [
+    ...folders.flatMap((folder) =>
+      folder.deleted_at &&
+      !trashedWithParent(folder.parent_folder_id, folder.deleted_at)
+        ? [
+            {
+              type: `folder` as const,
+              id: folder.id,
+              name: folder.name,
+              path: getPath(folder.parent_folder_id),
+              deleted_at: folder.deleted_at,
+              deleted_by: folder.deleted_by,
+            },
+          ]
+        : []
+    ),
+    ...files.flatMap((file) =>
+      file.deleted_at && !trashedWithParent(file.folder_id, file.deleted_at)
+        ? [
+            {
+              type: `file` as const,
+              id: file.id,
+              name: file.name,
+              path: getPath(file.folder_id),
+              deleted_at: file.deleted_at,
+              deleted_by: file.deleted_by,
+            },
+          ]
+        : []
+    ),
+  ].sort((a, b) => b.deleted_at.getTime() - a.deleted_at.getTime())
+}
+
+/**
+ * Looks up a trashed folder or file of a project
+ * @throws ValidationError if the item isn't in the project's trash
+ */
+async function getTrashedItem(
+  tx: Transaction,
+  projectId: number,
+  item: TreeItemRef
+) {
+  const table = item.type === `folder` ? foldersTable : filesTable
+  const [row] = await tx
+    .select({
+      name: table.name,
+      parent_id:
+        item.type === `folder`
+          ? foldersTable.parent_folder_id
+          : filesTable.folder_id,
+      // As text to keep the microseconds
+      deleted_at: sql<string | null>`${table.deleted_at}::text`,
+    })
+    .from(table)
+    .where(and(eq(table.id, item.id), eq(table.project_id, projectId)))
+    .for(`update`)
+  if (!row?.deleted_at) {
+    throw new ValidationError(`This item isn't in the trash`)
+  }
+  return { ...row, deleted_at: row.deleted_at }
+}
+
+/**
+ * Makes sure a folder an item is restored into exists outside the trash.
+ * A trashed folder is restored on its own, without the rest of its
+ * contents, or replaced by a folder with the same name that was created at
+ * its place since.
+ * @returns The folder to restore into, or null for the project root
+ */
+async function restoreParentFolder(
+  tx: Transaction,
+  projectId: number,
+  folderId: number | null,
+  counts: { folders: number; files: number }
+): Promise<number | null> {
+  if (folderId === null) return null
+  const [folder] = await tx
+    .select()
+    .from(foldersTable)
+    .where(
+      and(eq(foldersTable.id, folderId), eq(foldersTable.project_id, projectId))
+    )
+  // Restore to the root if the folder is gone for good
+  if (!folder) return null
+  if (!folder.deleted_at) return folder.id
+
+  const parentId = await restoreParentFolder(
+    tx,
+    projectId,
+    folder.parent_folder_id,
+    counts
+  )
+  const [existing] = await tx
+    .select({ id: foldersTable.id })
+    .from(foldersTable)
+    .where(
+      and(
+        eq(foldersTable.project_id, projectId),
+        parentId === null
+          ? isNull(foldersTable.parent_folder_id)
+          : eq(foldersTable.parent_folder_id, parentId),
+        eq(foldersTable.name, folder.name),
+        isNull(foldersTable.deleted_at)
+      )
+    )
+  if (existing) return existing.id
+
+  await tx
+    .update(foldersTable)
+    .set({
+      parent_folder_id: parentId,
+      deleted_at: null,
+      deleted_by: null,
+      updated_at: new Date(),
+    })
+    .where(eq(foldersTable.id, folder.id))
+  counts.folders++
+  return folder.id
+}
+
+/**
+ * Restores a trashed folder with everything trashed along with it, or a
+ * trashed file, to where it was. Folders it was in that are in the trash
+ * too are restored on their way.
+ * @param tx - Transaction to write in
+ * @param projectId - Project whose trash the item is in
+ * @param item - The trashed folder or file
+ * @param actorId - User restoring it, for the activity feed
+ * @throws ValidationError if the item isn't in the trash, or its name is
+ *   taken at its original location
+ * @returns How many folders and files were restored
+ */
+export async function restoreTrashItem(
+  tx: Transaction,
+  projectId: number,
+  item: TreeItemRef,
+  actorId: string
+) {
+  const trashed = await getTrashedItem(tx, projectId, item)
+  await recordActivity(tx, {
+    project_id: projectId,
+    actor_id: actorId,
+    action: `restore`,
+    target_type: item.type,
+    target_id: item.id,
+    target_name: trashed.name,
+  })
+  const counts = { folders: 0, files: 0 }
+  const parentId = await restoreParentFolder(
+    tx,
+    projectId,
+    trashed.parent_id,
+    counts
+  )
+
+  const table = item.type === `folder` ? foldersTable : filesTable
+  const parentColumn =
+    item.type === `folder`
+      ? foldersTable.parent_folder_id
+      : filesTable.folder_id
+  const [taken] = await tx
+    .select({ id: table.id })
+    .from(table)
+    .where(
+      and(
+        eq(table.project_id, projectId),
+        parentId === null ? isNull(parentColumn) : eq(parentColumn, parentId),
+        eq(table.name, trashed.name),
+        isNull(table.deleted_at)
+      )
+    )
+  if (taken) {
+    throw new ValidationError(
+      `A ${item.type} named "${trashed.name}" already exists where this ${item.type} was. Rename or delete it first.`
+    )
+  }
+
+  const restored = { deleted_at: null, deleted_by: null }
+  if (item.type === `file`) {
+    await tx
+      .update(filesTable)
+      .set({ ...restored, folder_id: parentId, updated_at: new Date() })
+      .where(eq(filesTable.id, item.id))
+    counts.files++
+    return counts
+  }
+
+  const subtree = await getSubtreeIds(tx, item.id, trashed.deleted_at)
+  const trashedAt = sql`${trashed.deleted_at}::timestamptz`
+  await tx
+    .update(foldersTable)
+    .set({ parent_folder_id: parentId, updated_at: new Date() })
+    .where(eq(foldersTable.id, item.id))
+  const folders = await tx
+    .update(foldersTable)
+    .set(restored)
+    .where(
+      and(
+        inArray(foldersTable.id, subtree),
+        eq(foldersTable.deleted_at, trashedAt)
+      )
+    )
+    .returning({ id: foldersTable.id })
+  const files = await tx
+    .update(filesTable)
+    .set(restored)
+    .where(
+      and(
+        inArray(filesTable.folder_id, subtree),
+        eq(filesTable.deleted_at, trashedAt)
+      )
+    )
+    .returning({ id: filesTable.id })
+  counts.folders += folders.length
+  counts.files += files.length
+  return counts
+}
+
+/**
+ * Permanently deletes a trashed folder with everything in it, or a trashed
+ * file
+ * @throws ValidationError if the item isn't in the trash
+ */
+export async function deleteTrashItem(
+  tx: Transaction,
+  projectId: number,
+  item: TreeItemRef
+) {
+  await getTrashedItem(tx, projectId, item)
+  if (item.type === `file`) {
+    await tx.delete(filesTable).where(eq(filesTable.id, item.id))
+    return
+  }
+  // Anything below a trashed folder is in the trash as well
+  const subtree = await getFolderSubtreeIds(tx, item.id)
+  await tx.delete(filesTable).where(inArray(filesTable.folder_id, subtree))
+  await tx.delete(foldersTable).where(inArray(foldersTable.id, subtree))
+}
+
+/**
+ * Permanently deletes everything that has been in the trash for longer
+ * than TRASH_RETENTION_DAYS, in all projects. Runs on the maintenance
+ * schedule, see src/lib/maintenance.ts. A folder's contents were
+ * trashed no later than the folder itself, so they expire with it or
+ * before it.
+ */
+export async function purgeExpiredTrash() {
+  const cutoff = new Date(
+    Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  )
+  await db.transaction(async (tx) => {
+    await tx.delete(filesTable).where(lt(filesTable.deleted_at, cutoff))
+    await tx.delete(foldersTable).where(lt(foldersTable.deleted_at, cutoff))
+  })
+}
@@ -0,0 +1,47 @@
+import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi"
+import * as HttpStatusCodes from "stoker/http-status-codes"
+import { jsonContent } from "stoker/openapi/helpers"
+import { db } from "@/db/connection"
+import { auth } from "@/lib/auth"
+import { findUserByEmail } from "@/lib/project-invitations"
+
+/**
+ * Looks up a user by exact email. Clients only sync the users they share a
+ * project with, so this is how anyone else is found, e.g. before inviting
+ * them. Partial matches are never returned, so the directory can't be
+ * browsed through it.
+ */
+export const userSearchRoutes = new OpenAPIHono().openapi(
+  createRoute({
+    path: `/api/users/search`,
+    method: "get",
+    request: {
+      query: z.object({
+        email: z.string().trim().email(),
+      }),
+    },
+    responses: {
+      [HttpStatusCodes.OK]: jsonContent(
+        z.object({
+          user: z
+            .object({ id: z.string(), name: z.string(), email: z.string() })
+            .nullable(),
+        }),
+        "The user registered with the email, or null"
+      ),
+      [HttpStatusCodes.UNAUTHORIZED]: {
+        description: "Not signed in",
+      },
+    },
+  }),
+  async (c) => {
+    const session = await auth.api.getSession({ headers: c.req.header() })
+    if (!session) {
+      return c.json({ error: "Unauthorized" }, HttpStatusCodes.UNAUTHORIZED)
+    }
+
+    const { email } = c.req.valid("query")
+    const user = await findUserByEmail(db, email)
+    return c.json({ user: user ?? null }, HttpStatusCodes.OK)
+  }
+)
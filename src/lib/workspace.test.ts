@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest"
+import {
+  MAX_EDITOR_GROUPS,
+  closeTabs,
+  createWorkspace,
+  getActiveFileId,
+  moveTab,
+  openTab,
+  parseWorkspace,
+  pruneWorkspace,
+  splitTab,
+  type WorkspaceState,
+} from "@/lib/workspace"
+
+/** Workspace with groups "a", "b", ... holding the given tabs */
+const workspace = (
+  ...groups: { tabs: number[]; activeFileId?: number | null }[]
+): WorkspaceState => ({
+  groups: groups.map(({ tabs, activeFileId }, i) => ({
+    id: String.fromCharCode(97 + i),
+    tabs,
+    activeFileId: activeFileId === undefined ? (tabs[0] ?? null) : activeFileId,
+  })),
+  activeGroupId: `a`,
+})
+
+describe(`openTab`, () => {
+  it(`adds a new tab right after the active one and focuses it`, () => {
+    const state = openTab(workspace({ tabs: [1, 2, 3], activeFileId: 1 }), 4)
+    expect(state.groups[0].tabs).toEqual([1, 4, 2, 3])
+    expect(getActiveFileId(state)).toBe(4)
+  })
+
+  it(`focuses an open tab without moving it`, () => {
+    const state = openTab(workspace({ tabs: [1, 2, 3] }), 3)
+    expect(state.groups[0].tabs).toEqual([1, 2, 3])
+    expect(getActiveFileId(state)).toBe(3)
+  })
+
+  it(`returns the same state when nothing changes`, () => {
+    const state = workspace({ tabs: [1, 2] })
+    expect(openTab(state, 1)).toBe(state)
+  })
+
+  it(`opens the first tab of an empty workspace`, () => {
+    const state = openTab(createWorkspace(), 7)
+    expect(state.groups[0].tabs).toEqual([7])
+    expect(getActiveFileId(state)).toBe(7)
+  })
+})
+
+describe(`closeTabs`, () => {
+  it(`hands the focus to the neighbour of the closed active tab`, () => {
+    const state = closeTabs(
+      workspace({ tabs: [1, 2, 3], activeFileId: 2 }),
+      `a`,
+      [2]
+    )
+    expect(state.groups[0]).toMatchObject({ tabs: [1, 3], activeFileId: 3 })
+  })
+
+  it(`picks the previous tab when the last one closes`, () => {
+    const state = closeTabs(
+      workspace({ tabs: [1, 2, 3], activeFileId: 3 }),
+      `a`,
+      [3]
+    )
+    expect(state.groups[0].activeFileId).toBe(2)
+  })
+
+  it(`removes an emptied group and focuses the one to its left`, () => {
+    const state = closeTabs(
+      { ...workspace({ tabs: [1] }, { tabs: [2] }), activeGroupId: `b` },
+      `b`,
+      [2]
+    )
+    expect(state.groups.map((group) => group.id)).toEqual([`a`])
+    expect(state.activeGroupId).toBe(`a`)
+  })
+
+  it(`keeps the last group when its tabs are closed`, () => {
+    const state = closeTabs(workspace({ tabs: [1] }), `a`, [1])
+    expect(state.groups).toEqual([{ id: `a`, tabs: [], activeFileId: null }])
+  })
+})
+
+describe(`moveTab`, () => {
+  it(`reorders a tab within its group`, () => {
+    const state = moveTab(
+      workspace({ tabs: [1, 2, 3] }),
+      { fileId: 1, groupId: `a` },
+      `a`,
+      3
+    )
+    expect(state.groups[0]).toMatchObject({ tabs: [2, 3, 1], activeFileId: 1 })
+  })
+
+  it(`moves a tab to another group and removes its emptied group`, () => {
+    const state = moveTab(
+      workspace({ tabs: [1] }, { tabs: [2, 3] }),
+      { fileId: 1, groupId: `a` },
+      `b`,
+      1
+    )
+    expect(state.groups).toEqual([
+      { id: `b`, tabs: [2, 1, 3], activeFileId: 1 },
+    ])
+    expect(state.activeGroupId).toBe(`b`)
+  })
+
+  it(`ignores a tab that isn't in its group`, () => {
+    const state = workspace({ tabs: [1] }, { tabs: [2] })
+    expect(moveTab(state, { fileId: 2, groupId: `a` }, `b`, 0)).toBe(state)
+  })
+})
+
+describe(`splitTab`, () => {
+  it(`opens the file in a new group to the right`, () => {
+    const state = splitTab(workspace({ tabs: [1] }, { tabs: [2] }), 1, `a`)
+    expect(state.groups.map((group) => group.tabs)).toEqual([[1], [1], [2]])
+    expect(state.activeGroupId).toBe(state.groups[1].id)
+  })
+
+  it(`uses the neighbouring group once the maximum is reached`, () => {
+    const full = workspace(
+      ...Array.from({ length: MAX_EDITOR_GROUPS }, (_, i) => ({ tabs: [i] }))
+    )
+    const state = splitTab(full, 9, `a`)
+    expect(state.groups).toHaveLength(MAX_EDITOR_GROUPS)
+    expect(state.groups[1].tabs).toContain(9)
+    expect(state.activeGroupId).toBe(`b`)
+  })
+})
+
+describe(`pruneWorkspace`, () => {
+  it(`closes the tabs of deleted files in every group`, () => {
+    const state = pruneWorkspace(
+      workspace({ tabs: [1, 2] }, { tabs: [3] }),
+      (fileId) => fileId === 1
+    )
+    expect(state.groups).toEqual([{ id: `a`, tabs: [1], activeFileId: 1 }])
+  })
+})
+
+describe(`parseWorkspace`, () => {
+  it(`restores a saved workspace`, () => {
+    const state = workspace({ tabs: [1, 2] }, { tabs: [3] })
+    expect(parseWorkspace(JSON.parse(JSON.stringify(state)))).toEqual(state)
+  })
+
+  it(`rejects malformed values`, () => {
+    expect(parseWorkspace(null)).toBeNull()
+    expect(parseWorkspace({ groups: [] })).toBeNull()
+    expect(
+      parseWorkspace({ groups: [{ id: `a`, tabs: [1], activeFileId: 2 }] })
+    ).toBeNull()
+  })
+
+  it(`falls back to the first group when the active one is unknown`, () => {
+    const state = parseWorkspace({
+      groups: [{ id: `a`, tabs: [], activeFileId: null }],
+      activeGroupId: `z`,
+    })
+    expect(state?.activeGroupId).toBe(`a`)
+  })
+})
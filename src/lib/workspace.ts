@@ -0,0 +1,265 @@
+// MIME type used to carry a dragged editor tab between drag and drop events
+export const EDITOR_TAB_MIME = "application/x-editor-tab"
+
+/** Maximum number of editor groups shown side by side */
+export const MAX_EDITOR_GROUPS = 3
+
+/** A pane of the workspace with its own row of tabs */
+export interface EditorGroup {
+  id: string
+  /** Ids of the open files, in tab order */
+  tabs: number[]
+  activeFileId: number | null
+}
+
+/** Open tabs and split panes of a project, from left to right */
+export interface WorkspaceState {
+  groups: EditorGroup[]
+  activeGroupId: string
+}
+
+/** An editor tab being dragged to another position or group */
+export type EditorTabRef = { fileId: number; groupId: string }
+
+const createGroupId = () => Math.random().toString(36).slice(2, 10)
+
+/**
+ * Returns an empty workspace with a single group
+ */
+export function createWorkspace(): WorkspaceState {
+  const group: EditorGroup = {
+    id: createGroupId(),
+    tabs: [],
+    activeFileId: null,
+  }
+  return { groups: [group], activeGroupId: group.id }
+}
+
+/**
+ * Restores a workspace saved as JSON, or returns null if it is malformed
+ */
+export function parseWorkspace(value: unknown): WorkspaceState | null {
+  if (typeof value !== "object" || value === null) return null
+  const { groups, activeGroupId } = value as Partial<WorkspaceState>
+  if (!Array.isArray(groups) || groups.length === 0) return null
+
+  const isValidGroup = (group: EditorGroup) =>
+    typeof group?.id === "string" &&
+    Array.isArray(group.tabs) &&
+    group.tabs.every((tab) => typeof tab === "number") &&
+    (group.activeFileId === null || group.tabs.includes(group.activeFileId))
+  if (!groups.every(isValidGroup)) return null
+
+  return {
+    groups: groups.slice(0, MAX_EDITOR_GROUPS),
+    activeGroupId: groups.some((group) => group.id === activeGroupId)
+      ? (activeGroupId as string)
+      : groups[0].id,
+  }
+}
+
+/**
+ * Returns the group that has focus
+ */
+export function getActiveGroup(state: WorkspaceState): EditorGroup {
+  return (
+    state.groups.find((group) => group.id === state.activeGroupId) ??
+    state.groups[0]
+  )
+}
+
+/**
+ * Returns the file shown in the focused group, or null if it has no tabs
+ */
+export function getActiveFileId(state: WorkspaceState): number | null {
+  return getActiveGroup(state).activeFileId
+}
+
+const updateGroup = (
+  state: WorkspaceState,
+  groupId: string,
+  change: (group: EditorGroup) => EditorGroup
+): WorkspaceState => ({
+  ...state,
+  groups: state.groups.map((group) =>
+    group.id === groupId ? change(group) : group
+  ),
+})
+
+// Puts a tab at an index, moving it if it is already in the list. The index
+// refers to the list before the move, as a drop position does.
+const insertTab = (tabs: number[], fileId: number, index: number) => {
+  const currentIndex = tabs.indexOf(fileId)
+  const rest = tabs.filter((tab) => tab !== fileId)
+  const at = currentIndex !== -1 && currentIndex < index ? index - 1 : index
+  rest.splice(Math.min(at, rest.length), 0, fileId)
+  return rest
+}
+
+/**
+ * Opens a file in a group and focuses it. A file that isn't open yet gets
+ * a new tab right after the active one.
+ * @param state - Current workspace
+ * @param fileId - File to show
+ * @param groupId - Group to open it in, defaults to the focused group
+ */
+export function openTab(
+  state: WorkspaceState,
+  fileId: number,
+  groupId = state.activeGroupId
+): WorkspaceState {
+  const group = state.groups.find((g) => g.id === groupId)
+  if (!group) return state
+  if (state.activeGroupId === groupId && group.activeFileId === fileId) {
+    return state
+  }
+
+  const tabs = group.tabs.includes(fileId)
+    ? group.tabs
+    : insertTab(
+        group.tabs,
+        fileId,
+        group.activeFileId === null
+          ? group.tabs.length
+          : group.tabs.indexOf(group.activeFileId) + 1
+      )
+  return {
+    ...updateGroup(state, groupId, (g) => ({
+      ...g,
+      tabs,
+      activeFileId: fileId,
+    })),
+    activeGroupId: groupId,
+  }
+}
+
+/**
+ * Focuses a group without changing its tabs
+ */
+export function focusGroup(
+  state: WorkspaceState,
+  groupId: string
+): WorkspaceState {
+  if (
+    state.activeGroupId === groupId ||
+    !state.groups.some((group) => group.id === groupId)
+  ) {
+    return state
+  }
+  return { ...state, activeGroupId: groupId }
+}
+
+/**
+ * Closes tabs of a group. When the active tab closes, its neighbour takes
+ * over, and a group left without tabs is removed unless it is the last one.
+ * @param state - Current workspace
+ * @param groupId - Group the tabs belong to
+ * @param fileIds - Files whose tabs are closed
+ */
+export function closeTabs(
+  state: WorkspaceState,
+  groupId: string,
+  fileIds: number[]
+): WorkspaceState {
+  const group = state.groups.find((g) => g.id === groupId)
+  if (!group) return state
+  const tabs = group.tabs.filter((tab) => !fileIds.includes(tab))
+  if (tabs.length === group.tabs.length) return state
+
+  if (tabs.length === 0 && state.groups.length > 1) {
+    const index = state.groups.indexOf(group)
+    const groups = state.groups.filter((g) => g.id !== groupId)
+    return {
+      groups,
+      activeGroupId:
+        state.activeGroupId === groupId
+          ? groups[Math.max(0, index - 1)].id
+          : state.activeGroupId,
+    }
+  }
+
+  let activeFileId = group.activeFileId
+  if (activeFileId !== null && !tabs.includes(activeFileId)) {
+    const index = group.tabs.indexOf(activeFileId)
+    activeFileId = tabs[Math.min(index, tabs.length - 1)] ?? null
+  }
+  return updateGroup(state, groupId, (g) => ({ ...g, tabs, activeFileId }))
+}
+
+/**
+ * Moves a tab to a position in the same or another group and focuses it
+ * @param state - Current workspace
+ * @param tab - Tab being moved
+ * @param toGroupId - Destination group
+ * @param index - Position among the destination tabs before the move
+ */
+export function moveTab(
+  state: WorkspaceState,
+  tab: EditorTabRef,
+  toGroupId: string,
+  index: number
+): WorkspaceState {
+  const from = state.groups.find((group) => group.id === tab.groupId)
+  const to = state.groups.find((group) => group.id === toGroupId)
+  if (!from || !to || !from.tabs.includes(tab.fileId)) return state
+
+  const moved = updateGroup(state, toGroupId, (group) => ({
+    ...group,
+    tabs: insertTab(group.tabs, tab.fileId, index),
+    activeFileId: tab.fileId,
+  }))
+  return {
+    ...(from.id === to.id ? moved : closeTabs(moved, from.id, [tab.fileId])),
+    activeGroupId: toGroupId,
+  }
+}
+
+/**
+ * Opens a file in a new group to the right of the given one. Once the
+ * maximum number of groups is reached the neighbouring group is used.
+ * @param state - Current workspace
+ * @param fileId - File to show
+ * @param groupId - Group the split starts from
+ */
+export function splitTab(
+  state: WorkspaceState,
+  fileId: number,
+  groupId: string
+): WorkspaceState {
+  const index = state.groups.findIndex((group) => group.id === groupId)
+  if (index === -1) return state
+
+  if (state.groups.length >= MAX_EDITOR_GROUPS) {
+    const neighbour = state.groups[index + 1] ?? state.groups[index - 1]
+    return neighbour ? openTab(state, fileId, neighbour.id) : state
+  }
+
+  const group: EditorGroup = {
+    id: createGroupId(),
+    tabs: [fileId],
+    activeFileId: fileId,
+  }
+  const groups = [...state.groups]
+  groups.splice(index + 1, 0, group)
+  return { groups, activeGroupId: group.id }
+}
+
+/**
+ * Closes the tabs of files that no longer exist
+ * @param state - Current workspace
+ * @param exists - Whether a file is still part of the project
+ */
+export function pruneWorkspace(
+  state: WorkspaceState,
+  exists: (fileId: number) => boolean
+): WorkspaceState {
+  return state.groups.reduce(
+    (next, group) =>
+      closeTabs(
+        next,
+        group.id,
+        group.tabs.filter((tab) => !exists(tab))
+      ),
+    state
+  )
+}
@@ -14,7 +14,10 @@ import { Route as rootRouteImport } from "./routes/__root"
 import { Route as LoginRouteImport } from "./routes/login"
 import { Route as AuthenticatedRouteImport } from "./routes/_authenticated"
 import { Route as AuthenticatedIndexRouteImport } from "./routes/_authenticated/index"
+import { Route as ShareTokenRouteImport } from "./routes/share/$token"
+import { Route as AuthenticatedInvitationsRouteImport } from "./routes/_authenticated/invitations"
 import { Route as AuthenticatedProjectProjectIdRouteImport } from "./routes/_authenticated/project/$projectId"
+import { Route as AuthenticatedProjectProjectIdFileFileIdRouteImport } from "./routes/_authenticated/project/$projectId_/file/$fileId"
 import { ServerRoute as ApiAuthServerRouteImport } from "./routes/api/auth"
 import { ServerRoute as ApiSplatServerRouteImport } from "./routes/api/$"
 
@@ -34,12 +37,29 @@ const AuthenticatedIndexRoute = AuthenticatedIndexRouteImport.update({
   path: "/",
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const ShareTokenRoute = ShareTokenRouteImport.update({
+  id: "/share/$token",
+  path: "/share/$token",
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AuthenticatedInvitationsRoute =
+  AuthenticatedInvitationsRouteImport.update({
+    id: "/invitations",
+    path: "/invitations",
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedProjectProjectIdRoute =
   AuthenticatedProjectProjectIdRouteImport.update({
     id: "/project/$projectId",
     path: "/project/$projectId",
     getParentRoute: () => AuthenticatedRoute,
   } as any)
+const AuthenticatedProjectProjectIdFileFileIdRoute =
+  AuthenticatedProjectProjectIdFileFileIdRouteImport.update({
+    id: "/project/$projectId_/file/$fileId",
+    path: "/project/$projectId/file/$fileId",
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const ApiAuthServerRoute = ApiAuthServerRouteImport.update({
   id: "/api/auth",
   path: "/api/auth",
@@ -53,37 +73,62 @@ const ApiSplatServerRoute = ApiSplatServerRouteImport.update({
 
 export interface FileRoutesByFullPath {
   "/login": typeof LoginRoute
+  "/invitations": typeof AuthenticatedInvitationsRoute
+  "/share/$token": typeof ShareTokenRoute
   "/": typeof AuthenticatedIndexRoute
   "/project/$projectId": typeof AuthenticatedProjectProjectIdRoute
+  "/project/$projectId/file/$fileId": typeof AuthenticatedProjectProjectIdFileFileIdRoute
 }
 export interface FileRoutesByTo {
   "/login": typeof LoginRoute
+  "/invitations": typeof AuthenticatedInvitationsRoute
+  "/share/$token": typeof ShareTokenRoute
   "/": typeof AuthenticatedIndexRoute
   "/project/$projectId": typeof AuthenticatedProjectProjectIdRoute
+  "/project/$projectId/file/$fileId": typeof AuthenticatedProjectProjectIdFileFileIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   "/_authenticated": typeof AuthenticatedRouteWithChildren
   "/login": typeof LoginRoute
+  "/_authenticated/invitations": typeof AuthenticatedInvitationsRoute
+  "/share/$token": typeof ShareTokenRoute
   "/_authenticated/": typeof AuthenticatedIndexRoute
   "/_authenticated/project/$projectId": typeof AuthenticatedProjectProjectIdRoute
+  "/_authenticated/project/$projectId_/file/$fileId": typeof AuthenticatedProjectProjectIdFileFileIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: "/login" | "/" | "/project/$projectId"
+  fullPaths:
+    | "/login"
+    | "/invitations"
+    | "/share/$token"
+    | "/"
+    | "/project/$projectId"
+    | "/project/$projectId/file/$fileId"
   fileRoutesByTo: FileRoutesByTo
-  to: "/login" | "/" | "/project/$projectId"
+  to:
+    | "/login"
+    | "/invitations"
+    | "/share/$token"
+    | "/"
+    | "/project/$projectId"
+    | "/project/$projectId/file/$fileId"
   id:
     | "__root__"
     | "/_authenticated"
     | "/login"
+    | "/_authenticated/invitations"
+    | "/share/$token"
     | "/_authenticated/"
     | "/_authenticated/project/$projectId"
+    | "/_authenticated/project/$projectId_/file/$fileId"
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   AuthenticatedRoute: typeof AuthenticatedRouteWithChildren
   LoginRoute: typeof LoginRoute
+  ShareTokenRoute: typeof ShareTokenRoute
 }
 export interface FileServerRoutesByFullPath {
   "/api/$": typeof ApiSplatServerRoute
@@ -134,6 +179,20 @@ declare module "@tanstack/react-router" {
       preLoaderRoute: typeof AuthenticatedIndexRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    "/share/$token": {
+      id: "/share/$token"
+      path: "/share/$token"
+      fullPath: "/share/$token"
+      preLoaderRoute: typeof ShareTokenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    "/_authenticated/invitations": {
+      id: "/_authenticated/invitations"
+      path: "/invitations"
+      fullPath: "/invitations"
+      preLoaderRoute: typeof AuthenticatedInvitationsRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     "/_authenticated/project/$projectId": {
       id: "/_authenticated/project/$projectId"
       path: "/project/$projectId"
@@ -141,6 +200,13 @@ declare module "@tanstack/react-router" {
       preLoaderRoute: typeof AuthenticatedProjectProjectIdRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    "/_authenticated/project/$projectId_/file/$fileId": {
+      id: "/_authenticated/project/$projectId_/file/$fileId"
+      path: "/project/$projectId/file/$fileId"
+      fullPath: "/project/$projectId/file/$fileId"
+      preLoaderRoute: typeof AuthenticatedProjectProjectIdFileFileIdRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
   }
 }
 declare module "@tanstack/react-start/server" {
@@ -163,13 +229,18 @@ declare module "@tanstack/react-start/server" {
 }
 
 interface AuthenticatedRouteChildren {
+  AuthenticatedInvitationsRoute: typeof AuthenticatedInvitationsRoute
   AuthenticatedIndexRoute: typeof AuthenticatedIndexRoute
   AuthenticatedProjectProjectIdRoute: typeof AuthenticatedProjectProjectIdRoute
+  AuthenticatedProjectProjectIdFileFileIdRoute: typeof AuthenticatedProjectProjectIdFileFileIdRoute
 }
 
 const AuthenticatedRouteChildren: AuthenticatedRouteChildren = {
+  AuthenticatedInvitationsRoute: AuthenticatedInvitationsRoute,
   AuthenticatedIndexRoute: AuthenticatedIndexRoute,
   AuthenticatedProjectProjectIdRoute: AuthenticatedProjectProjectIdRoute,
+  AuthenticatedProjectProjectIdFileFileIdRoute:
+    AuthenticatedProjectProjectIdFileFileIdRoute,
 }
 
 const AuthenticatedRouteWithChildren = AuthenticatedRoute._addFileChildren(
@@ -179,6 +250,7 @@ const AuthenticatedRouteWithChildren = AuthenticatedRoute._addFileChildren(
 const rootRouteChildren: RootRouteChildren = {
   AuthenticatedRoute: AuthenticatedRouteWithChildren,
   LoginRoute: LoginRoute,
+  ShareTokenRoute: ShareTokenRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
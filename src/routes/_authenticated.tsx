@@ -1,4 +1,9 @@
-import { createFileRoute, useNavigate, Link } from "@tanstack/react-router"
+import {
+  createFileRoute,
+  useNavigate,
+  useParams,
+  Link,
+} from "@tanstack/react-router"
 import { useEffect, useState } from "react"
 import { Outlet } from "@tanstack/react-router"
 import { authClient } from "@/lib/auth-client"
@@ -11,8 +16,17 @@ import {
   like,
   count,
 } from "@tanstack/react-db"
-import { projectCollection } from "@/lib/collections"
+import {
+  invitationsInboxCollection,
+  projectCollection,
+} from "@/lib/collections"
 import { Button } from "@/components/ui/button"
+import { FileExplorer } from "@/components/file-explorer"
+import { ProjectSearch } from "@/components/project-search"
+import {
+  CommandPaletteProvider,
+  useRegisterCommands,
+} from "@/components/command-palette"
 import {
   SidebarProvider,
   Sidebar,
@@ -25,22 +39,50 @@ import {
   SidebarHeader,
   SidebarInset,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarSeparator,
   SidebarTrigger,
+  useSidebar,
 } from "@/components/ui/sidebar"
-import { Plus, FolderIcon } from "lucide-react"
+import { Plus, FolderIcon, Mail, LogOut, PanelLeft } from "lucide-react"
 
 export const Route = createFileRoute("/_authenticated")({
   component: AuthenticatedLayout,
   ssr: false,
 })
 
+/**
+ * Offers the layout's own actions in the command palette
+ */
+function LayoutCommands({ onSignOut }: { onSignOut: () => void }) {
+  const { toggleSidebar } = useSidebar()
+  useRegisterCommands([
+    {
+      id: "view:toggle-sidebar",
+      title: "Toggle Sidebar",
+      group: "View",
+      icon: PanelLeft,
+      shortcut: "⌘S",
+      run: toggleSidebar,
+    },
+    {
+      id: "account:sign-out",
+      title: "Sign Out",
+      group: "Account",
+      icon: LogOut,
+      run: onSignOut,
+    },
+  ])
+  return null
+}
+
 function AuthenticatedLayout() {
   const { data: session, isPending } = authClient.useSession()
   console.log({ session, isPending })
   const navigate = useNavigate()
+  const { projectId } = useParams({ strict: false })
   const [showNewProjectForm, setShowNewProjectForm] = useState(false)
   const [newProjectName, setNewProjectName] = useState("")
 
@@ -65,6 +107,9 @@ function AuthenticatedLayout() {
   const { data: projects, isLoading } = useLiveQuery((q) =>
     q.from({ projectCollection })
   )
+  const { data: invitations } = useLiveQuery((q) =>
+    q.from({ invitationsInboxCollection })
+  )
 
   useEffect(() => {
     if (!isPending && !session) {
@@ -83,7 +128,7 @@ function AuthenticatedLayout() {
           name: "Default",
           description: "Default project",
           owner_id: session.user.id,
-          shared_user_ids: [],
+          member_ids: [session.user.id],
           created_at: new Date(),
         })
       }
@@ -102,7 +147,7 @@ function AuthenticatedLayout() {
         name: newProjectName.trim(),
         description: "",
         owner_id: session.user.id,
-        shared_user_ids: [],
+        member_ids: [session.user.id],
         created_at: new Date(),
       })
       setNewProjectName("")
@@ -120,100 +165,132 @@ function AuthenticatedLayout() {
 
   return (
     <SidebarProvider>
-      <Sidebar>
-        <SidebarHeader>
-          <div className="flex items-center gap-2">
-            <h1 className="text-lg font-semibold">Arbor Editor</h1>
-          </div>
-        </SidebarHeader>
-
-        <SidebarContent>
-          <SidebarGroup>
-            <SidebarGroupLabel>Projects</SidebarGroupLabel>
-            <SidebarGroupAction
-              onClick={() => setShowNewProjectForm(!showNewProjectForm)}
-              title="Add Project"
-            >
-              <Plus className="size-4" />
-            </SidebarGroupAction>
-            <SidebarGroupContent>
-              {showNewProjectForm && (
-                <div className="mb-4 p-3 bg-muted rounded-md">
-                  <input
-                    type="text"
-                    value={newProjectName}
-                    onChange={(e) => setNewProjectName(e.target.value)}
-                    onKeyDown={(e) =>
-                      e.key === "Enter" && handleCreateProject()
-                    }
-                    placeholder="Project name"
-                    className="w-full px-2 py-1 border border-input rounded text-sm bg-background"
-                  />
-                  <div className="flex gap-2 mt-2">
-                    <Button onClick={handleCreateProject} size="sm">
-                      Create
-                    </Button>
-                    <Button
-                      onClick={() => setShowNewProjectForm(false)}
-                      variant="outline"
-                      size="sm"
-                    >
-                      Cancel
-                    </Button>
+      <CommandPaletteProvider>
+        <LayoutCommands onSignOut={handleLogout} />
+        <Sidebar>
+          <SidebarHeader>
+            <div className="flex items-center gap-2">
+              <h1 className="text-lg font-semibold">Arbor Editor</h1>
+            </div>
+          </SidebarHeader>
+
+          <SidebarContent>
+            <SidebarGroup>
+              <SidebarGroupLabel>Projects</SidebarGroupLabel>
+              <SidebarGroupAction
+                onClick={() => setShowNewProjectForm(!showNewProjectForm)}
+                title="Add Project"
+              >
+                <Plus className="size-4" />
+              </SidebarGroupAction>
+              <SidebarGroupContent>
+                {showNewProjectForm && (
+                  <div className="mb-4 p-3 bg-muted rounded-md">
+                    <input
+                      type="text"
+                      value={newProjectName}
+                      onChange={(e) => setNewProjectName(e.target.value)}
+                      onKeyDown={(e) =>
+                        e.key === "Enter" && handleCreateProject()
+                      }
+                      placeholder="Project name"
+                      className="w-full px-2 py-1 border border-input rounded text-sm bg-background"
+                    />
+                    <div className="flex gap-2 mt-2">
+                      <Button onClick={handleCreateProject} size="sm">
+                        Create
+                      </Button>
+                      <Button
+                        onClick={() => setShowNewProjectForm(false)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
                   </div>
+                )}
+
+                <SidebarMenu>
+                  {projects.map((project) => (
+                    <SidebarMenuItem key={project.id}>
+                      <SidebarMenuButton asChild>
+                        <Link
+                          to="/project/$projectId"
+                          params={{ projectId: project.id.toString() }}
+                        >
+                          <FolderIcon className="size-4" />
+                          <span>{project.name}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+
+            {projectId && (
+              <SidebarGroup>
+                <SidebarGroupLabel>Search</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <ProjectSearch projectId={parseInt(projectId, 10)} />
+                </SidebarGroupContent>
+              </SidebarGroup>
+            )}
+
+            {projectId && (
+              <SidebarGroup>
+                <SidebarGroupLabel>Explorer</SidebarGroupLabel>
+                <SidebarGroupContent>
+                  <FileExplorer projectId={parseInt(projectId, 10)} />
+                </SidebarGroupContent>
+              </SidebarGroup>
+            )}
+          </SidebarContent>
+
+          <SidebarSeparator />
+
+          <SidebarFooter>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <Link to="/invitations">
+                    <Mail className="size-4" />
+                    <span>Invitations</span>
+                  </Link>
+                </SidebarMenuButton>
+                {invitations.length > 0 && (
+                  <SidebarMenuBadge>{invitations.length}</SidebarMenuBadge>
+                )}
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <div className="flex items-center justify-between w-full px-2 py-1">
+                  <span className="text-sm text-muted-foreground">
+                    {session.user.email}
+                  </span>
+                  <Button onClick={handleLogout} variant="ghost" size="sm">
+                    Sign out
+                  </Button>
                 </div>
-              )}
-
-              <SidebarMenu>
-                {projects.map((project) => (
-                  <SidebarMenuItem key={project.id}>
-                    <SidebarMenuButton asChild>
-                      <Link
-                        to="/project/$projectId"
-                        params={{ projectId: project.id.toString() }}
-                      >
-                        <FolderIcon className="size-4" />
-                        <span>{project.name}</span>
-                      </Link>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                ))}
-              </SidebarMenu>
-            </SidebarGroupContent>
-          </SidebarGroup>
-        </SidebarContent>
-
-        <SidebarSeparator />
-
-        <SidebarFooter>
-          <SidebarMenu>
-            <SidebarMenuItem>
-              <div className="flex items-center justify-between w-full px-2 py-1">
-                <span className="text-sm text-muted-foreground">
-                  {session.user.email}
-                </span>
-                <Button onClick={handleLogout} variant="ghost" size="sm">
-                  Sign out
-                </Button>
-              </div>
-            </SidebarMenuItem>
-          </SidebarMenu>
-        </SidebarFooter>
-      </Sidebar>
-
-      <SidebarInset>
-        <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
-          <SidebarTrigger className="-ml-1" />
-          <div className="flex-1">
-            <h1 className="text-xl font-semibold">
-              TanStack DB / Electric Starter
-            </h1>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarFooter>
+        </Sidebar>
+
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
+            <SidebarTrigger className="-ml-1" />
+            <div className="flex-1">
+              <h1 className="text-xl font-semibold">
+                TanStack DB / Electric Starter
+              </h1>
+            </div>
+          </header>
+          <div className="flex flex-1 flex-col gap-4 p-4">
+            <Outlet />
           </div>
-        </header>
-        <div className="flex flex-1 flex-col gap-4 p-4">
-          <Outlet />
-        </div>
-      </SidebarInset>
+        </SidebarInset>
+      </CommandPaletteProvider>
     </SidebarProvider>
   )
 }
@@ -0,0 +1,142 @@
+import { createFileRoute, useNavigate } from "@tanstack/react-router"
+import { useLiveQuery } from "@tanstack/react-db"
+import { useState } from "react"
+import {
+  claimInvitation,
+  invitationsInboxCollection,
+  respondToInvitation,
+} from "@/lib/collections"
+import { type ProjectInvitation } from "@/db/schema"
+import { getMutationErrorMessage } from "@/lib/file-tree"
+import { isInvitationExpired } from "@/lib/invitations"
+import { PROJECT_ROLE_LABELS } from "@/lib/project-roles"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+export const Route = createFileRoute("/_authenticated/invitations")({
+  component: InvitationsPage,
+  ssr: false,
+  // Links in invitation emails carry the token of the invitation to highlight
+  validateSearch: (search: Record<string, unknown>): { token?: string } => ({
+    token: typeof search.token === "string" ? search.token : undefined,
+  }),
+  loaderDeps: ({ search }) => ({ token: search.token }),
+  loader: async ({ deps }) => {
+    await invitationsInboxCollection.preload()
+    // Invitations sent before the account existed, or to an address it
+    // hasn't verified, are claimed with the token from the link
+    if (deps.token) {
+      await claimInvitation(deps.token).catch(() => {
+        // The page says when the linked invitation isn't open
+      })
+    }
+    return null
+  },
+})
+
+function InvitationsPage() {
+  const { token } = Route.useSearch()
+  const navigate = useNavigate()
+  const [pendingId, setPendingId] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: invitations } = useLiveQuery((q) =>
+    q
+      .from({ invitationsInboxCollection })
+      .orderBy(
+        ({ invitationsInboxCollection }) =>
+          invitationsInboxCollection.created_at,
+        "desc"
+      )
+  )
+
+  const respond = async (
+    invitation: ProjectInvitation,
+    response: "accept" | "decline"
+  ) => {
+    setPendingId(invitation.id)
+    setError(null)
+    try {
+      await respondToInvitation(invitation.token, response)
+      if (response === "accept") {
+        navigate({
+          to: "/project/$projectId",
+          params: { projectId: invitation.project_id.toString() },
+        })
+      }
+    } catch (error) {
+      setError(getMutationErrorMessage(error))
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const linkedInvitationMissing =
+    token !== undefined &&
+    !invitations.some((invitation) => invitation.token === token)
+
+  return (
+    <div className="p-6">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4">Invitations</h1>
+
+        {linkedInvitationMissing && (
+          <p className="mb-4 rounded border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            This invitation is no longer open. It may have been answered or
+            revoked, or it was sent to a different email address.
+          </p>
+        )}
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <ul className="space-y-2">
+          {invitations.map((invitation) => {
+            const expired = isInvitationExpired(invitation)
+            return (
+              <li
+                key={invitation.id}
+                className={cn(
+                  "flex items-center gap-3 p-3 bg-white border border-gray-200 rounded-md shadow-sm",
+                  invitation.token === token && "ring-2 ring-blue-400"
+                )}
+              >
+                <div className="flex-1">
+                  <p className="text-gray-800">
+                    <strong>{invitation.inviter_name}</strong> invited you to{" "}
+                    <strong>{invitation.project_name}</strong> as{" "}
+                    {PROJECT_ROLE_LABELS[invitation.role].toLowerCase()}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {expired
+                      ? "This invitation has expired"
+                      : `Expires ${invitation.expires_at.toLocaleString()}`}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingId !== null}
+                  onClick={() => respond(invitation, "decline")}
+                >
+                  Decline
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={expired || pendingId !== null}
+                  onClick={() => respond(invitation, "accept")}
+                >
+                  Accept
+                </Button>
+              </li>
+            )
+          })}
+        </ul>
+
+        {invitations.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">You have no open invitations.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,23 +5,36 @@ import { authClient } from "@/lib/auth-client"
 import {
   todoCollection,
   projectCollection,
-  usersCollection,
-  foldersCollection,
-  filesCollection,
+  getProjectCollections,
 } from "@/lib/collections"
 import { type Todo } from "@/db/schema"
 import { Button } from "@/components/ui/button"
-import { FolderManager } from "@/components/folder-manager"
-import { FileManager } from "@/components/file-manager"
+import { PresenceAvatars } from "@/components/presence-avatars"
+import { ProjectMembers } from "@/components/project-members"
+import { ProjectShareLinks } from "@/components/project-share-links"
+import { ProjectArchive } from "@/components/project-archive"
+import { ProjectTrash } from "@/components/project-trash"
+import { ProjectActivity } from "@/components/project-activity"
+import { usePresence, useProjectViewers } from "@/hooks/use-presence"
+import { useProjectRole } from "@/hooks/use-project-role"
+import { hasProjectRole } from "@/lib/project-roles"
 
 export const Route = createFileRoute("/_authenticated/project/$projectId")({
   component: ProjectPage,
   ssr: false,
-  loader: async () => {
+  loader: async ({ params }) => {
+    const {
+      projectMembersCollection,
+      foldersCollection,
+      filesCollection,
+      presenceCollection,
+    } = getProjectCollections(parseInt(params.projectId, 10))
     await projectCollection.preload()
+    await projectMembersCollection.preload()
     await todoCollection.preload()
     await foldersCollection.preload()
     await filesCollection.preload()
+    await presenceCollection.preload()
     return null
   },
 })
@@ -31,6 +44,13 @@ function ProjectPage() {
   const { data: session } = authClient.useSession()
   const [newTodoText, setNewTodoText] = useState("")
 
+  usePresence({
+    projectId: parseInt(projectId, 10),
+    fileId: null,
+    user: session?.user,
+  })
+  const viewers = useProjectViewers(parseInt(projectId, 10), session?.user.id)
+
   const { data: todos } = useLiveQuery(
     (q) =>
       q
@@ -42,22 +62,10 @@ function ProjectPage() {
     [projectId]
   )
 
-  const { data: users } = useLiveQuery((q) =>
-    q.from({ users: usersCollection })
-  )
-  const { data: usersInProjects } = useLiveQuery(
-    (q) =>
-      q
-        .from({ projects: projectCollection })
-        .where(({ projects }) => eq(projects.id, parseInt(projectId, 10)))
-        .fn.select(({ projects }) => ({
-          users: projects.shared_user_ids.concat(projects.owner_id),
-          owner: projects.owner_id,
-        })),
-    [projectId]
-  )
-  const usersInProject = usersInProjects?.[0]
-  console.log({ usersInProject, users })
+  const role = useProjectRole(parseInt(projectId, 10), session?.user.id)
+  const canManage = hasProjectRole(role, "owner")
+  const canComment = hasProjectRole(role, "commenter")
+  const canEdit = hasProjectRole(role, "editor")
 
   const { data: projects } = useLiveQuery(
     (q) =>
@@ -71,7 +79,7 @@ function ProjectPage() {
   const project = projects[0]
 
   const addTodo = () => {
-    if (newTodoText.trim() && session) {
+    if (newTodoText.trim() && session && canComment) {
       todoCollection.insert({
         user_id: session.user.id,
         id: Math.floor(Math.random() * 100000),
@@ -102,23 +110,32 @@ function ProjectPage() {
   return (
     <div className="p-6">
       <div className="max-w-2xl mx-auto">
-        <h1
-          className="text-2xl font-bold text-gray-800 mb-2 cursor-pointer hover:bg-gray-50 p-0 rounded"
-          onClick={() => {
-            const newName = prompt("Edit project name:", project.name)
-            if (newName && newName !== project.name) {
-              projectCollection.update(project.id, (draft) => {
-                draft.name = newName
-              })
-            }
-          }}
-        >
-          {project.name}
-        </h1>
+        <div className="flex items-center justify-between gap-3 mb-2">
+          <h1
+            className={`text-2xl font-bold text-gray-800 p-0 rounded ${
+              canManage ? "cursor-pointer hover:bg-gray-50" : ""
+            }`}
+            onClick={() => {
+              if (!canManage) return
+              const newName = prompt("Edit project name:", project.name)
+              if (newName && newName !== project.name) {
+                projectCollection.update(project.id, (draft) => {
+                  draft.name = newName
+                })
+              }
+            }}
+          >
+            {project.name}
+          </h1>
+          <PresenceAvatars userIds={viewers.map((viewer) => viewer.userId)} />
+        </div>
 
         <p
-          className="text-gray-600 mb-3 cursor-pointer hover:bg-gray-50 p-0 rounded min-h-[1.5rem]"
+          className={`text-gray-600 mb-3 p-0 rounded min-h-[1.5rem] ${
+            canManage ? "cursor-pointer hover:bg-gray-50" : ""
+          }`}
           onClick={() => {
+            if (!canManage) return
             const newDescription = prompt(
               "Edit project description:",
               project.description || ""
@@ -130,22 +147,25 @@ function ProjectPage() {
             }
           }}
         >
-          {project.description || "Click to add description..."}
+          {project.description ||
+            (canManage ? "Click to add description..." : "")}
         </p>
 
-        <div className="flex gap-2 mb-4">
-          <input
-            type="text"
-            value={newTodoText}
-            onChange={(e) => setNewTodoText(e.target.value)}
-            onKeyDown={(e) => e.key === "Enter" && addTodo()}
-            placeholder="Add a new todo..."
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-          <Button onClick={addTodo} variant="default">
-            Add
-          </Button>
-        </div>
+        {canComment && (
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newTodoText}
+              onChange={(e) => setNewTodoText(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addTodo()}
+              placeholder="Add a new todo..."
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button onClick={addTodo} variant="default">
+              Add
+            </Button>
+          </div>
+        )}
 
         <ul className="space-y-2">
           {todos?.map((todo) => (
@@ -183,65 +203,32 @@ function ProjectPage() {
 
         <hr className="my-8 border-gray-200" />
 
-        {/* Folders and Files Section */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-          <FolderManager projectId={parseInt(projectId)} />
-          <FileManager projectId={parseInt(projectId)} />
-        </div>
+        <ProjectActivity projectId={parseInt(projectId, 10)} />
 
         <hr className="my-8 border-gray-200" />
 
-        <div>
-          <h3 className="text-lg font-semibold text-gray-800 mb-3">
-            Project Members
-          </h3>
-          <div className="space-y-2">
-            {(session?.user.id === project.owner_id
-              ? users
-              : users?.filter((user) => usersInProject?.users.includes(user.id))
-            )?.map((user) => {
-              const isInProject = usersInProject?.users.includes(user.id)
-              const isOwner = user.id === usersInProject?.owner
-              const canEditMembership = session?.user.id === project.owner_id
-              return (
-                <div
-                  key={user.id}
-                  className="flex items-center gap-3 p-2 bg-gray-50 rounded"
-                >
-                  {canEditMembership && (
-                    <input
-                      type="checkbox"
-                      checked={isInProject}
-                      onChange={() => {
-                        console.log(`onChange`, { isInProject, isOwner })
-                        if (isInProject && !isOwner) {
-                          projectCollection.update(project.id, (draft) => {
-                            draft.shared_user_ids =
-                              draft.shared_user_ids.filter(
-                                (id) => id !== user.id
-                              )
-                          })
-                        } else if (!isInProject) {
-                          projectCollection.update(project.id, (draft) => {
-                            draft.shared_user_ids.push(user.id)
-                          })
-                        }
-                      }}
-                      disabled={isOwner}
-                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 disabled:opacity-50"
-                    />
-                  )}
-                  <span className="flex-1 text-gray-800">{user.name}</span>
-                  {isOwner && (
-                    <span className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded">
-                      Owner
-                    </span>
-                  )}
-                </div>
-              )
-            })}
-          </div>
-        </div>
+        <ProjectMembers
+          projectId={parseInt(projectId, 10)}
+          userId={session?.user.id}
+        />
+
+        <hr className="my-8 border-gray-200" />
+
+        <ProjectArchive projectId={parseInt(projectId, 10)} canEdit={canEdit} />
+
+        <hr className="my-8 border-gray-200" />
+
+        <ProjectTrash projectId={parseInt(projectId, 10)} canEdit={canEdit} />
+
+        {canManage && session && (
+          <>
+            <hr className="my-8 border-gray-200" />
+            <ProjectShareLinks
+              projectId={parseInt(projectId, 10)}
+              userId={session.user.id}
+            />
+          </>
+        )}
       </div>
     </div>
   )
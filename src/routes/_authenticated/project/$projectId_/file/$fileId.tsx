@@ -0,0 +1,75 @@
+import { createFileRoute, Link } from "@tanstack/react-router"
+import { useLiveQuery, eq } from "@tanstack/react-db"
+import { authClient } from "@/lib/auth-client"
+import {
+  projectCollection,
+  usersCollection,
+  getProjectCollections,
+} from "@/lib/collections"
+import { EditorWorkspace } from "@/components/editor-workspace"
+import { ArrowLeft } from "lucide-react"
+
+export const Route = createFileRoute(
+  "/_authenticated/project/$projectId_/file/$fileId"
+)({
+  component: FileEditorPage,
+  ssr: false,
+  // Search results link to the matching line
+  validateSearch: (search: Record<string, unknown>): { line?: number } => {
+    const line = Number(search.line)
+    return { line: Number.isInteger(line) && line > 0 ? line : undefined }
+  },
+  loader: async ({ params }) => {
+    const {
+      foldersCollection,
+      filesCollection,
+      fileUpdatesCollection,
+      fileVersionsCollection,
+      presenceCollection,
+    } = getProjectCollections(parseInt(params.projectId, 10))
+    await projectCollection.preload()
+    await foldersCollection.preload()
+    await filesCollection.preload()
+    await fileUpdatesCollection.preload()
+    await fileVersionsCollection.preload()
+    await presenceCollection.preload()
+    await usersCollection.preload()
+    return null
+  },
+})
+
+function FileEditorPage() {
+  const { projectId, fileId } = Route.useParams()
+  const { line } = Route.useSearch()
+  const { data: session } = authClient.useSession()
+
+  const { data: projects } = useLiveQuery(
+    (q) =>
+      q
+        .from({ projectCollection })
+        .where(({ projectCollection }) =>
+          eq(projectCollection.id, parseInt(projectId, 10))
+        ),
+    [projectId]
+  )
+  const project = projects[0]
+
+  return (
+    <div className="flex h-[calc(100vh-8rem)] flex-col gap-3">
+      <Link
+        to="/project/$projectId"
+        params={{ projectId }}
+        className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-800"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        {project?.name ?? "Project"}
+      </Link>
+      <EditorWorkspace
+        projectId={parseInt(projectId, 10)}
+        fileId={parseInt(fileId, 10)}
+        line={line}
+        user={session?.user}
+      />
+    </div>
+  )
+}
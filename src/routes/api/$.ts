@@ -1,6 +1,6 @@
 import { createServerFileRoute } from "@tanstack/react-start/server"
 import { OpenAPIHono } from "@hono/zod-openapi"
-import { createCRUDRoutes } from "@/lib/createCRUDRoutes"
+import { createCRUDRoutes, ValidationError } from "@/lib/createCRUDRoutes"
 import {
   todosTable,
   selectTodoSchema,
@@ -18,9 +18,83 @@ import {
   selectFileSchema,
   createFileSchema,
   updateFileSchema,
+  fileUpdatesTable,
+  selectFileUpdateSchema,
+  createFileUpdateSchema,
+  updateFileUpdateSchema,
+  fileVersionsTable,
+  selectFileVersionSchema,
+  createFileVersionSchema,
+  updateFileVersionSchema,
+  presenceTable,
+  selectPresenceSchema,
+  createPresenceSchema,
+  updatePresenceSchema,
+  projectMembersTable,
+  selectProjectMemberSchema,
+  createProjectMemberSchema,
+  updateProjectMemberSchema,
+  projectInvitationsTable,
+  selectSentInvitationSchema,
+  createProjectInvitationSchema,
+  updateProjectInvitationSchema,
+  shareLinksTable,
+  selectShareLinkSchema,
+  createShareLinkSchema,
+  updateShareLinkSchema,
+  activityEventsTable,
+  selectActivityEventSchema,
+  createActivityEventSchema,
+  updateActivityEventSchema,
 } from "@/db/schema"
 import { users } from "@/db/auth-schema"
-import { eq, sql } from "drizzle-orm"
+import { eq, lt } from "drizzle-orm"
+import { mergeFileSnapshots } from "@/lib/loro"
+import {
+  maybeCompactFileUpdates,
+  nextFileUpdateSeq,
+} from "@/lib/file-compaction"
+import { maybeRecordAutoVersion } from "@/lib/file-versions"
+import { indexFileContent } from "@/lib/file-search"
+import {
+  assertFolderInProject,
+  assertValidFolderParent,
+} from "@/lib/folder-hierarchy"
+import { PRESENCE_TTL_MS } from "@/lib/presence"
+import {
+  assertFileInProject,
+  assertProjectHasOwner,
+  assertProjectRole,
+  assertRowProjectRole,
+  createProjectShapeFilter,
+  projectShapeFilter,
+  syncProjectMemberIds,
+  syncUserPeerIds,
+  verifyProjectRow,
+} from "@/lib/project-access"
+import { invitationRoutes, prepareInvitation } from "@/lib/invitation-routes"
+import { sendInvitationEmail } from "@/lib/project-invitations"
+import { prepareShareLink, shareRoutes } from "@/lib/share-routes"
+import { userSearchRoutes } from "@/lib/user-routes"
+import { searchRoutes } from "@/lib/search-routes"
+import { archiveRoutes } from "@/lib/archive-routes"
+import { assetRoutes } from "@/lib/asset-routes"
+import { trashFolderContents } from "@/lib/trash"
+import { trashRoutes } from "@/lib/trash-routes"
+import { folderRoutes } from "@/lib/folder-routes"
+import { startMaintenance } from "@/lib/maintenance"
+
+// Transform a base64 string from the API into a Uint8Array for bytea storage
+const decodeBase64 = (value: string, field: string): Uint8Array => {
+  try {
+    const binaryString = atob(value)
+    return new Uint8Array(binaryString.length).map((_, i) =>
+      binaryString.charCodeAt(i)
+    )
+  } catch (_error) {
+    throw new Error(`Invalid base64 data for ${field}`)
+  }
+}
 
 const routes = [
   createCRUDRoutes({
@@ -31,8 +105,17 @@ const routes = [
       update: updateProjectSchema,
     },
     basePath: "/api/projects",
-    syncFilter: (session) =>
-      `owner_id = '${session.user.id}' OR '${session.user.id}' = ANY(shared_user_ids)`,
+    syncFilter: (session) => ({
+      where: `$1::text = ANY(member_ids)`,
+      params: [session.user.id],
+    }),
+    // A deleted project takes its activity feed with it
+    activity: {
+      targetType: `project`,
+      getProjectId: (item) => item.id,
+      getName: (item) => item.name,
+      actions: [`create`, `update`],
+    },
     access: {
       create: (session, data) => {
         if (data.owner_id === session.user.id) {
@@ -41,9 +124,178 @@ const routes = [
           throw new Error(`You can only create projects you own`)
         }
       },
-      update: (session, _id, _data) =>
-        eq(projectsTable.owner_id, session.user.id),
-      delete: (session, _id) => eq(projectsTable.owner_id, session.user.id),
+      update: async (session, id, _data, tx) => {
+        await assertProjectRole(tx, id, session.user.id, "owner")
+        return true
+      },
+      delete: async (session, id, tx) => {
+        await assertProjectRole(tx, id, session.user.id, "owner")
+        return true
+      },
+    },
+    hooks: {
+      // The creator becomes the first owner of the project
+      afterCreate: async (tx, item) => {
+        await tx.insert(projectMembersTable).values({
+          project_id: item.id,
+          user_id: item.owner_id,
+          role: "owner",
+        })
+        await syncProjectMemberIds(tx, item.id)
+      },
+      // Deleting the project removed its members, so they may no longer
+      // share a project with each other
+      afterDelete: async (tx, item) => {
+        await syncUserPeerIds(tx, item.member_ids)
+      },
+    },
+  }),
+  createCRUDRoutes({
+    table: projectMembersTable,
+    schema: {
+      select: selectProjectMemberSchema,
+      create: createProjectMemberSchema,
+      update: updateProjectMemberSchema,
+    },
+    basePath: "/api/project-members",
+    conflictMessages: {
+      project_members_project_user_unique: `This user is already a member of the project`,
+    },
+    syncFilter: projectShapeFilter,
+    access: {
+      create: async (session, data, tx) => {
+        await assertProjectRole(tx, data.project_id, session.user.id, "owner")
+        return true
+      },
+      update: async (session, id, _data, tx) => {
+        await assertRowProjectRole(
+          tx,
+          projectMembersTable,
+          id,
+          session.user.id,
+          "owner"
+        )
+        return true
+      },
+      delete: async (session, id, tx) => {
+        // Any member may leave a project, only owners remove others
+        const [member] = await tx
+          .select({ user_id: projectMembersTable.user_id })
+          .from(projectMembersTable)
+          .where(eq(projectMembersTable.id, id))
+        if (member?.user_id !== session.user.id) {
+          await assertRowProjectRole(
+            tx,
+            projectMembersTable,
+            id,
+            session.user.id,
+            "owner"
+          )
+        }
+        return true
+      },
+    },
+    hooks: {
+      afterCreate: async (tx, item) => {
+        await syncProjectMemberIds(tx, item.project_id)
+      },
+      afterUpdate: async (tx, item) => {
+        await assertProjectHasOwner(tx, item.project_id)
+      },
+      afterDelete: async (tx, item) => {
+        await assertProjectHasOwner(tx, item.project_id)
+        await syncProjectMemberIds(tx, item.project_id)
+      },
+    },
+  }),
+  createCRUDRoutes({
+    table: projectInvitationsTable,
+    schema: {
+      select: selectSentInvitationSchema,
+      create: createProjectInvitationSchema,
+      update: updateProjectInvitationSchema,
+    },
+    basePath: "/api/project-invitations",
+    conflictMessages: {
+      project_invitations_pending_unique: `This email already has a pending invitation to the project`,
+    },
+    // The token lets the invitee answer, so only the inbox syncs it
+    privateColumns: [`token`],
+    // Owners sync the invitations of their project, while the inbox syncs
+    // the open invitations sent to the user
+    syncFilter: (session, params) =>
+      params.has(`project_id`)
+        ? createProjectShapeFilter(`owner`)(session, params)
+        : {
+            where: `invitee_id = $1 AND status = 'pending'`,
+            params: [session.user.id],
+            privateColumns: [],
+          },
+    access: {
+      create: async (session, data, tx) => {
+        if (data.invited_by !== session.user.id) {
+          throw new Error(`You can only send invitations as yourself`)
+        }
+        await assertProjectRole(tx, data.project_id, session.user.id, "owner")
+        return true
+      },
+      update: () => {
+        throw new Error(`Invitations are answered through the inbox`)
+      },
+      // Deleting an invitation revokes it
+      delete: async (session, id, tx) => {
+        await assertRowProjectRole(
+          tx,
+          projectInvitationsTable,
+          id,
+          session.user.id,
+          "owner"
+        )
+        return true
+      },
+    },
+    hooks: {
+      beforeCreate: prepareInvitation,
+      // Only email invitations that were actually stored
+      afterCreateCommit: sendInvitationEmail,
+    },
+  }),
+  createCRUDRoutes({
+    table: shareLinksTable,
+    schema: {
+      select: selectShareLinkSchema,
+      create: createShareLinkSchema,
+      update: updateShareLinkSchema,
+    },
+    basePath: "/api/share-links",
+    privateColumns: [`password_hash`],
+    // Only owners manage share links, so only they see the tokens
+    syncFilter: createProjectShapeFilter(`owner`),
+    access: {
+      create: async (session, data, tx) => {
+        if (data.created_by !== session.user.id) {
+          throw new Error(`You can only create share links as yourself`)
+        }
+        await assertProjectRole(tx, data.project_id, session.user.id, "owner")
+        return true
+      },
+      update: () => {
+        throw new Error(`Share links can't be changed; create a new one`)
+      },
+      // Deleting a share link revokes it
+      delete: async (session, id, tx) => {
+        await assertRowProjectRole(
+          tx,
+          shareLinksTable,
+          id,
+          session.user.id,
+          "owner"
+        )
+        return true
+      },
+    },
+    hooks: {
+      beforeCreate: prepareShareLink,
     },
   }),
   createCRUDRoutes({
@@ -54,18 +306,82 @@ const routes = [
       update: updateFolderSchema,
     },
     basePath: "/api/folders",
-    // Remove subquery - Electric doesn't support subqueries in sync filters
-    // For now, sync all folders and rely on access control for security
-    syncFilter: () => `true`,
+    conflictMessages: {
+      folders_project_parent_name_unique: `A folder with this name already exists here`,
+    },
+    syncFilter: projectShapeFilter,
+    softDelete: true,
+    activity: {
+      targetType: `folder`,
+      getProjectId: (item) => item.project_id,
+      getName: (item) => item.name,
+    },
     access: {
-      create: (_session, _data) => true,
-      update: (session, _id, _data) => {
-        // Use parameterized query for proper SQL binding
-        return sql`project_id IN (SELECT id FROM projects WHERE owner_id = ${session.user.id} OR ${session.user.id} = ANY(shared_user_ids))`
+      create: async (session, data, tx) => {
+        await verifyProjectRow(
+          tx,
+          session.user.id,
+          { project_id: data.project_id },
+          "editor"
+        )
+        return true
+      },
+      update: async (session, id, _data, tx) => {
+        await assertRowProjectRole(
+          tx,
+          foldersTable,
+          id,
+          session.user.id,
+          "editor"
+        )
+        return true
       },
-      delete: (session, _id) => {
-        // Use parameterized query for proper SQL binding
-        return sql`project_id IN (SELECT id FROM projects WHERE owner_id = ${session.user.id} OR ${session.user.id} = ANY(shared_user_ids))`
+      delete: async (session, id, tx) => {
+        await assertRowProjectRole(
+          tx,
+          foldersTable,
+          id,
+          session.user.id,
+          "editor"
+        )
+        return true
+      },
+    },
+    hooks: {
+      beforeCreate: async (tx, data) => {
+        await assertValidFolderParent(tx, {
+          project_id: data.project_id,
+          parent_folder_id: data.parent_folder_id ?? null,
+        })
+        return data
+      },
+      beforeUpdate: async (tx, id, data) => {
+        const [current] = await tx
+          .select()
+          .from(foldersTable)
+          .where(eq(foldersTable.id, id))
+          .for("update")
+        if (!current) return data
+
+        if (
+          data.project_id !== undefined &&
+          data.project_id !== current.project_id
+        ) {
+          throw new ValidationError(`Folders can't be moved to another project`)
+        }
+        await assertValidFolderParent(tx, {
+          id,
+          project_id: current.project_id,
+          parent_folder_id:
+            data.parent_folder_id === undefined
+              ? current.parent_folder_id
+              : data.parent_folder_id,
+        })
+        return data
+      },
+      // Everything in the folder goes to the trash with it
+      afterDelete: async (tx, item) => {
+        await trashFolderContents(tx, item)
       },
     },
   }),
@@ -77,42 +393,265 @@ const routes = [
       update: updateFileSchema,
     },
     basePath: "/api/files",
-    // Remove subquery - Electric doesn't support subqueries in sync filters
-    // For now, sync all files and rely on access control for security
-    syncFilter: () => `true`,
+    conflictMessages: {
+      files_folder_name_unique: `A file with this name already exists in this folder`,
+    },
+    syncFilter: projectShapeFilter,
+    softDelete: true,
+    activity: {
+      targetType: `file`,
+      getProjectId: (item) => item.project_id,
+      getName: (item) => item.name,
+    },
     access: {
-      create: (_session, data) => {
+      create: async (session, data, tx) => {
+        await verifyProjectRow(
+          tx,
+          session.user.id,
+          {
+            project_id: data.project_id,
+            folder_id: data.folder_id,
+          },
+          "editor"
+        )
         // Transform base64 string to Uint8Array for database storage
         if (data.loro_snapshot && typeof data.loro_snapshot === "string") {
-          try {
-            const binaryString = atob(data.loro_snapshot)
-            data.loro_snapshot = new Uint8Array(binaryString.length).map(
-              (_, i) => binaryString.charCodeAt(i)
-            )
-          } catch (_error) {
-            throw new Error("Invalid base64 data for loro_snapshot")
-          }
+          data.loro_snapshot = decodeBase64(data.loro_snapshot, "loro_snapshot")
         }
         return true
       },
-      update: (session, _id, data) => {
+      update: async (session, id, data, tx) => {
+        await assertRowProjectRole(
+          tx,
+          filesTable,
+          id,
+          session.user.id,
+          "editor"
+        )
         // Transform base64 string to Uint8Array for database storage
         if (data.loro_snapshot && typeof data.loro_snapshot === "string") {
-          try {
-            const binaryString = atob(data.loro_snapshot)
-            data.loro_snapshot = new Uint8Array(binaryString.length).map(
-              (_, i) => binaryString.charCodeAt(i)
-            )
-          } catch (_error) {
-            throw new Error("Invalid base64 data for loro_snapshot")
+          data.loro_snapshot = decodeBase64(data.loro_snapshot, "loro_snapshot")
+        }
+        return true
+      },
+      delete: async (session, id, tx) => {
+        await assertRowProjectRole(
+          tx,
+          filesTable,
+          id,
+          session.user.id,
+          "editor"
+        )
+        return true
+      },
+    },
+    hooks: {
+      beforeUpdate: async (tx, id, data) => {
+        const [current] = await tx
+          .select({
+            project_id: filesTable.project_id,
+            folder_id: filesTable.folder_id,
+            kind: filesTable.kind,
+            loro_snapshot: filesTable.loro_snapshot,
+          })
+          .from(filesTable)
+          .where(eq(filesTable.id, id))
+          .for("update")
+        if (!current) return data
+
+        if (data.folder_id !== undefined) {
+          await assertFolderInProject(tx, data.folder_id, current.project_id)
+        }
+
+        if (!data.loro_snapshot) return data
+        if (current.kind === "asset") {
+          throw new ValidationError(`The content of an asset can't be edited`)
+        }
+        // Merge the incoming document with the stored one so concurrent
+        // saves from different sessions combine instead of overwriting
+        return {
+          ...data,
+          loro_snapshot: mergeFileSnapshots(
+            current.loro_snapshot,
+            data.loro_snapshot
+          ),
+        }
+      },
+      afterCreate: async (tx, item) => {
+        await indexFileContent(tx, item.id)
+      },
+      // An update may replace the snapshot of the file
+      afterUpdate: async (tx, item) => {
+        await indexFileContent(tx, item.id)
+      },
+    },
+  }),
+  createCRUDRoutes({
+    table: fileUpdatesTable,
+    schema: {
+      select: selectFileUpdateSchema,
+      create: createFileUpdateSchema,
+      update: updateFileUpdateSchema,
+    },
+    basePath: "/api/file-updates",
+    syncFilter: projectShapeFilter,
+    access: {
+      create: async (session, data, tx) => {
+        if (data.author_id !== session.user.id) {
+          throw new Error(`You can only append updates as yourself`)
+        }
+        await verifyProjectRow(
+          tx,
+          session.user.id,
+          {
+            project_id: data.project_id,
+            file_id: data.file_id,
+          },
+          "editor"
+        )
+        data.loro_update = decodeBase64(data.loro_update, "loro_update")
+        return true
+      },
+      update: () => {
+        throw new Error(`File updates are append-only`)
+      },
+      delete: () => {
+        throw new Error(`File updates are removed by compaction`)
+      },
+    },
+    hooks: {
+      beforeCreate: async (tx, data) => {
+        const [file] = await tx
+          .select({ kind: filesTable.kind })
+          .from(filesTable)
+          .where(eq(filesTable.id, data.file_id))
+        if (file?.kind === "asset") {
+          throw new ValidationError(`The content of an asset can't be edited`)
+        }
+        return { ...data, seq: await nextFileUpdateSeq(tx, data.file_id) }
+      },
+      afterCreate: async (tx, item) => {
+        // Re-indexing reads the whole file, so it is left out of every
+        // keystroke batch: it runs on compaction, and searches re-index
+        // files with newer updates first
+        if (await maybeCompactFileUpdates(tx, item.file_id)) {
+          await indexFileContent(tx, item.file_id)
+        }
+        await maybeRecordAutoVersion(tx, item.file_id, item.author_id)
+      },
+    },
+  }),
+  createCRUDRoutes({
+    table: fileVersionsTable,
+    schema: {
+      select: selectFileVersionSchema,
+      create: createFileVersionSchema,
+      update: updateFileVersionSchema,
+    },
+    basePath: "/api/file-versions",
+    syncFilter: projectShapeFilter,
+    access: {
+      create: async (session, data, tx) => {
+        if (data.author_id !== session.user.id) {
+          throw new Error(`You can only create versions as yourself`)
+        }
+        await verifyProjectRow(
+          tx,
+          session.user.id,
+          {
+            project_id: data.project_id,
+            file_id: data.file_id,
+          },
+          "editor"
+        )
+        data.loro_snapshot = decodeBase64(data.loro_snapshot, "loro_snapshot")
+        return true
+      },
+      update: (session, _id, _data) =>
+        eq(fileVersionsTable.author_id, session.user.id),
+      delete: (session, _id) =>
+        eq(fileVersionsTable.author_id, session.user.id),
+    },
+  }),
+  createCRUDRoutes({
+    table: presenceTable,
+    schema: {
+      select: selectPresenceSchema,
+      create: createPresenceSchema,
+      update: updatePresenceSchema,
+    },
+    basePath: "/api/presence",
+    syncFilter: projectShapeFilter,
+    access: {
+      create: async (session, data, tx) => {
+        if (data.user_id !== session.user.id) {
+          throw new Error(`You can only announce your own presence`)
+        }
+        await verifyProjectRow(
+          tx,
+          session.user.id,
+          {
+            project_id: data.project_id,
+            file_id: data.file_id,
+          },
+          "viewer"
+        )
+        if (data.ephemeral) {
+          data.ephemeral = decodeBase64(data.ephemeral, "ephemeral")
+        }
+        return true
+      },
+      update: (session, _id, data) => {
+        if (data.ephemeral) {
+          data.ephemeral = decodeBase64(data.ephemeral, "ephemeral")
+        }
+        return eq(presenceTable.user_id, session.user.id)
+      },
+      delete: (session, _id) => eq(presenceTable.user_id, session.user.id),
+    },
+    hooks: {
+      beforeCreate: async (tx, data) => {
+        // Clear out rows left behind by tabs that closed without leaving
+        await tx
+          .delete(presenceTable)
+          .where(
+            lt(presenceTable.updated_at, new Date(Date.now() - PRESENCE_TTL_MS))
+          )
+        return data
+      },
+      beforeUpdate: async (tx, id, data) => {
+        // Moving to another file must stay within the project
+        if (data.file_id !== undefined && data.file_id !== null) {
+          const [row] = await tx
+            .select({ project_id: presenceTable.project_id })
+            .from(presenceTable)
+            .where(eq(presenceTable.id, id))
+          if (row) {
+            await assertFileInProject(tx, data.file_id, row.project_id)
           }
         }
-        // Use parameterized query for proper SQL binding
-        return sql`project_id IN (SELECT id FROM projects WHERE owner_id = ${session.user.id} OR ${session.user.id} = ANY(shared_user_ids))`
+        return { ...data, updated_at: new Date() }
+      },
+    },
+  }),
+  createCRUDRoutes({
+    table: activityEventsTable,
+    schema: {
+      select: selectActivityEventSchema,
+      create: createActivityEventSchema,
+      update: updateActivityEventSchema,
+    },
+    basePath: "/api/activity-events",
+    syncFilter: projectShapeFilter,
+    access: {
+      create: () => {
+        throw new Error(`Activity is recorded by the server`)
       },
-      delete: (session, _id) => {
-        // Use parameterized query for proper SQL binding
-        return sql`project_id IN (SELECT id FROM projects WHERE owner_id = ${session.user.id} OR ${session.user.id} = ANY(shared_user_ids))`
+      update: () => {
+        throw new Error(`Activity events can't be changed`)
+      },
+      delete: () => {
+        throw new Error(`Activity events can't be deleted`)
       },
     },
   }),
@@ -124,18 +663,42 @@ const routes = [
       update: updateTodoSchema,
     },
     basePath: "/api/todos",
-    syncFilter: (session) => `'${session.user.id}' = ANY(user_ids)`,
+    syncFilter: (session) => ({
+      where: `$1::text = ANY(user_ids)`,
+      params: [session.user.id],
+    }),
+    activity: {
+      targetType: `todo`,
+      getProjectId: (item) => item.project_id,
+      getName: (item) => item.text,
+    },
     access: {
-      create: (_session, _data) => true,
+      create: async (session, data, tx) => {
+        if (data.user_id !== session.user.id) {
+          throw new Error(`You can only create todos as yourself`)
+        }
+        await verifyProjectRow(
+          tx,
+          session.user.id,
+          { project_id: data.project_id },
+          "commenter"
+        )
+        return true
+      },
       update: (session, _id, _data) => eq(todosTable.user_id, session.user.id),
       delete: (session, _id) => eq(todosTable.user_id, session.user.id),
     },
   }),
-  // Add sync route - anyone authenticated can sync all users.
-  // Not particularly secure of course but works for this demo.
+  // Users only sync themselves and the people they share a project with;
+  // anyone else is found by exact email through /api/users/search
   createCRUDRoutes({
     table: users,
     basePath: "/api/users",
+    privateColumns: [`peer_ids`],
+    syncFilter: (session) => ({
+      where: `id = $1 OR $1::text = ANY(peer_ids)`,
+      params: [session.user.id],
+    }),
     access: {
       create: () => {
         throw new Error(`Can't create new users through REST API`)
@@ -148,9 +711,19 @@ const routes = [
       },
     },
   }),
+  userSearchRoutes,
+  searchRoutes,
+  archiveRoutes,
+  assetRoutes,
+  trashRoutes,
+  folderRoutes,
+  invitationRoutes,
+  shareRoutes,
 ] as const
 const app = new OpenAPIHono()
 
+startMaintenance()
+
 routes.forEach((route) => app.route(`/`, route))
 
 const serve = ({ request }: { request: Request }) => {
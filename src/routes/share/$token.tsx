@@ -0,0 +1,399 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileIcon,
+  FileText,
+  Folder,
+} from "lucide-react"
+import { getClient } from "@/api-client"
+import { type FileKind, type ShareScope } from "@/db/schema"
+import { formatFileSize } from "@/lib/assets"
+import { flattenTree } from "@/lib/file-tree"
+import { getFileLanguage } from "@/lib/languages"
+import { createFileDoc } from "@/lib/loro"
+import { FileEditor } from "@/components/file-editor"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+// Public page behind a share link; it lives outside the _authenticated
+// layout so visitors don't need an account
+export const Route = createFileRoute("/share/$token")({
+  component: SharePage,
+  ssr: false,
+})
+
+const client = getClient()
+
+interface SharedTree {
+  scope: ShareScope
+  name: string
+  project_name: string
+  folders: { id: number; name: string; parent_folder_id: number | null }[]
+  files: { id: number; name: string; folder_id: number | null }[]
+}
+
+interface SharedFile {
+  id: number
+  name: string
+  language: string | null
+  kind: FileKind
+  mime_type: string | null
+  size: number | null
+  // Empty for an asset, whose content is fetched separately
+  content: string
+}
+
+/** Thrown when the server rejects a share link request */
+class ShareRequestError extends Error {
+  constructor(
+    message: string,
+    readonly passwordRequired: boolean
+  ) {
+    super(message)
+    this.name = "ShareRequestError"
+  }
+}
+
+async function toShareRequestError(response: Response) {
+  const data = (await response.json().catch(() => ({}))) as {
+    error?: string
+    passwordRequired?: boolean
+  }
+  return new ShareRequestError(
+    data.error ?? "This link couldn't be opened",
+    data.passwordRequired ?? false
+  )
+}
+
+async function fetchSharedTree(
+  token: string,
+  password: string | undefined
+): Promise<SharedTree> {
+  const result = await client.api.share[":token"].$post({
+    param: { token },
+    json: { password },
+  })
+  if (!result.ok) throw await toShareRequestError(result)
+  return (await result.json()) as SharedTree
+}
+
+async function fetchSharedFile(
+  token: string,
+  fileId: number,
+  password: string | undefined
+): Promise<SharedFile> {
+  const result = await client.api.share[":token"].files[":fileId"].$post({
+    param: { token, fileId },
+    json: { password },
+  })
+  if (!result.ok) throw await toShareRequestError(result)
+  const file = (await result.json()) as Omit<SharedFile, "id">
+  return { id: fileId, ...file }
+}
+
+async function fetchSharedAsset(
+  token: string,
+  fileId: number,
+  password: string | undefined
+): Promise<Blob> {
+  const result = await client.api.share[":token"].files[
+    ":fileId"
+  ].content.$post({
+    param: { token, fileId },
+    json: { password },
+  })
+  if (!result.ok) throw await toShareRequestError(result)
+  return await result.blob()
+}
+
+/**
+ * Shows a shared asset: images in the page, anything else as a download.
+ * The content is fetched with the link password, so it is shown through an
+ * object URL rather than a plain link.
+ */
+function SharedAssetViewer({
+  token,
+  file,
+  password,
+}: {
+  token: string
+  file: SharedFile
+  password: string | undefined
+}) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let objectUrl: string | null = null
+    let cancelled = false
+    fetchSharedAsset(token, file.id, password)
+      .then((blob) => {
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(blob)
+        setUrl(objectUrl)
+      })
+      .catch((error) => {
+        if (cancelled) return
+        setError(
+          error instanceof Error ? error.message : "The file couldn't be opened"
+        )
+      })
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [token, file.id, password])
+
+  if (error) return <p className="p-4 text-sm text-red-600">{error}</p>
+
+  // Shown through an <img>, so scripts in an SVG don't run
+  if (url && file.mime_type?.startsWith("image/")) {
+    return (
+      <div className="flex h-full items-center justify-center overflow-auto p-4">
+        <img src={url} alt={file.name} className="max-h-full max-w-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-full flex-col items-center justify-center gap-3 p-6 text-center">
+      <FileIcon className="size-10 text-gray-400" />
+      <div>
+        <p className="font-medium text-gray-800">{file.name}</p>
+        <p className="text-sm text-gray-500">
+          {file.mime_type ?? "Unknown type"}
+          {file.size !== null && ` · ${formatFileSize(file.size)}`}
+        </p>
+      </div>
+      <Button size="sm" variant="outline" disabled={!url} asChild={!!url}>
+        {url ? (
+          <a href={url} download={file.name}>
+            <Download />
+            Download
+          </a>
+        ) : (
+          <span>Loading...</span>
+        )}
+      </Button>
+    </div>
+  )
+}
+
+function SharedFileViewer({ file }: { file: SharedFile }) {
+  // A fresh document per file, only ever shown read-only
+  const doc = useMemo(() => createFileDoc(file.content), [file])
+  return (
+    <FileEditor
+      doc={doc}
+      readOnly
+      language={getFileLanguage(file)}
+      className="h-full"
+    />
+  )
+}
+
+function SharePage() {
+  const { token } = Route.useParams()
+  const [tree, setTree] = useState<SharedTree | null>(null)
+  // The password that opened the link, sent again with every file request
+  const [password, setPassword] = useState<string | undefined>()
+  const [passwordInput, setPasswordInput] = useState("")
+  const [passwordRequired, setPasswordRequired] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+  const [file, setFile] = useState<SharedFile | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const openFile = useCallback(
+    async (fileId: number, filePassword: string | undefined) => {
+      setFileError(null)
+      try {
+        setFile(await fetchSharedFile(token, fileId, filePassword))
+      } catch (error) {
+        setFileError(
+          error instanceof Error ? error.message : "The file couldn't be opened"
+        )
+      }
+    },
+    [token]
+  )
+
+  const openLink = useCallback(
+    async (linkPassword: string | undefined) => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const result = await fetchSharedTree(token, linkPassword)
+        setTree(result)
+        setPassword(linkPassword)
+        setPasswordRequired(false)
+        // A shared file opens straight away
+        if (result.scope === "file" && result.files[0]) {
+          await openFile(result.files[0].id, linkPassword)
+        }
+      } catch (error) {
+        if (error instanceof ShareRequestError && error.passwordRequired) {
+          setPasswordRequired(true)
+          // The first request is made without a password, so only report
+          // the error once one was entered
+          if (linkPassword !== undefined) setError(error.message)
+        } else {
+          setError(
+            error instanceof Error
+              ? error.message
+              : "This link couldn't be opened"
+          )
+        }
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [token, openFile]
+  )
+
+  useEffect(() => {
+    openLink(undefined)
+  }, [openLink])
+
+  const rows = useMemo(
+    () => (tree ? flattenTree(tree.folders, tree.files, expanded) : []),
+    [tree, expanded]
+  )
+
+  const toggleFolder = (folderId: number) => {
+    setExpanded((current) => {
+      const next = new Set(current)
+      if (next.has(folderId)) {
+        next.delete(folderId)
+      } else {
+        next.add(folderId)
+      }
+      return next
+    })
+  }
+
+  if (passwordRequired && !tree) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 p-6">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            openLink(passwordInput)
+          }}
+          className="w-full max-w-sm space-y-3 rounded-lg border border-gray-200 bg-white p-6 shadow-sm"
+        >
+          <h1 className="text-lg font-semibold text-gray-800">
+            This link is password protected
+          </h1>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Input
+            type="password"
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            placeholder="Password"
+            autoFocus
+          />
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!passwordInput || isLoading}
+          >
+            {isLoading ? "Opening..." : "Open"}
+          </Button>
+        </form>
+      </div>
+    )
+  }
+
+  if (!tree) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 p-6">
+        <p className="text-gray-600">
+          {isLoading ? "Loading..." : (error ?? "This link couldn't be opened")}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-screen flex-col bg-white">
+      <header className="flex items-center gap-2 border-b border-gray-200 px-4 py-3">
+        <h1 className="font-semibold text-gray-800">{tree.name}</h1>
+        {tree.scope !== "project" && (
+          <span className="text-sm text-gray-500">
+            from {tree.project_name}
+          </span>
+        )}
+        <span className="ml-auto rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+          Read-only
+        </span>
+      </header>
+      <div className="flex min-h-0 flex-1">
+        {tree.scope !== "file" && (
+          <nav className="w-64 shrink-0 overflow-y-auto border-r border-gray-200 py-2 text-sm">
+            {rows.map((row) => (
+              <button
+                key={row.key}
+                type="button"
+                onClick={() =>
+                  row.type === "folder"
+                    ? toggleFolder(row.id)
+                    : openFile(row.id, password)
+                }
+                className={cn(
+                  "flex w-full items-center gap-1 px-2 py-1 text-left hover:bg-gray-100",
+                  row.type === "file" &&
+                    file?.id === row.id &&
+                    "bg-blue-50 text-blue-800"
+                )}
+                style={{ paddingLeft: `${row.level * 0.75 + 0.5}rem` }}
+              >
+                {row.type === "folder" ? (
+                  <>
+                    {expanded.has(row.id) ? (
+                      <ChevronDown className="size-4 shrink-0" />
+                    ) : (
+                      <ChevronRight className="size-4 shrink-0" />
+                    )}
+                    <Folder className="size-4 shrink-0 text-gray-500" />
+                  </>
+                ) : (
+                  <FileText className="ml-5 size-4 shrink-0 text-gray-500" />
+                )}
+                <span className="truncate">{row.name}</span>
+              </button>
+            ))}
+            {rows.length === 0 && (
+              <p className="px-3 py-2 text-gray-500">Nothing shared yet.</p>
+            )}
+          </nav>
+        )}
+        <main className="min-w-0 flex-1">
+          {fileError ? (
+            <p className="p-4 text-sm text-red-600">{fileError}</p>
+          ) : file ? (
+            file.kind === "asset" ? (
+              <SharedAssetViewer
+                key={file.id}
+                token={token}
+                file={file}
+                password={password}
+              />
+            ) : (
+              <SharedFileViewer key={file.id} file={file} />
+            )
+          ) : (
+            <p className="p-4 text-sm text-gray-500">
+              Select a file to view it.
+            </p>
+          )}
+        </main>
+      </div>
+    </div>
+  )
+}
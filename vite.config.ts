@@ -2,12 +2,20 @@ import { defineConfig } from "vite"
 import { tanstackStart } from "@tanstack/react-start/plugin/vite"
 import viteTsConfigPaths from "vite-tsconfig-paths"
 import tailwindcss from "@tailwindcss/vite"
+import wasm from "vite-plugin-wasm"
 import { caddyPlugin } from "./src/vite-plugin-caddy"
 
 const config = defineConfig({
   server: {
     host: true,
   },
+  // loro-crdt initializes its WebAssembly module with top-level await
+  build: {
+    target: `esnext`,
+  },
+  optimizeDeps: {
+    exclude: [`loro-crdt`],
+  },
   plugins: [
     // this is the plugin that enables path aliases
     viteTsConfigPaths({
@@ -15,6 +23,8 @@ const config = defineConfig({
     }),
     // Local HTTPS with Caddy
     caddyPlugin(),
+    // loro-crdt ships its CRDT engine as a WebAssembly module
+    wasm(),
     tailwindcss(),
     tanstackStart({
       spa: {